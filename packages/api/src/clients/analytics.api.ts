@@ -21,11 +21,13 @@
 
 import { 
   post, 
+  createErrorResponse,
+  fromApiEnvelope,
   isWeb,
   isIOS,
   isAndroid
 } from '@igorganapolsky/boats-core';
-import { ApiResponse } from '@igorganapolsky/boats-types';
+import { ApiEnvelope, ApiResponse } from '@igorganapolsky/boats-types';
 import { ApiClientConfig, getApiConfig, createAuthHeaders } from '../config/api-config';
 
 export interface AnalyticsEvent {
@@ -58,7 +60,7 @@ export class AnalyticsApiClient {
    * 
    * @param event - Event information including name and optional properties
    * @returns Promise resolving to an API response with a boolean success indicator
-   * @throws Error if the network request fails
+   * Failures are logged and returned as an error response rather than thrown
    * 
    * @example
    * ```typescript
@@ -82,7 +84,7 @@ export class AnalyticsApiClient {
         timestamp: Date.now()
       };
       
-      return await post<ApiResponse<boolean>>(
+      const body = await post<ApiEnvelope<boolean>>(
         `${this.config.baseUrl}/analytics/events`,
         fullEvent,
         { 
@@ -90,16 +92,12 @@ export class AnalyticsApiClient {
           timeout: this.config.timeout
         }
       );
+      
+      return fromApiEnvelope(body, 'Failed to track event', true);
     } catch (error) {
       // Don't throw for analytics errors, just log them
       console.error('Analytics error:', error);
-      return {
-        data: false,
-        error: {
-          code: 'ANALYTICS_ERROR',
-          message: 'Failed to track event'
-        }
-      };
+      return createErrorResponse('ANALYTICS_ERROR', 'Failed to track event');
     }
   }
   
@@ -6,9 +6,12 @@
 import { 
   post, 
   get, 
-  handleApiError 
+  createErrorResponse,
+  fromApiEnvelope,
+  toErrorResponse
 } from '@igorganapolsky/boats-core';
 import { 
+  ApiEnvelope,
   ApiResponse,
   UserProfile,
   UserPreferences
@@ -45,7 +48,7 @@ export class AuthApiClient {
    */
   async login(credentials: AuthCredentials): Promise<ApiResponse<AuthState>> {
     try {
-      const response = await post<ApiResponse<AuthState>>(
+      const body = await post<ApiEnvelope<AuthState>>(
         `${this.config.baseUrl}/auth/login`,
         credentials,
         { 
@@ -54,14 +57,16 @@ export class AuthApiClient {
         }
       );
       
+      const response = fromApiEnvelope<AuthState>(body, 'Login failed');
+      
       // Store tokens if successful
-      if (response.data?.tokens) {
+      if (response.success && response.data.tokens) {
         this.storeTokens(response.data.tokens);
       }
       
       return response;
     } catch (error) {
-      throw handleApiError(error);
+      return toErrorResponse(error, 'Login failed');
     }
   }
   
@@ -70,7 +75,7 @@ export class AuthApiClient {
    */
   async register(userData: AuthCredentials & Partial<UserProfile>): Promise<ApiResponse<AuthState>> {
     try {
-      const response = await post<ApiResponse<AuthState>>(
+      const body = await post<ApiEnvelope<AuthState>>(
         `${this.config.baseUrl}/auth/register`,
         userData,
         { 
@@ -79,14 +84,16 @@ export class AuthApiClient {
         }
       );
       
+      const response = fromApiEnvelope<AuthState>(body, 'Registration failed');
+      
       // Store tokens if successful
-      if (response.data?.tokens) {
+      if (response.success && response.data.tokens) {
         this.storeTokens(response.data.tokens);
       }
       
       return response;
     } catch (error) {
-      throw handleApiError(error);
+      return toErrorResponse(error, 'Registration failed');
     }
   }
   
@@ -98,7 +105,7 @@ export class AuthApiClient {
       const tokens = this.getTokens();
       const headers = createAuthHeaders(tokens?.accessToken, this.config.headers);
       
-      const response = await post<ApiResponse<boolean>>(
+      const body = await post<ApiEnvelope<boolean>>(
         `${this.config.baseUrl}/auth/logout`,
         { refreshToken: tokens?.refreshToken },
         { 
@@ -110,10 +117,10 @@ export class AuthApiClient {
       // Clear tokens on successful logout
       this.clearTokens();
       
-      return response;
+      return fromApiEnvelope(body, 'Logout failed', true);
     } catch (error) {
       this.clearTokens(); // Clear tokens even on error
-      throw handleApiError(error);
+      return toErrorResponse(error, 'Logout failed');
     }
   }
   
@@ -125,15 +132,17 @@ export class AuthApiClient {
       const tokens = this.getTokens();
       const headers = createAuthHeaders(tokens?.accessToken, this.config.headers);
       
-      return await get<ApiResponse<UserProfile>>(
+      const body = await get<ApiEnvelope<UserProfile>>(
         `${this.config.baseUrl}/auth/me`,
         { 
           headers,
           timeout: this.config.timeout
         }
       );
+      
+      return fromApiEnvelope(body, 'Failed to fetch current user');
     } catch (error) {
-      throw handleApiError(error);
+      return toErrorResponse(error, 'Failed to fetch current user');
     }
   }
   
@@ -145,15 +154,17 @@ export class AuthApiClient {
       const tokens = this.getTokens();
       const headers = createAuthHeaders(tokens?.accessToken, this.config.headers);
       
-      return await get<ApiResponse<UserPreferences>>(
+      const body = await get<ApiEnvelope<UserPreferences>>(
         `${this.config.baseUrl}/auth/preferences`,
         { 
           headers,
           timeout: this.config.timeout
         }
       );
+      
+      return fromApiEnvelope(body, 'Failed to fetch user preferences');
     } catch (error) {
-      throw handleApiError(error);
+      return toErrorResponse(error, 'Failed to fetch user preferences');
     }
   }
   
@@ -165,7 +176,7 @@ export class AuthApiClient {
       const tokens = this.getTokens();
       const headers = createAuthHeaders(tokens?.accessToken, this.config.headers);
       
-      return await post<ApiResponse<UserPreferences>>(
+      const body = await post<ApiEnvelope<UserPreferences>>(
         `${this.config.baseUrl}/auth/preferences`,
         preferences,
         { 
@@ -173,8 +184,10 @@ export class AuthApiClient {
           timeout: this.config.timeout
         }
       );
+      
+      return fromApiEnvelope(body, 'Failed to update user preferences');
     } catch (error) {
-      throw handleApiError(error);
+      return toErrorResponse(error, 'Failed to update user preferences');
     }
   }
   
@@ -186,10 +199,11 @@ export class AuthApiClient {
       const tokens = this.getTokens();
       
       if (!tokens?.refreshToken) {
-        throw new Error('No refresh token available');
+        this.clearTokens();
+        return createErrorResponse('NO_REFRESH_TOKEN', 'No refresh token available');
       }
       
-      const response = await post<ApiResponse<AuthTokens>>(
+      const body = await post<ApiEnvelope<AuthTokens>>(
         `${this.config.baseUrl}/auth/refresh`,
         { refreshToken: tokens.refreshToken },
         { 
@@ -198,15 +212,19 @@ export class AuthApiClient {
         }
       );
       
+      const response = fromApiEnvelope<AuthTokens>(body, 'Failed to refresh tokens');
+      
       // Store new tokens if successful
-      if (response.data) {
+      if (response.success) {
         this.storeTokens(response.data);
+      } else {
+        this.clearTokens();
       }
       
       return response;
     } catch (error) {
       this.clearTokens(); // Clear tokens on refresh error
-      throw handleApiError(error);
+      return toErrorResponse(error, 'Failed to refresh tokens');
     }
   }
   
@@ -215,7 +233,7 @@ export class AuthApiClient {
    */
   async requestPasswordReset(email: string): Promise<ApiResponse<boolean>> {
     try {
-      return await post<ApiResponse<boolean>>(
+      const body = await post<ApiEnvelope<boolean>>(
         `${this.config.baseUrl}/auth/reset-password`,
         { email },
         { 
@@ -223,8 +241,10 @@ export class AuthApiClient {
           timeout: this.config.timeout
         }
       );
+      
+      return fromApiEnvelope(body, 'Failed to request password reset', true);
     } catch (error) {
-      throw handleApiError(error);
+      return toErrorResponse(error, 'Failed to request password reset');
     }
   }
   
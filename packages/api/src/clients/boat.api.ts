@@ -8,15 +8,70 @@ import {
   post, 
   put, 
   del, 
-  handleApiError 
+  createSuccessResponse,
+  toErrorResponse,
+  assertSchema,
+  arraySchema,
+  objectSchema,
+  optionalSchema,
+  boatSchema,
+  boatComparisonResultSchema,
+  canonicalizeBoatTypeField,
+  imageAnalysisResultSchema,
+  dealerSchema,
+  paginationMetaSchema,
+  sellerSchema,
+  redactSellerContact,
+  filterVisibleInventory
 } from '@boats/core';
 import { 
   Boat, 
   BoatComparisonResult, 
   ImageAnalysisResult, 
-  ApiResponse 
+  ApiResponse,
+  ApiSuccess,
+  Dealer,
+  PaginationMeta,
+  Seller,
+  UserProfile
 } from '@boats/types';
-import { ApiClientConfig, getApiConfig } from '../config/api-config';
+import { ApiClientConfig, createAuthHeaders, getApiConfig } from '../config/api-config';
+
+// Payloads are validated before they leave the client so malformed data
+// surfaces here rather than deep inside the UI
+const boatListSchema = arraySchema(boatSchema);
+
+// Listings may name their type in free text ("Center Console"), so boat types
+// are canonicalized before validation
+const parseBoat = (body: unknown): Boat =>
+  assertSchema(boatSchema, canonicalizeBoatTypeField(body), 'boat');
+
+const canonicalizeBoats = (body: unknown): unknown =>
+  Array.isArray(body) ? body.map(canonicalizeBoatTypeField) : body;
+
+const parseBoats = (body: unknown): Boat[] =>
+  assertSchema(boatListSchema, canonicalizeBoats(body), 'boats');
+
+// Paginated list endpoints wrap the boats in a page with its metadata
+const boatPageSchema = objectSchema<{ data: Boat[]; meta?: PaginationMeta }>({
+  data: boatListSchema,
+  meta: optionalSchema(paginationMetaSchema)
+});
+
+/**
+ * Read a list endpoint's body: a bare array of boats, or a page `{ data, meta }`
+ * whose pagination metadata is passed on in the response
+ */
+function parseBoatList(body: unknown): ApiSuccess<Boat[]> {
+  if (Array.isArray(body)) {
+    return createSuccessResponse(parseBoats(body));
+  }
+  const page = typeof body === 'object' && body !== null
+    ? { ...body, data: canonicalizeBoats((body as { data?: unknown }).data) }
+    : body;
+  const { data, meta } = assertSchema(boatPageSchema, page, 'boats');
+  return createSuccessResponse(data, meta);
+}
 
 export class BoatApiClient {
   private config: ApiClientConfig;
@@ -30,11 +85,12 @@ export class BoatApiClient {
    */
   async getBoats(params?: URLSearchParams): Promise<ApiResponse<Boat[]>> {
     try {
-      const url = `${this.config.apiUrl}/boats`;
-      const response = await get<Boat[]>(url, params);
-      return { data: response, error: null };
+      const query = params?.toString();
+      const url = `${this.config.baseUrl}/boats${query ? `?${query}` : ''}`;
+      const response = await get<unknown>(url);
+      return parseBoatList(response);
     } catch (error) {
-      return handleApiError<Boat[]>(error, 'Failed to fetch boats');
+      return toErrorResponse(error, 'Failed to fetch boats');
     }
   }
   
@@ -43,11 +99,11 @@ export class BoatApiClient {
    */
   async getBoat(id: string): Promise<ApiResponse<Boat>> {
     try {
-      const url = `${this.config.apiUrl}/boats/${id}`;
-      const response = await get<Boat>(url);
-      return { data: response, error: null };
+      const url = `${this.config.baseUrl}/boats/${id}`;
+      const response = await get<unknown>(url);
+      return createSuccessResponse(parseBoat(response));
     } catch (error) {
-      return handleApiError<Boat>(error, `Failed to fetch boat with ID: ${id}`);
+      return toErrorResponse(error, `Failed to fetch boat with ID: ${id}`);
     }
   }
   
@@ -56,11 +112,11 @@ export class BoatApiClient {
    */
   async createBoat(boat: Partial<Boat>): Promise<ApiResponse<Boat>> {
     try {
-      const url = `${this.config.apiUrl}/boats`;
-      const response = await post<Boat>(url, boat);
-      return { data: response, error: null };
+      const url = `${this.config.baseUrl}/boats`;
+      const response = await post<unknown>(url, boat);
+      return createSuccessResponse(parseBoat(response));
     } catch (error) {
-      return handleApiError<Boat>(error, 'Failed to create boat');
+      return toErrorResponse(error, 'Failed to create boat');
     }
   }
   
@@ -69,11 +125,11 @@ export class BoatApiClient {
    */
   async updateBoat(id: string, boat: Partial<Boat>): Promise<ApiResponse<Boat>> {
     try {
-      const url = `${this.config.apiUrl}/boats/${id}`;
-      const response = await put<Boat>(url, boat);
-      return { data: response, error: null };
+      const url = `${this.config.baseUrl}/boats/${id}`;
+      const response = await put<unknown>(url, boat);
+      return createSuccessResponse(parseBoat(response));
     } catch (error) {
-      return handleApiError<Boat>(error, `Failed to update boat with ID: ${id}`);
+      return toErrorResponse(error, `Failed to update boat with ID: ${id}`);
     }
   }
   
@@ -82,11 +138,11 @@ export class BoatApiClient {
    */
   async deleteBoat(id: string): Promise<ApiResponse<boolean>> {
     try {
-      const url = `${this.config.apiUrl}/boats/${id}`;
+      const url = `${this.config.baseUrl}/boats/${id}`;
       await del(url);
-      return { data: true, error: null };
+      return createSuccessResponse(true);
     } catch (error) {
-      return handleApiError<boolean>(error, `Failed to delete boat with ID: ${id}`);
+      return toErrorResponse(error, `Failed to delete boat with ID: ${id}`);
     }
   }
   
@@ -95,11 +151,16 @@ export class BoatApiClient {
    */
   async compareBoats(boat1Id: string, boat2Id: string): Promise<ApiResponse<BoatComparisonResult>> {
     try {
-      const url = `${this.config.apiUrl}/boats/compare`;
-      const response = await post<BoatComparisonResult>(url, { boat1Id, boat2Id });
-      return { data: response, error: null };
+      const url = `${this.config.baseUrl}/boats/compare`;
+      const response = await post<Record<string, unknown>>(url, { boat1Id, boat2Id });
+      const comparison = {
+        ...response,
+        boat1: canonicalizeBoatTypeField(response?.boat1),
+        boat2: canonicalizeBoatTypeField(response?.boat2)
+      };
+      return createSuccessResponse(assertSchema(boatComparisonResultSchema, comparison, 'comparison'));
     } catch (error) {
-      return handleApiError<BoatComparisonResult>(error, 'Failed to compare boats');
+      return toErrorResponse(error, 'Failed to compare boats');
     }
   }
   
@@ -109,11 +170,11 @@ export class BoatApiClient {
   async searchBoats(query: string): Promise<ApiResponse<Boat[]>> {
     try {
       const params = new URLSearchParams({ q: query });
-      const url = `${this.config.apiUrl}/boats/search?${params.toString()}`;
-      const response = await get<Boat[]>(url);
-      return { data: response, error: null };
+      const url = `${this.config.baseUrl}/boats/search?${params.toString()}`;
+      const response = await get<unknown>(url);
+      return parseBoatList(response);
     } catch (error) {
-      return handleApiError<Boat[]>(error, 'Failed to search boats');
+      return toErrorResponse(error, 'Failed to search boats');
     }
   }
   
@@ -125,11 +186,11 @@ export class BoatApiClient {
       const formData = new FormData();
       formData.append('image', imageData);
       
-      const url = `${this.config.apiUrl}/boats/analyze`;
-      const response = await post<ImageAnalysisResult>(url, formData);
-      return { data: response, error: null };
+      const url = `${this.config.baseUrl}/boats/analyze`;
+      const response = await post<unknown>(url, formData);
+      return createSuccessResponse(assertSchema(imageAnalysisResultSchema, canonicalizeBoatTypeField(response), 'analysis'));
     } catch (error) {
-      return handleApiError<ImageAnalysisResult>(error, 'Failed to analyze image');
+      return toErrorResponse(error, 'Failed to analyze image');
     }
   }
   
@@ -138,11 +199,69 @@ export class BoatApiClient {
    */
   async findSimilarBoats(analysis: ImageAnalysisResult): Promise<ApiResponse<Boat[]>> {
     try {
-      const url = `${this.config.apiUrl}/boats/similar`;
-      const response = await post<Boat[]>(url, analysis);
-      return { data: response, error: null };
+      const url = `${this.config.baseUrl}/boats/similar`;
+      const response = await post<unknown>(url, analysis);
+      return createSuccessResponse(parseBoats(response));
+    } catch (error) {
+      return toErrorResponse(error, 'Failed to find similar boats');
+    }
+  }
+  
+  /**
+   * Get the seller of a boat
+   * The request carries the client's auth token and the server leaves out contact
+   * channels that user may not see. The response is redacted again for the viewer
+   * as defence in depth only; it does not protect data the server sends.
+   * @param boatId Boat identifier
+   * @param viewer Signed-in user the client's auth token belongs to, or null for anonymous visitors
+   */
+  async getBoatSeller(boatId: string, viewer: UserProfile | null): Promise<ApiResponse<Seller>> {
+    try {
+      const url = `${this.config.baseUrl}/boats/${boatId}/seller`;
+      const response = await get<unknown>(url, this.getAuthOptions());
+      const seller = assertSchema(sellerSchema, response, 'seller');
+      return createSuccessResponse(redactSellerContact(seller, this.getViewer(viewer)));
+    } catch (error) {
+      return toErrorResponse(error, `Failed to fetch seller for boat with ID: ${boatId}`);
+    }
+  }
+  
+  /**
+   * Get a dealer
+   * The request carries the client's auth token and the server leaves out contact
+   * channels that user may not see. The response is redacted again for the viewer
+   * as defence in depth only; it does not protect data the server sends.
+   * @param dealerId Dealer identifier
+   * @param viewer Signed-in user the client's auth token belongs to, or null for anonymous visitors
+   */
+  async getDealer(dealerId: string, viewer: UserProfile | null): Promise<ApiResponse<Dealer>> {
+    try {
+      const url = `${this.config.baseUrl}/dealers/${dealerId}`;
+      const response = await get<unknown>(url, this.getAuthOptions());
+      const dealer = assertSchema(dealerSchema, response, 'dealer');
+      return createSuccessResponse(redactSellerContact(dealer, this.getViewer(viewer)));
     } catch (error) {
-      return handleApiError<Boat[]>(error, 'Failed to find similar boats');
+      return toErrorResponse(error, `Failed to fetch dealer with ID: ${dealerId}`);
+    }
+  }
+  
+  /**
+   * Get the boats in a dealer's inventory
+   * Only the dealer itself and admins see listings that are not on the market
+   * @param dealerId Dealer identifier
+   * @param viewer Signed-in user the client's auth token belongs to, or null for anonymous visitors
+   */
+  async getDealerInventory(dealerId: string, viewer: UserProfile | null): Promise<ApiResponse<Boat[]>> {
+    try {
+      const [dealerResponse, inventoryResponse] = await Promise.all([
+        get<unknown>(`${this.config.baseUrl}/dealers/${dealerId}`, this.getAuthOptions()),
+        get<unknown>(`${this.config.baseUrl}/dealers/${dealerId}/inventory`, this.getAuthOptions())
+      ]);
+      const dealer = assertSchema(dealerSchema, dealerResponse, 'dealer');
+      const boats = parseBoats(inventoryResponse);
+      return createSuccessResponse(filterVisibleInventory(dealer, boats, this.getViewer(viewer)));
+    } catch (error) {
+      return toErrorResponse(error, `Failed to fetch inventory for dealer with ID: ${dealerId}`);
     }
   }
   
@@ -151,13 +270,33 @@ export class BoatApiClient {
    */
   async getBoatStatistics(): Promise<ApiResponse<Record<string, any>>> {
     try {
-      const url = `${this.config.apiUrl}/boats/statistics`;
+      const url = `${this.config.baseUrl}/boats/statistics`;
       const response = await get<Record<string, any>>(url);
-      return { data: response, error: null };
+      return createSuccessResponse(response);
     } catch (error) {
-      return handleApiError<Record<string, any>>(error, 'Failed to get boat statistics');
+      return toErrorResponse(error, 'Failed to get boat statistics');
     }
   }
+  
+  /**
+   * Request options that identify the signed-in user to the server,
+   * which enforces who may see seller contact details and unlisted inventory
+   */
+  private getAuthOptions(): { headers: Record<string, string>; timeout: number } {
+    return {
+      headers: createAuthHeaders(this.config.authToken, this.config.headers),
+      timeout: this.config.timeout
+    };
+  }
+
+  /**
+   * Get the user to redact responses for
+   * Without an auth token the server treats the request as anonymous, so the
+   * response is redacted as anonymous too, whatever user the caller passed
+   */
+  private getViewer(viewer: UserProfile | null): UserProfile | null {
+    return this.config.authToken ? viewer : null;
+  }
 }
 
 /**
@@ -176,7 +315,7 @@ export const getBoatDetails = async (id: string): Promise<Boat> => {
     return {
       id,
       name: `Boat ${id}`,
-      type: 'yacht',
+      boatType: 'motor-yacht',
       manufacturer: 'Example Manufacturer',
       model: 'Luxury 42',
       year: 2023,
@@ -193,20 +332,38 @@ export const getBoatDetails = async (id: string): Promise<Boat> => {
         'Air Conditioning',
         'Watermaker'
       ],
+      propulsion: {
+        engines: [
+          { make: 'Volvo Penta', model: 'D6', horsepower: 440, hours: 350, fuelType: 'diesel', driveType: 'inboard' },
+          { make: 'Volvo Penta', model: 'D6', horsepower: 440, hours: 350, fuelType: 'diesel', driveType: 'inboard' }
+        ]
+      },
       specifications: {
-        'Engine Type': 'Twin Diesel',
-        'Engine Hours': 350,
         'Fuel Capacity': '450 gallons',
         'Water Capacity': '150 gallons',
-        'Hull Material': 'Fiberglass',
-        'Location': 'Miami, FL'
+        'Hull Material': 'Fiberglass'
       },
+      location: 'Miami, FL',
+      geoLocation: {
+        latitude: 25.7617,
+        longitude: -80.1918,
+        city: 'Miami',
+        region: 'FL',
+        country: 'US'
+      },
+      sellerId: 'dealer-1',
       images: [
         {
           url: 'https://example.com/boats/yacht1.jpg',
           caption: 'Port side view'
         }
       ],
+      status: 'active',
+      listedAt: new Date(Date.now() - 1000 * 60 * 60 * 24 * 45).toISOString(),
+      priceHistory: [
+        { price: 595000, currency: 'USD', changedAt: new Date(Date.now() - 1000 * 60 * 60 * 24 * 45).toISOString() },
+        { price: 550000, currency: 'USD', changedAt: new Date(Date.now() - 1000 * 60 * 60 * 24 * 5).toISOString() }
+      ],
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
@@ -0,0 +1,98 @@
+/**
+ * Benchmark: BoatSimilarityIndex vs brute-force findSimilarBoats
+ *
+ * Generates a deterministic synthetic inventory, runs the same queries through
+ * both paths, checks that the results are identical and reports the speedup.
+ *
+ * Usage: yarn bench [inventorySize] [queryCount]
+ */
+
+import { BoatType } from '@igorganapolsky/boats-types';
+import { Boat } from '../src/types';
+import { findSimilarBoats } from '../src/utils/boat-matching.utils';
+import { BOAT_TYPES } from '../src/utils/boat-type.utils';
+import { createRandom } from '../src/utils/random.utils';
+import { BoatSimilarityIndex } from '../src/utils/similarity-index.utils';
+
+const inventorySize = parseInt(process.argv[2] || '20000', 10);
+const queryCount = parseInt(process.argv[3] || '20', 10);
+const threshold = 0.7;
+const limit = 10;
+
+const random = createRandom(42);
+const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+const MANUFACTURERS = [
+  'Sea Ray', 'Bayliner', 'Boston Whaler', 'Chaparral', 'Grady-White', 'MasterCraft',
+  'Chris-Craft', 'Bertram', 'Beneteau', 'Jeanneau', 'Catalina', 'Hunter', 'Yamaha',
+  'Regal', 'Cobalt', 'Formula', 'Viking', 'Hatteras', 'Lagoon', 'Leopard'
+];
+const FEATURES = [
+  'GPS', 'Radar', 'Autopilot', 'Bow Thruster', 'Generator', 'Air Conditioning',
+  'Swim Platform', 'Hardtop', 'Outriggers', 'Livewell', 'Windlass', 'Solar Panels',
+  'Watermaker', 'Stereo', 'Fishfinder', 'Bimini Top'
+];
+const ENGINE_TYPES = ['Twin Outboard', 'Single Inboard Diesel', 'Sterndrive', 'Triple Outboard 300hp', 'Jet'];
+
+function createBoat(index: number): Boat {
+  const manufacturer = pick(MANUFACTURERS);
+  const boatType: BoatType = pick(BOAT_TYPES);
+  return {
+    id: `boat-${index}`,
+    name: `${manufacturer} ${index}`,
+    manufacturer,
+    model: `${manufacturer.split(' ')[0]} ${20 + Math.floor(random() * 50)}${pick(['', 'SS', 'CC', 'XL', 'Sport'])}`,
+    year: 1995 + Math.floor(random() * 30),
+    length: 16 + Math.round(random() * 60),
+    beam: 6 + Math.round(random() * 14),
+    engineType: pick(ENGINE_TYPES),
+    features: FEATURES.filter(() => random() < 0.3),
+    imageUrls: [],
+    price: 10000 + Math.round(random() * 2000000),
+    boatType
+  };
+}
+
+function time<T>(run: () => T): { result: T; ms: number } {
+  const start = process.hrtime.bigint();
+  const result = run();
+  return { result, ms: Number(process.hrtime.bigint() - start) / 1e6 };
+}
+
+const inventory = Array.from({ length: inventorySize }, (_, index) => createBoat(index));
+const queries = Array.from({ length: queryCount }, () => pick(inventory));
+
+console.log(`Inventory: ${inventorySize} boats, ${queryCount} queries, threshold ${threshold}, limit ${limit}\n`);
+
+const build = time(() => new BoatSimilarityIndex(inventory));
+const index = build.result;
+console.log(`Index build: ${build.ms.toFixed(0)} ms`);
+
+let bruteForceMs = 0;
+let indexMs = 0;
+let scored = 0;
+let mismatches = 0;
+
+queries.forEach(query => {
+  const bruteForce = time(() => findSimilarBoats(query, inventory, threshold, limit));
+  const indexed = time(() => index.findSimilar(query, threshold, limit));
+  bruteForceMs += bruteForce.ms;
+  indexMs += indexed.ms;
+  scored += index.lastQueryStats.scored;
+
+  const expected = bruteForce.result.map(match => `${match.boat.id}:${match.similarityScore}`).join(',');
+  const actual = indexed.result.map(match => `${match.boat.id}:${match.similarityScore}`).join(',');
+  if (expected !== actual) {
+    mismatches++;
+    console.error(`Mismatch for ${query.id}\n  brute force: ${expected}\n  index:       ${actual}`);
+  }
+});
+
+console.log(`Brute force: ${(bruteForceMs / queryCount).toFixed(1)} ms/query`);
+console.log(`Index:       ${(indexMs / queryCount).toFixed(1)} ms/query (${Math.round(scored / queryCount)} boats fully scored per query)`);
+console.log(`Speedup:     ${(bruteForceMs / indexMs).toFixed(1)}x`);
+console.log(`Results:     ${mismatches === 0 ? 'identical' : `${mismatches} mismatched queries`}`);
+
+if (mismatches > 0) {
+  process.exitCode = 1;
+}
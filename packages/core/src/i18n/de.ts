@@ -0,0 +1,290 @@
+/**
+ * German messages
+ * Boat type labels, feature names and free-text listing values are shown as
+ * written in the listing.
+ */
+
+import { MessageCatalog } from '../utils/i18n.utils';
+
+export const DE_MESSAGES: MessageCatalog = {
+  'common.notAvailable': 'k. A.',
+  'common.yes': 'Ja',
+  'common.no': 'Nein',
+  'list.separator': ', ',
+  'list.and': '{head} und {last}',
+
+  // Boat and engine vocabulary
+  'condition.new': 'neu',
+  'condition.used': 'gebraucht',
+  'driveType.outboard': 'Außenborder',
+  'driveType.inboard': 'Innenborder',
+  'driveType.sterndrive': 'Z-Antrieb',
+  'driveType.pod': 'Pod-Antrieb',
+  'driveType.jet': 'Jetantrieb',
+  'fuelType.gasoline': 'Benzin',
+  'fuelType.diesel': 'Diesel',
+  'fuelType.electric': 'Strom',
+  'fuelType.hybrid': 'Hybrid',
+  'propulsion.engine': 'Motor',
+  'propulsion.totalHorsepower': '{horsepower} gesamt',
+
+  // Attribute labels
+  'attribute.manufacturer.label': 'Hersteller',
+  'attribute.model.label': 'Modell',
+  'attribute.boatType.label': 'Bootstyp',
+  'attribute.year.label': 'Baujahr',
+  'attribute.condition.label': 'Zustand',
+  'attribute.length.label': 'Länge',
+  'attribute.beam.label': 'Breite',
+  'attribute.draft.label': 'Tiefgang',
+  'attribute.weight.label': 'Gewicht',
+  'attribute.fuelCapacity.label': 'Tankinhalt',
+  'attribute.waterCapacity.label': 'Frischwassertank',
+  'attribute.cabins.label': 'Kabinen',
+  'attribute.berths.label': 'Kojen',
+  'attribute.hullType.label': 'Rumpfform',
+  'attribute.engines.label': 'Motorisierung',
+  'attribute.engineCount.label': 'Anzahl Motoren',
+  'attribute.driveType.label': 'Antriebsart',
+  'attribute.fuelType.label': 'Kraftstoff',
+  'attribute.horsepower.label': 'Leistung',
+  'attribute.engineHours.label': 'Motorstunden',
+  'attribute.features.label': 'Ausstattung',
+  'attribute.price.label': 'Preis',
+  'attribute.pricePerFoot.label': 'Preis pro {unit}',
+  'attribute.fairPrice.label': 'Im Vergleich zum fairen Preis',
+  'attribute.daysOnMarket.label': 'Tage im Angebot',
+
+  // Comparison documents
+  'comparison.title': 'Vergleich: {boats}',
+  'comparison.versus': ' vs. ',
+  'comparison.overview': 'Vergleich von {boat1} ({year1}) und {boat2} ({year2}).',
+  'comparison.heading.overview': 'Überblick',
+  'comparison.heading.similarities': 'Gemeinsamkeiten',
+  'comparison.heading.differences': 'Unterschiede',
+  'comparison.heading.why': 'Warum {score} % ähnlich',
+  'comparison.heading.specifications': 'Technische Daten im Vergleich',
+  'comparison.heading.similarity': 'Ähnlichkeit',
+  'comparison.noSimilarities': 'Keine wesentlichen Gemeinsamkeiten gefunden.',
+  'comparison.noDifferences': 'Keine wesentlichen Unterschiede gefunden.',
+  'comparison.contribution': '{reason} (+{contribution} %)',
+  'comparison.notCompared': 'Nicht verglichen: {components}',
+  'comparison.specification': 'Merkmal',
+  'comparison.bestValue': 'bester Wert',
+
+  // Generic attribute phrases
+  'comparison.same': '{label} bei beiden Booten gleich ({value1})',
+  'comparison.similar': '{label} bei beiden Booten ähnlich ({value1} vs. {value2})',
+  'comparison.higher': '{boat1} hat einen höheren Wert bei {label} als {boat2} ({value1} vs. {value2})',
+  'comparison.differ': '{label} unterschiedlich: {value1} vs. {value2}',
+
+  // Attribute phrases
+  'attribute.manufacturer.similar': 'Beide Boote stammen von {value1}',
+  'attribute.model.similar': 'Beide Boote sind das Modell {value1}',
+  'attribute.boatType.similar': 'Beide Boote sind vom Typ {value1}',
+  'attribute.year.same': 'Beide Boote sind Baujahr {value1}',
+  'attribute.year.similar': 'Beide Boote wurden zwischen {value2} und {value1} gebaut',
+  'attribute.year.different': '{boat1} ist {difference} Jahre neuer als {boat2}',
+  'attribute.year.best': '{boat} ist das neueste Boot ({value}).',
+  'attribute.condition.similar': 'Beide Boote sind {value1}',
+  'attribute.condition.different': '{boat1} ist {value1}, {boat2} dagegen {value2}',
+  'attribute.length.similar': 'Beide Boote sind ähnlich groß (weniger als 10 % Längenunterschied)',
+  'attribute.length.different': '{boat1} ist deutlich länger als {boat2}',
+  'attribute.length.best': '{boat} ist das längste Boot ({value}).',
+  'attribute.beam.different': '{boat1} ist breiter als {boat2} ({value1} vs. {value2})',
+  'attribute.draft.different': '{boat1} hat mehr Tiefgang als {boat2} ({value1} vs. {value2})',
+  'attribute.weight.different': '{boat1} ist schwerer als {boat2} ({value1} vs. {value2})',
+  'attribute.fuelCapacity.different': '{boat1} fasst mehr Kraftstoff als {boat2} ({value1} vs. {value2})',
+  'attribute.waterCapacity.different': '{boat1} fasst mehr Frischwasser als {boat2} ({value1} vs. {value2})',
+  'attribute.cabins.same': { one: 'Beide Boote haben {count} Kabine', other: 'Beide Boote haben {count} Kabinen' },
+  'attribute.cabins.different': {
+    one: '{boat1} hat {count} Kabine, {boat2} dagegen {value2}',
+    other: '{boat1} hat {count} Kabinen, {boat2} dagegen {value2}'
+  },
+  'attribute.cabins.best': '{boat} hat die meisten Kabinen ({value}).',
+  'attribute.berths.same': { one: 'Beide Boote haben {count} Koje', other: 'Beide Boote haben {count} Kojen' },
+  'attribute.berths.different': {
+    one: '{boat1} hat {count} Koje, {boat2} dagegen {value2}',
+    other: '{boat1} hat {count} Kojen, {boat2} dagegen {value2}'
+  },
+  'attribute.berths.best': '{boat} bietet die meisten Schlafplätze ({value}).',
+  'attribute.hullType.similar': 'Beide Boote haben einen {value1}-Rumpf',
+  'attribute.engineCount.same': { one: 'Beide Boote haben {count} Motor', other: 'Beide Boote haben {count} Motoren' },
+  'attribute.engineCount.different': {
+    one: '{boat1} hat {count} Motor, {boat2} dagegen {value2}',
+    other: '{boat1} hat {count} Motoren, {boat2} dagegen {value2}'
+  },
+  'attribute.driveType.similar': 'Beide Boote haben {value1}',
+  'attribute.fuelType.similar': 'Beide Boote fahren mit {value1}',
+  'attribute.horsepower.value': '{value} PS',
+  'attribute.horsepower.similar': 'Beide Boote sind ähnlich stark motorisiert ({value1} vs. {value2})',
+  'attribute.horsepower.different': '{boat1} hat {percent} % mehr Leistung als {boat2}',
+  'attribute.horsepower.best': '{boat} hat die meiste Leistung ({value}).',
+  'attribute.engineHours.similar': 'Beide Boote haben ähnlich viele Motorstunden ({value1} vs. {value2})',
+  'attribute.engineHours.different': '{boat2} hat {difference} Motorstunden weniger als {boat1}',
+  'attribute.engineHours.best': '{boat} hat die wenigsten Motorstunden ({value}).',
+  'attribute.features.shared': 'Beide Boote haben {feature}',
+  'attribute.features.unique': 'Nur {boat} hat: {features}',
+  'attribute.features.best': '{boat} hat die umfangreichste Ausstattung ({value}).',
+  'attribute.price.similar': 'Beide Boote sind ähnlich teuer ({value1} vs. {value2})',
+  'attribute.price.different': '{boat1} ist {percent} % teurer als {boat2}',
+  'attribute.price.reduced': '{boat} wurde kürzlich im Preis gesenkt',
+  'attribute.price.reducedBy': '{boat} wurde kürzlich im Preis gesenkt und liegt {percent} % unter dem ursprünglichen Preis',
+  'attribute.price.best': '{boat} ist am günstigsten ({value}).',
+  'attribute.pricePerFoot.best': '{boat} kostet am wenigsten pro Längeneinheit ({value}).',
+  'attribute.fairPrice.above': '{percent} % über dem fairen Preis',
+  'attribute.fairPrice.below': '{percent} % unter dem fairen Preis',
+  'attribute.fairPrice.best': '{boat} bietet im Marktvergleich das beste Preis-Leistungs-Verhältnis ({value}).',
+
+  // Fair price assessments
+  'valuation.assessment': {
+    one: '{boat} ist {rating}: Angebotspreis {asking}, fairer Preis {low}–{high} ({confidence} Sicherheit, {count} Vergleichsangebot)',
+    other: '{boat} ist {rating}: Angebotspreis {asking}, fairer Preis {low}–{high} ({confidence} Sicherheit, {count} Vergleichsangebote)'
+  },
+  'valuation.rating.underpriced': 'günstig bepreist',
+  'valuation.rating.fair': 'fair bepreist',
+  'valuation.rating.overpriced': 'zu teuer',
+  'valuation.confidence.low': 'geringe',
+  'valuation.confidence.medium': 'mittlere',
+  'valuation.confidence.high': 'hohe',
+
+  // Cost of ownership
+  'ownership.heading': {
+    one: 'Unterhaltskosten ({count} Jahr)',
+    other: 'Unterhaltskosten ({count} Jahre)'
+  },
+  'ownership.assumptions': 'Geschätzt für {hours, number} Motorstunden pro Jahr, Unterbringung: {storage}.',
+  'ownership.cost': 'Kosten',
+  'ownership.category.fuel': 'Kraftstoff',
+  'ownership.category.insurance': 'Versicherung',
+  'ownership.category.storage': 'Unterbringung',
+  'ownership.category.maintenance': 'Wartung',
+  'ownership.category.registration': 'Zulassung',
+  'ownership.category.depreciation': 'Wertverlust',
+  'ownership.total': 'Gesamt',
+  'ownership.perYear': 'Pro Jahr',
+  'ownership.cheaper': '{boat1} kostet im Unterhalt etwa {difference} pro Jahr weniger als {boat2} ({cost1} vs. {cost2})',
+  'storageType.slip': 'Liegeplatz',
+  'storageType.mooring': 'Bojenliegeplatz',
+  'storageType.dryStack': 'Trockenlager',
+  'storageType.trailer': 'Trailer',
+
+  // Recommendations
+  'recommendation.extremelySimilar': 'Diese Boote sind sich sehr ähnlich. Entscheiden Sie nach Zustand, Preis und Liegeplatz.',
+  'recommendation.similar': 'Diese Boote haben viel gemeinsam, unterscheiden sich aber in einigen wichtigen Punkten. Überlegen Sie, welche Merkmale Ihnen am wichtigsten sind.',
+  'recommendation.somewhatSimilar': 'Diese Boote haben einige Gemeinsamkeiten, sind insgesamt aber recht verschieden. Wägen Sie die Unterschiede sorgfältig nach Ihren Bedürfnissen ab.',
+  'recommendation.different': 'Diese Boote sind sehr unterschiedlich und dienen vermutlich verschiedenen Zwecken. Überlegen Sie, wofür Sie das Boot hauptsächlich nutzen werden.',
+  'recommendation.noData': 'Keines dieser Inserate enthält genug Angaben, um es mit Ihren Anforderungen abzugleichen.',
+  'recommendation.best': '{boat} erfüllt Ihre Anforderungen am besten ({score} % Übereinstimmung).',
+  'recommendation.bestWithReasons': '{boat} erfüllt Ihre Anforderungen am besten ({score} % Übereinstimmung): {reasons}.',
+  'recommendation.drawbacks': 'Beachten Sie: {reasons}.',
+  'recommendation.other': '{boat} erreicht {score} % Übereinstimmung.',
+  'recommendation.otherWithReasons': '{boat} erreicht {score} % Übereinstimmung: {reasons}.',
+  'recommendation.reasonSeparator': '; ',
+
+  // Multi-boat narratives
+  'narrative.comparing': 'Vergleich von {count} Booten: {boats}.',
+  'narrative.mostAlike': '{boat1} und {boat2} sind sich am ähnlichsten ({score} % ähnlich).',
+  'narrative.differMost': '{boat1} und {boat2} unterscheiden sich am stärksten ({score} % ähnlich).',
+  'narrative.bestIn': '{boat} schneidet in {count} von {total} Kategorien am besten ab ({attributes}).',
+  'narrative.bestPhrase': '{boat}: {phrase} ({value}).',
+  'narrative.commonFeatures': 'Alle {count} Boote haben {features}.',
+
+  // Similarity score reasons
+  'similarity.component.manufacturer': 'Hersteller',
+  'similarity.component.model': 'Modell',
+  'similarity.component.year': 'Baujahr',
+  'similarity.component.dimensions': 'Abmessungen',
+  'similarity.component.propulsion': 'Antrieb',
+  'similarity.component.features': 'Ausstattung',
+  'similarity.component.category': 'Bootstyp',
+  'similarity.component.price': 'Preis',
+  'similarity.manufacturer.unknown': 'Hersteller bei mindestens einem Boot unbekannt',
+  'similarity.manufacturer.same': 'Beide gebaut von {manufacturer1}',
+  'similarity.manufacturer.different': 'Gebaut von {manufacturer1} und {manufacturer2}',
+  'similarity.model.unknown': 'Modell bei mindestens einem Boot unbekannt',
+  'similarity.model.same': 'Gleiches Modell ({model1})',
+  'similarity.model.different': 'Verschiedene Modelle ({model1} vs. {model2})',
+  'similarity.year.unknown': 'Baujahr bei mindestens einem Boot unbekannt',
+  'similarity.year.same': 'Beide Baujahr {year1}',
+  'similarity.year.different': {
+    one: 'Baujahre {count} Jahr auseinander ({year1} vs. {year2})',
+    other: 'Baujahre {count} Jahre auseinander ({year1} vs. {year2})'
+  },
+  'similarity.dimensions.unknown': 'Abmessungen bei mindestens einem Boot unbekannt',
+  'similarity.dimensions.same': 'Nahezu gleich groß ({length1} vs. {length2})',
+  'similarity.dimensions.different': 'Abmessungen zu {percent} % ähnlich ({length1} vs. {length2})',
+  'similarity.propulsion.unknown': 'Motordaten bei mindestens einem Boot unbekannt',
+  'similarity.propulsion.same': 'Vergleichbare Motorisierung ({engines1})',
+  'similarity.propulsion.different': 'Unterschiedliche Motorisierung ({engines1} vs. {engines2})',
+  'similarity.features.unknown': 'Ausstattung bei mindestens einem Boot unbekannt',
+  'similarity.features.none': 'Keine gemeinsame Ausstattung',
+  'similarity.features.shared': {
+    one: '{count} gemeinsames Ausstattungsmerkmal ({examples})',
+    other: '{count} gemeinsame Ausstattungsmerkmale ({examples})'
+  },
+  'similarity.category.unknown': 'Bootstyp bei mindestens einem Boot unbekannt',
+  'similarity.category.tags': 'Kategorien zu {percent} % ähnlich',
+  'similarity.category.same': 'Beide vom Typ {type1}',
+  'similarity.category.sameCategory': '{type1} und {type2} gehören beide zur Kategorie {category}',
+  'similarity.category.different': 'Verschiedene Typen ({type1} vs. {type2})',
+  'similarity.price.unknown': 'Preis bei mindestens einem Boot unbekannt',
+  'similarity.price.compared': 'Preise zu {percent} % ähnlich ({price1} vs. {price2})',
+
+  // Requirement fit reasons
+  'requirement.crew.unknown': 'Größe unbekannt, daher lässt sich die Kapazität nicht schätzen',
+  'requirement.crew.berths': { one: '{count} Koje', other: '{count} Kojen' },
+  'requirement.crew.room': 'Platz für etwa {count} Personen',
+  'requirement.crew.enough': 'Bietet {capacity}, genug für eine Crew von {crew}',
+  'requirement.crew.tooSmall': 'Bietet {capacity}, weniger als für eine Crew von {crew} nötig',
+  'requirement.activities.unknown': 'Bootstyp und Ausstattung unbekannt',
+  'requirement.activities.suited': 'Geeignet für {suited}',
+  'requirement.activities.unsuited': 'Nicht geeignet für {unsuited}',
+  'requirement.activities.mixed': 'Geeignet für {suited}, aber nicht für {unsuited}',
+  'requirement.budget.unknown': 'Preis unbekannt',
+  'requirement.budget.over': '{price} liegt {percent} % über dem Budget von {budget}',
+  'requirement.budget.below': '{price} liegt unter dem Budgetrahmen',
+  'requirement.budget.within': 'Im Budget mit {price}',
+  'requirement.trailerable.type': 'Boote vom Typ {type} lassen sich leicht trailern',
+  'requirement.trailerable.tooWide': 'Zu breit zum Trailern ohne Sondergenehmigung ({beam} Breite)',
+  'requirement.trailerable.heavy': 'Schmal genug zum Trailern, aber schwer mit {weight, number} lb',
+  'requirement.trailerable.ok': 'Trailerbar ({beam} Breite)',
+  'requirement.trailerable.unknown': 'Breite und Länge unbekannt',
+  'requirement.trailerable.probably': 'Bei {length} wahrscheinlich trailerbar',
+  'requirement.trailerable.maybe': 'Bei {length} eventuell trailerbar; Breite prüfen',
+  'requirement.trailerable.unlikely': 'Bei {length} kaum trailerbar',
+  'requirement.waterType.listed': 'Für {water} ausgeschrieben',
+  'requirement.waterType.unknown': 'Bootstyp unbekannt',
+  'requirement.waterType.mostlyFresh': 'Boote vom Typ {type} werden meist auf Süßwasser genutzt',
+  'requirement.waterType.mostlySalt': 'Boote vom Typ {type} werden meist auf Salzwasser genutzt',
+  'requirement.waterType.suits': 'Boote vom Typ {type} eignen sich für {water}',
+  'requirement.experience.unknown': 'Größe und Bootstyp unbekannt',
+  'requirement.experience.expert': 'Für erfahrene Skipper ist jedes Boot geeignet',
+  'requirement.experience.manageable': 'Gut zu handhaben für {skipper}',
+  'requirement.experience.large': 'Groß für {skipper} bei {length}',
+  'requirement.experience.demanding': 'Boote vom Typ {type} erfordern Erfahrung',
+  'water.fresh': 'Süßwasser',
+  'water.salt': 'Salzwasser',
+  'skipper.beginner': 'Einsteiger',
+  'skipper.intermediate': 'Skipper mit etwas Erfahrung',
+
+  // Activities
+  'activity.fishing': 'Angeln',
+  'activity.sailing': 'Segeln',
+  'activity.cruising': 'Ausfahrten',
+  'activity.racing': 'Regatten',
+  'activity.watersports': 'Wassersport',
+  'activity.diving': 'Tauchen',
+  'activity.water skiing': 'Wasserski',
+  'activity.wakeboarding': 'Wakeboarden',
+  'activity.day trips': 'Tagesausflüge',
+  'activity.offshore': 'Offshore-Fahrten',
+  'activity.coastal': 'Küstenfahrten',
+  'activity.recreational': 'Freizeit',
+  'activity.sport': 'Sport',
+  'activity.touring': 'Touren',
+  'activity.overnight': 'Übernachtungen an Bord',
+  'activity.leisure': 'Erholung',
+  'activity.family': 'Familienausflüge',
+  'activity.professional': 'gewerbliche Nutzung'
+};
@@ -0,0 +1,290 @@
+/**
+ * English messages
+ * The default catalog: every message key has an English message, which other
+ * locales fall back to.
+ */
+
+import { MessageCatalog } from '../utils/i18n.utils';
+
+export const EN_MESSAGES: MessageCatalog = {
+  'common.notAvailable': 'N/A',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'list.separator': ', ',
+  'list.and': '{head} and {last}',
+
+  // Boat and engine vocabulary
+  'condition.new': 'new',
+  'condition.used': 'used',
+  'driveType.outboard': 'outboard',
+  'driveType.inboard': 'inboard',
+  'driveType.sterndrive': 'sterndrive',
+  'driveType.pod': 'pod',
+  'driveType.jet': 'jet',
+  'fuelType.gasoline': 'gasoline',
+  'fuelType.diesel': 'diesel',
+  'fuelType.electric': 'electric',
+  'fuelType.hybrid': 'hybrid',
+  'propulsion.engine': 'engine',
+  'propulsion.totalHorsepower': '{horsepower} total',
+
+  // Attribute labels
+  'attribute.manufacturer.label': 'Manufacturer',
+  'attribute.model.label': 'Model',
+  'attribute.boatType.label': 'Boat Type',
+  'attribute.year.label': 'Year',
+  'attribute.condition.label': 'Condition',
+  'attribute.length.label': 'Length',
+  'attribute.beam.label': 'Beam',
+  'attribute.draft.label': 'Draft',
+  'attribute.weight.label': 'Weight',
+  'attribute.fuelCapacity.label': 'Fuel Capacity',
+  'attribute.waterCapacity.label': 'Water Capacity',
+  'attribute.cabins.label': 'Cabins',
+  'attribute.berths.label': 'Berths',
+  'attribute.hullType.label': 'Hull Type',
+  'attribute.engines.label': 'Engines',
+  'attribute.engineCount.label': 'Engine Count',
+  'attribute.driveType.label': 'Drive Type',
+  'attribute.fuelType.label': 'Fuel Type',
+  'attribute.horsepower.label': 'Horsepower',
+  'attribute.engineHours.label': 'Engine Hours',
+  'attribute.features.label': 'Features',
+  'attribute.price.label': 'Price',
+  'attribute.pricePerFoot.label': 'Price per {unit}',
+  'attribute.fairPrice.label': 'Versus Fair Price',
+  'attribute.daysOnMarket.label': 'Days on Market',
+
+  // Comparison documents
+  'comparison.title': 'Comparison: {boats}',
+  'comparison.versus': ' vs ',
+  'comparison.overview': 'Comparing the {boat1} ({year1}) with the {boat2} ({year2}).',
+  'comparison.heading.overview': 'Overview',
+  'comparison.heading.similarities': 'Similarities',
+  'comparison.heading.differences': 'Differences',
+  'comparison.heading.why': 'Why {score}% Similar',
+  'comparison.heading.specifications': 'Specifications Comparison',
+  'comparison.heading.similarity': 'Similarity',
+  'comparison.noSimilarities': 'No significant similarities found.',
+  'comparison.noDifferences': 'No significant differences found.',
+  'comparison.contribution': '{reason} (+{contribution}%)',
+  'comparison.notCompared': 'Not compared: {components}',
+  'comparison.specification': 'Specification',
+  'comparison.bestValue': 'best value',
+
+  // Generic attribute phrases
+  'comparison.same': 'Both boats have the same {labelLower} ({value1})',
+  'comparison.similar': 'Both boats have a similar {labelLower} ({value1} vs {value2})',
+  'comparison.higher': '{boat1} has a higher {labelLower} than {boat2} ({value1} vs {value2})',
+  'comparison.differ': '{labelPlural} differ: {value1} vs {value2}',
+
+  // Attribute phrases
+  'attribute.manufacturer.similar': 'Both boats are made by {value1}',
+  'attribute.model.similar': 'Both boats are the {value1} model',
+  'attribute.boatType.similar': 'Both are {value1} boats',
+  'attribute.year.same': 'Both boats are from {value1}',
+  'attribute.year.similar': 'Both boats were built between {value2} and {value1}',
+  'attribute.year.different': '{boat1} is {difference} years newer than {boat2}',
+  'attribute.year.best': '{boat} is the newest ({value}).',
+  'attribute.condition.similar': 'Both boats are {value1}',
+  'attribute.condition.different': '{boat1} is {value1} while {boat2} is {value2}',
+  'attribute.length.similar': 'Both boats are similar in size (within 10% length difference)',
+  'attribute.length.different': '{boat1} is significantly longer than {boat2}',
+  'attribute.length.best': '{boat} is the longest ({value}).',
+  'attribute.beam.different': '{boat1} is wider than {boat2} ({value1} vs {value2})',
+  'attribute.draft.different': '{boat1} draws more water than {boat2} ({value1} vs {value2})',
+  'attribute.weight.different': '{boat1} is heavier than {boat2} ({value1} vs {value2})',
+  'attribute.fuelCapacity.different': '{boat1} carries more fuel than {boat2} ({value1} vs {value2})',
+  'attribute.waterCapacity.different': '{boat1} carries more fresh water than {boat2} ({value1} vs {value2})',
+  'attribute.cabins.same': { one: 'Both boats have {count} cabin', other: 'Both boats have {count} cabins' },
+  'attribute.cabins.different': {
+    one: '{boat1} has {count} cabin while {boat2} has {value2}',
+    other: '{boat1} has {count} cabins while {boat2} has {value2}'
+  },
+  'attribute.cabins.best': '{boat} has the most cabins ({value}).',
+  'attribute.berths.same': { one: 'Both boats have {count} berth', other: 'Both boats have {count} berths' },
+  'attribute.berths.different': {
+    one: '{boat1} has {count} berth while {boat2} has {value2}',
+    other: '{boat1} has {count} berths while {boat2} has {value2}'
+  },
+  'attribute.berths.best': '{boat} sleeps the most people ({value}).',
+  'attribute.hullType.similar': 'Both boats have {value1} hulls',
+  'attribute.engineCount.same': { one: 'Both boats have {count} engine', other: 'Both boats have {count} engines' },
+  'attribute.engineCount.different': {
+    one: '{boat1} has {count} engine while {boat2} has {value2}',
+    other: '{boat1} has {count} engines while {boat2} has {value2}'
+  },
+  'attribute.driveType.similar': 'Both boats use {value1} propulsion',
+  'attribute.fuelType.similar': 'Both boats run on {value1}',
+  'attribute.horsepower.value': '{value} hp',
+  'attribute.horsepower.similar': 'Both boats have similar power ({value1} vs {value2})',
+  'attribute.horsepower.different': '{boat1} has {percent}% more horsepower than {boat2}',
+  'attribute.horsepower.best': '{boat} has the most power ({value}).',
+  'attribute.engineHours.similar': 'Both boats have similar engine hours ({value1} vs {value2})',
+  'attribute.engineHours.different': '{boat2} has {difference} fewer engine hours than {boat1}',
+  'attribute.engineHours.best': '{boat} has the fewest engine hours ({value}).',
+  'attribute.features.shared': 'Both boats have {feature}',
+  'attribute.features.unique': '{boat} has these unique features: {features}',
+  'attribute.features.best': '{boat} has the most features ({value}).',
+  'attribute.price.similar': 'Both boats are similarly priced ({value1} vs {value2})',
+  'attribute.price.different': '{boat1} is {percent}% more expensive than {boat2}',
+  'attribute.price.reduced': '{boat} was recently reduced',
+  'attribute.price.reducedBy': '{boat} was recently reduced and is {percent}% below its original price',
+  'attribute.price.best': '{boat} is the least expensive ({value}).',
+  'attribute.pricePerFoot.best': '{boat} costs the least per unit of length ({value}).',
+  'attribute.fairPrice.above': '{percent}% above fair price',
+  'attribute.fairPrice.below': '{percent}% below fair price',
+  'attribute.fairPrice.best': '{boat} is the best value against comparable listings ({value}).',
+
+  // Fair price assessments
+  'valuation.assessment': {
+    one: '{boat} looks {rating}: asking {asking} vs a fair price of {low}–{high} ({confidence} confidence, {count} comparable)',
+    other: '{boat} looks {rating}: asking {asking} vs a fair price of {low}–{high} ({confidence} confidence, {count} comparables)'
+  },
+  'valuation.rating.underpriced': 'underpriced',
+  'valuation.rating.fair': 'fairly priced',
+  'valuation.rating.overpriced': 'overpriced',
+  'valuation.confidence.low': 'low',
+  'valuation.confidence.medium': 'medium',
+  'valuation.confidence.high': 'high',
+
+  // Cost of ownership
+  'ownership.heading': {
+    one: 'Cost of Ownership ({count} year)',
+    other: 'Cost of Ownership ({count} years)'
+  },
+  'ownership.assumptions': 'Estimated for {hours, number} engine hours a year with {storage} storage.',
+  'ownership.cost': 'Cost',
+  'ownership.category.fuel': 'Fuel',
+  'ownership.category.insurance': 'Insurance',
+  'ownership.category.storage': 'Storage',
+  'ownership.category.maintenance': 'Maintenance',
+  'ownership.category.registration': 'Registration',
+  'ownership.category.depreciation': 'Depreciation',
+  'ownership.total': 'Total',
+  'ownership.perYear': 'Per year',
+  'ownership.cheaper': '{boat1} costs about {difference} less per year to own than {boat2} ({cost1} vs {cost2})',
+  'storageType.slip': 'slip',
+  'storageType.mooring': 'mooring',
+  'storageType.dryStack': 'dry stack',
+  'storageType.trailer': 'trailer',
+
+  // Recommendations
+  'recommendation.extremelySimilar': 'These boats are extremely similar. Consider factors like condition, price, and location to make your decision.',
+  'recommendation.similar': 'These boats share many characteristics but have some notable differences. Consider which specific features matter most to you.',
+  'recommendation.somewhatSimilar': 'These boats have some similarities but are quite different overall. Make sure to weigh the differences carefully based on your needs.',
+  'recommendation.different': 'These boats are very different and likely serve different purposes. Consider what you\'ll primarily use the boat for.',
+  'recommendation.noData': 'None of these listings has enough detail to judge them against your requirements.',
+  'recommendation.best': '{boat} fits your requirements best with a {score}% match.',
+  'recommendation.bestWithReasons': '{boat} fits your requirements best with a {score}% match: {reasons}.',
+  'recommendation.drawbacks': 'Keep in mind: {reasons}.',
+  'recommendation.other': '{boat} matches {score}%.',
+  'recommendation.otherWithReasons': '{boat} matches {score}%: {reasons}.',
+  'recommendation.reasonSeparator': '; ',
+
+  // Multi-boat narratives
+  'narrative.comparing': 'Comparing {count} boats: {boats}.',
+  'narrative.mostAlike': '{boat1} and {boat2} are the most alike ({score}% similar).',
+  'narrative.differMost': '{boat1} and {boat2} differ the most ({score}% similar).',
+  'narrative.bestIn': '{boat} comes out best in {count} of {total} categories ({attributesLower}).',
+  'narrative.bestPhrase': '{boat} {phrase} ({value}).',
+  'narrative.commonFeatures': 'All {count} boats have {features}.',
+
+  // Similarity score reasons
+  'similarity.component.manufacturer': 'manufacturer',
+  'similarity.component.model': 'model',
+  'similarity.component.year': 'year',
+  'similarity.component.dimensions': 'dimensions',
+  'similarity.component.propulsion': 'propulsion',
+  'similarity.component.features': 'features',
+  'similarity.component.category': 'category',
+  'similarity.component.price': 'price',
+  'similarity.manufacturer.unknown': 'Manufacturer unknown for one or both boats',
+  'similarity.manufacturer.same': 'Both built by {manufacturer1}',
+  'similarity.manufacturer.different': 'Built by {manufacturer1} and {manufacturer2}',
+  'similarity.model.unknown': 'Model unknown for one or both boats',
+  'similarity.model.same': 'Same model ({model1})',
+  'similarity.model.different': 'Different models ({model1} vs {model2})',
+  'similarity.year.unknown': 'Year unknown for one or both boats',
+  'similarity.year.same': 'Both built in {year1}',
+  'similarity.year.different': {
+    one: 'Built {count} year apart ({year1} vs {year2})',
+    other: 'Built {count} years apart ({year1} vs {year2})'
+  },
+  'similarity.dimensions.unknown': 'Dimensions unknown for one or both boats',
+  'similarity.dimensions.same': 'Nearly identical size ({length1} vs {length2})',
+  'similarity.dimensions.different': 'Dimensions are {percent}% alike ({length1} vs {length2})',
+  'similarity.propulsion.unknown': 'Engine details unknown for one or both boats',
+  'similarity.propulsion.same': 'Comparable engines ({engines1})',
+  'similarity.propulsion.different': 'Different engines ({engines1} vs {engines2})',
+  'similarity.features.unknown': 'Features unknown for one or both boats',
+  'similarity.features.none': 'No features in common',
+  'similarity.features.shared': {
+    one: '{count} shared feature ({examples})',
+    other: '{count} shared features ({examples})'
+  },
+  'similarity.category.unknown': 'Boat type unknown for one or both boats',
+  'similarity.category.tags': 'Category tags are {percent}% alike',
+  'similarity.category.same': 'Both are {type1} boats',
+  'similarity.category.sameCategory': '{type1} and {type2} are both {category} boats',
+  'similarity.category.different': 'Different types ({type1} vs {type2})',
+  'similarity.price.unknown': 'Price unknown for one or both boats',
+  'similarity.price.compared': 'Prices are {percent}% alike ({price1} vs {price2})',
+
+  // Requirement fit reasons
+  'requirement.crew.unknown': 'Size unknown, so capacity can\'t be estimated',
+  'requirement.crew.berths': { one: '{count} berth', other: '{count} berths' },
+  'requirement.crew.room': 'room for about {count}',
+  'requirement.crew.enough': 'Has {capacity}, enough for a crew of {crew}',
+  'requirement.crew.tooSmall': 'Has {capacity}, fewer than a crew of {crew}',
+  'requirement.activities.unknown': 'Boat type and features unknown',
+  'requirement.activities.suited': 'Suited to {suited}',
+  'requirement.activities.unsuited': 'Not suited to {unsuited}',
+  'requirement.activities.mixed': 'Suited to {suited} but not {unsuited}',
+  'requirement.budget.unknown': 'Price unknown',
+  'requirement.budget.over': '{price} is {percent}% over the budget of {budget}',
+  'requirement.budget.below': '{price} is below the budget range',
+  'requirement.budget.within': 'Within budget at {price}',
+  'requirement.trailerable.type': '{type}s are easy to trailer',
+  'requirement.trailerable.tooWide': 'Too wide to trailer without a permit ({beam} beam)',
+  'requirement.trailerable.heavy': 'Narrow enough to trailer, but heavy at {weight, number} lb',
+  'requirement.trailerable.ok': 'Trailerable ({beam} beam)',
+  'requirement.trailerable.unknown': 'Beam and length unknown',
+  'requirement.trailerable.probably': 'Probably trailerable at {length}',
+  'requirement.trailerable.maybe': 'May be trailerable at {length}; check the beam',
+  'requirement.trailerable.unlikely': 'Unlikely to be trailerable at {length}',
+  'requirement.waterType.listed': 'Listed for {water}',
+  'requirement.waterType.unknown': 'Boat type unknown',
+  'requirement.waterType.mostlyFresh': '{type}s are mostly used on fresh water',
+  'requirement.waterType.mostlySalt': '{type}s are mostly used on salt water',
+  'requirement.waterType.suits': '{type}s suit {water}',
+  'requirement.experience.unknown': 'Size and boat type unknown',
+  'requirement.experience.expert': 'Any boat suits an expert',
+  'requirement.experience.manageable': 'Manageable for {skipper}',
+  'requirement.experience.large': 'Large for {skipper} at {length}',
+  'requirement.experience.demanding': '{type}s take experience to handle',
+  'water.fresh': 'fresh water',
+  'water.salt': 'salt water',
+  'skipper.beginner': 'a beginner',
+  'skipper.intermediate': 'an intermediate skipper',
+
+  // Activities
+  'activity.fishing': 'fishing',
+  'activity.sailing': 'sailing',
+  'activity.cruising': 'cruising',
+  'activity.racing': 'racing',
+  'activity.watersports': 'watersports',
+  'activity.diving': 'diving',
+  'activity.water skiing': 'water skiing',
+  'activity.wakeboarding': 'wakeboarding',
+  'activity.day trips': 'day trips',
+  'activity.offshore': 'offshore',
+  'activity.coastal': 'coastal',
+  'activity.recreational': 'recreational',
+  'activity.sport': 'sport',
+  'activity.touring': 'touring',
+  'activity.overnight': 'overnight',
+  'activity.leisure': 'leisure',
+  'activity.family': 'family',
+  'activity.professional': 'professional'
+};
@@ -9,11 +9,36 @@ export * from './services/openai.service';
 export * from './services/tensorflow.service';
 export * from './services/boat-comparison.service';
 export * from './services/image-analysis.service';
+export * from './services/duplicate-detection.service';
+export * from './services/image-embedding.service';
 
 // Export all utilities
 export * from './utils/network.utils';
+export * from './utils/api-response.utils';
 export * from './utils/boat-matching.utils';
 export * from './utils/similarity.utils';
+export * from './utils/similarity-profile.utils';
+export * from './utils/similarity-index.utils';
+export * from './utils/search.utils';
+export * from './utils/feature.utils';
+export * from './utils/hnsw.utils';
+export * from './utils/valuation.utils';
+export * from './utils/recommendation.utils';
+export * from './utils/ownership-cost.utils';
+export * from './utils/comparison-renderer.utils';
+export * from './utils/comparison-attributes.utils';
+export * from './utils/i18n.utils';
+export * from './i18n/en';
+export * from './i18n/de';
+export * from './utils/validation.utils';
+export * from './utils/units.utils';
+export * from './utils/propulsion.utils';
+export * from './utils/listing.utils';
+export * from './utils/geo.utils';
+export * from './utils/boat-type.utils';
+export * from './utils/money.utils';
+export * from './utils/seller.utils';
+export * from './utils/persistence.utils';
 
 // Export platform detection utilities 
 // Export specific functions to avoid name conflicts
@@ -3,8 +3,62 @@
  * This service handles comprehensive boat comparison functionality
  */
 
+import {
+  BuyerRequirements,
+  ComparisonDocument,
+  ComparisonFormat,
+  ComparisonSection,
+  CurrencyCode,
+  MeasurementUnit,
+  MultiBoatComparisonResult,
+  OwnershipCostEstimate,
+  PriceAssessment,
+  SimilarityBreakdown,
+  SpecMatrixRow
+} from '@igorganapolsky/boats-types';
 import { Boat, BoatComparisonResult } from '../types';
-import { calculateBoatSimilarity } from '../utils/boat-matching.utils';
+import { calculateBoatSimilarity, explainBoatSimilarity } from '../utils/boat-matching.utils';
+import { SimilarityProfileInput } from '../utils/similarity-profile.utils';
+import { normalizeCurrencyCode } from '../utils/money.utils';
+import { findSharedFeatures } from '../utils/feature.utils';
+import { assessBoatPrice } from '../utils/valuation.utils';
+import { recommendBoats } from '../utils/recommendation.utils';
+import { COMPARISON_DOCUMENT_VERSION, renderComparison } from '../utils/comparison-renderer.utils';
+import {
+  buildSpecMatrix,
+  compareAttributes,
+  ComparisonContext,
+  describeBestValue,
+  getComparisonAttribute
+} from '../utils/comparison-attributes.utils';
+import { createTranslator, Translator } from '../utils/i18n.utils';
+import {
+  estimateOwnershipCost,
+  OWNERSHIP_COST_CATEGORIES,
+  OwnershipCostOptions
+} from '../utils/ownership-cost.utils';
+
+/**
+ * Options for customizing a boat comparison
+ */
+export interface CompareBoatsOptions {
+  /** Measurement system used for dimensions in the comparison text (default: 'imperial') */
+  measurementUnit?: MeasurementUnit;
+  /** Currency prices are compared and converted to (default: the first boat's currency) */
+  currency?: CurrencyCode;
+  /** Locale of the comparison text, numbers and prices (default: English text, runtime number formatting) */
+  locale?: string;
+  /** Similarity profile name, profile or weights used for the similarity score */
+  profile?: SimilarityProfileInput;
+  /** Listings used as comparables to judge whether each boat is fairly priced */
+  marketData?: Boat[];
+  /** Buyer requirements; when given, the recommendation picks the boat that fits them best */
+  requirements?: BuyerRequirements;
+  /** Include the estimated cost of owning each boat; pass options to change the period, usage or rates */
+  ownershipCosts?: boolean | OwnershipCostOptions;
+  /** Format of the comparison text (default: 'markdown') */
+  format?: ComparisonFormat;
+}
 
 /**
  * Boat Comparison Service implementation
@@ -14,21 +68,52 @@ export class BoatComparisonService {
    * Compare two boats and generate a detailed comparison result
    * @param boat1 First boat to compare
    * @param boat2 Second boat to compare
+   * @param options Optional display preferences
    * @returns Detailed comparison result
    */
-  public compareBoats(boat1: Boat, boat2: Boat): BoatComparisonResult {
-    // Calculate overall similarity score
-    const similarityScore = calculateBoatSimilarity(boat1, boat2) * 100;
+  public compareBoats(boat1: Boat, boat2: Boat, options: CompareBoatsOptions = {}): BoatComparisonResult {
+    // Calculate overall similarity score and explain how it was reached
+    const similarityBreakdown = explainBoatSimilarity(
+      boat1,
+      boat2,
+      options.profile,
+      options.locale,
+      options.measurementUnit
+    );
+    const similarityScore = similarityBreakdown.score * 100;
+    
+    // Judge each asking price against comparable listings
+    const priceAssessments = options.marketData ? this.assessPrices(boat1, boat2, options) : undefined;
+    
+    // Estimate running costs over the ownership period
+    const ownershipCosts = options.ownershipCosts ? this.estimateOwnershipCosts([boat1, boat2], options) : undefined;
     
-    // Find similarities and differences
-    const similarities = this.findSimilarities(boat1, boat2);
-    const differences = this.findDifferences(boat1, boat2);
+    // Find similarities and differences attribute by attribute
+    const context = this.createComparisonContext([boat1, boat2], options,
+      priceAssessments ? [priceAssessments.boat1 || null, priceAssessments.boat2 || null] : undefined);
+    const { similarities, differences } = compareAttributes(boat1, boat2, context);
+    if (priceAssessments) {
+      this.describePriceAssessments(boat1, boat2, priceAssessments, differences, context.i18n);
+    }
+    if (ownershipCosts) {
+      this.describeOwnershipCosts(boat1, boat2, ownershipCosts, differences, context.i18n);
+    }
     
     // Generate recommendation based on comparison
-    const recommendation = this.generateRecommendation(boat1, boat2, similarityScore);
+    const recommendation = this.generateRecommendation([boat1, boat2], similarityScore, options, context.i18n);
     
-    // Create detailed comparison text
-    const comparisonText = this.generateComparisonText(boat1, boat2, similarities, differences);
+    // Create detailed comparison text in the requested format
+    const document = this.buildComparisonDocument(
+      boat1,
+      boat2,
+      similarities,
+      differences,
+      similarityBreakdown,
+      buildSpecMatrix([boat1, boat2], context),
+      context.i18n,
+      ownershipCosts
+    );
+    const comparisonText = renderComparison(document, options.format);
     
     return {
       boat1,
@@ -37,283 +122,608 @@ export class BoatComparisonService {
       differences,
       recommendation,
       similarityScore,
+      similarityBreakdown,
+      ...(priceAssessments ? { priceAssessments } : {}),
+      ...(ownershipCosts
+        ? { ownershipCosts: { boat1: ownershipCosts[0] || undefined, boat2: ownershipCosts[1] || undefined } }
+        : {}),
       comparisonText
     };
   }
   
   /**
-   * Find similarities between two boats
-   * @param boat1 First boat
-   * @param boat2 Second boat
-   * @returns Array of similarity descriptions
+   * Compare two or more boats side by side
+   * Comparing exactly two boats also includes the detailed two-boat comparison.
+   * @param boats Boats to compare, in display order
+   * @param options Optional display preferences
+   * @returns Spec matrix with best-in-class values, pairwise similarities and a narrative
+   * @throws Error if fewer than two boats are given
    */
-  private findSimilarities(boat1: Boat, boat2: Boat): string[] {
-    const similarities: string[] = [];
-    
-    // Compare manufacturer
-    if (boat1.manufacturer && boat2.manufacturer && 
-        boat1.manufacturer.toLowerCase() === boat2.manufacturer.toLowerCase()) {
-      similarities.push(`Both boats are made by ${boat1.manufacturer}`);
-    }
-    
-    // Compare hull type
-    if (boat1.hullType && boat2.hullType && 
-        boat1.hullType.toLowerCase() === boat2.hullType.toLowerCase()) {
-      similarities.push(`Both boats have ${boat1.hullType.toLowerCase()} hulls`);
-    }
-    
-    // Compare engine type
-    if (boat1.engineType && boat2.engineType && 
-        boat1.engineType.toLowerCase() === boat2.engineType.toLowerCase()) {
-      similarities.push(`Both boats use ${boat1.engineType.toLowerCase()} engines`);
+  public compareMultipleBoats(boats: Boat[], options: CompareBoatsOptions = {}): MultiBoatComparisonResult {
+    if (boats.length < 2) {
+      throw new Error(`At least two boats are needed for a comparison, got ${boats.length}`);
     }
     
-    // Compare size (within 10% tolerance)
-    if (boat1.length && boat2.length) {
-      const lengthDiff = Math.abs(boat1.length - boat2.length);
-      const lengthTolerance = Math.max(boat1.length, boat2.length) * 0.1;
-      
-      if (lengthDiff <= lengthTolerance) {
-        similarities.push(`Both boats are similar in size (within 10% length difference)`);
-      }
-    }
+    const pairComparison = boats.length === 2 ? this.compareBoats(boats[0], boats[1], options) : undefined;
+    const similarityMatrix = this.buildSimilarityMatrix(boats, options);
     
-    // Compare features
-    if (boat1.features && boat2.features) {
-      const commonFeatures = boat1.features.filter((feature: string) => 
-        boat2.features.some((f: string) => f.toLowerCase() === feature.toLowerCase())
-      );
-      
-      if (commonFeatures.length > 0) {
-        commonFeatures.forEach((feature: string) => {
-          similarities.push(`Both boats have ${feature}`);
-        });
-      }
+    // Judge each asking price against comparable listings, reusing the pair comparison's estimates
+    let priceAssessments: Array<PriceAssessment | null> | undefined;
+    let ownershipCosts: Array<OwnershipCostEstimate | null> | undefined;
+    if (pairComparison) {
+      const pairPrices = pairComparison.priceAssessments;
+      const pairCosts = pairComparison.ownershipCosts;
+      priceAssessments = pairPrices ? [pairPrices.boat1 || null, pairPrices.boat2 || null] : undefined;
+      ownershipCosts = pairCosts ? [pairCosts.boat1 || null, pairCosts.boat2 || null] : undefined;
+    } else {
+      const currency = this.getComparisonCurrency(boats[0], options);
+      priceAssessments = options.marketData
+        ? boats.map(boat => assessBoatPrice(boat, options.marketData || [], { currency }) || null)
+        : undefined;
+      ownershipCosts = options.ownershipCosts ? this.estimateOwnershipCosts(boats, options) : undefined;
     }
     
-    return similarities;
-  }
-  
-  /**
-   * Find differences between two boats
-   * @param boat1 First boat
-   * @param boat2 Second boat
-   * @returns Array of difference descriptions
-   */
-  private findDifferences(boat1: Boat, boat2: Boat): string[] {
-    const differences: string[] = [];
+    const context = this.createComparisonContext(boats, options, priceAssessments);
+    const specMatrix = buildSpecMatrix(boats, context);
+    const commonFeatures = boats.every(boat => boat.features)
+      ? boats.slice(1).reduce((common, boat) => findSharedFeatures(common, boat.features || []), boats[0].features || [])
+      : [];
     
-    // Compare basic attributes
-    this.compareBasicAttributes(boat1, boat2, differences);
+    // Average similarity of every pair drives the recommendation
+    const pairScores = similarityMatrix.flatMap((row, i) => row.slice(i + 1));
+    const averageSimilarity = pairScores.reduce((sum, score) => sum + score, 0) / pairScores.length;
+    const recommendation = this.generateRecommendation(boats, averageSimilarity, options, context.i18n);
     
-    // Compare dimensions and specifications
-    this.compareDimensions(boat1, boat2, differences);
+    const narrative = this.generateNarrative(boats, specMatrix, similarityMatrix, commonFeatures, context);
+    const document = this.buildMultiComparisonDocument(
+      boats,
+      specMatrix,
+      similarityMatrix,
+      narrative,
+      context.i18n,
+      ownershipCosts
+    );
+    const comparisonText = renderComparison(document, options.format);
     
-    // Compare price
-    this.comparePrice(boat1, boat2, differences);
-    
-    // Compare features
-    this.compareFeatures(boat1, boat2, differences);
-    
-    return differences;
+    return {
+      boats,
+      specMatrix,
+      similarityMatrix,
+      commonFeatures,
+      ...(priceAssessments ? { priceAssessments } : {}),
+      ...(ownershipCosts ? { ownershipCosts } : {}),
+      narrative,
+      recommendation,
+      ...(pairComparison ? { pairComparison } : {}),
+      comparisonText
+    };
   }
   
   /**
-   * Compare basic attributes like manufacturer and model
+   * Estimate a fair price for each boat from the market data
    * @param boat1 First boat
    * @param boat2 Second boat
-   * @param differences Array to add differences to
+   * @param options Comparison preferences, including the market data
+   * @returns Assessment of each boat that has a price and comparables
    */
-  private compareBasicAttributes(boat1: Boat, boat2: Boat, differences: string[]): void {
-    // Compare manufacturer
-    if (boat1.manufacturer && boat2.manufacturer && 
-        boat1.manufacturer.toLowerCase() !== boat2.manufacturer.toLowerCase()) {
-      differences.push(`Manufacturers differ: ${boat1.manufacturer} vs ${boat2.manufacturer}`);
-    }
-    
-    // Compare model
-    if (boat1.model && boat2.model && 
-        boat1.model.toLowerCase() !== boat2.model.toLowerCase()) {
-      differences.push(`Models differ: ${boat1.model} vs ${boat2.model}`);
-    }
-    
-    // Compare year (if more than 3 years apart)
-    if (boat1.year && boat2.year) {
-      const yearDiff = Math.abs(boat1.year - boat2.year);
-      if (yearDiff > 3) {
-        const newer = boat1.year > boat2.year ? boat1 : boat2;
-        const older = boat1.year > boat2.year ? boat2 : boat1;
-        differences.push(`${newer.name} is ${yearDiff} years newer than ${older.name}`);
-      }
-    }
+  private assessPrices(
+    boat1: Boat,
+    boat2: Boat,
+    options: CompareBoatsOptions
+  ): NonNullable<BoatComparisonResult['priceAssessments']> {
+    const currency = this.getComparisonCurrency(boat1, options);
+    const marketData = options.marketData || [];
+    return {
+      boat1: assessBoatPrice(boat1, marketData, { currency }),
+      boat2: assessBoatPrice(boat2, marketData, { currency })
+    };
   }
   
   /**
-   * Compare boat dimensions like length and beam
+   * Describe whether each boat is under-, fairly or over-priced
    * @param boat1 First boat
    * @param boat2 Second boat
-   * @param differences Array to add differences to
+   * @param assessments Price assessment of each boat
+   * @param differences Array to add descriptions to
+   * @param i18n Translator for the comparison's locale
    */
-  private compareDimensions(boat1: Boat, boat2: Boat, differences: string[]): void {
-    // Compare length (if more than 10% different)
-    if (boat1.length && boat2.length) {
-      const lengthDiff = Math.abs(boat1.length - boat2.length);
-      const lengthTolerance = Math.max(boat1.length, boat2.length) * 0.1;
-      
-      if (lengthDiff > lengthTolerance) {
-        const longer = boat1.length > boat2.length ? boat1 : boat2;
-        const shorter = boat1.length > boat2.length ? boat2 : boat1;
-        differences.push(`${longer.name} is significantly longer than ${shorter.name}`);
-      }
-    }
+  private describePriceAssessments(
+    boat1: Boat,
+    boat2: Boat,
+    assessments: NonNullable<BoatComparisonResult['priceAssessments']>,
+    differences: string[],
+    i18n: Translator
+  ): void {
+    ([[boat1, assessments.boat1], [boat2, assessments.boat2]] as Array<[Boat, PriceAssessment | undefined]>)
+      .forEach(([boat, assessment]) => {
+        if (!assessment) return;
+        const { valuation } = assessment;
+        differences.push(i18n.t('valuation.assessment', {
+          boat: boat.name,
+          rating: i18n.t(`valuation.rating.${assessment.rating}`),
+          asking: i18n.formatMoney(assessment.askingPrice),
+          low: i18n.formatMoney(valuation.low),
+          high: i18n.formatMoney(valuation.high),
+          confidence: i18n.t(`valuation.confidence.${valuation.confidence}`),
+          count: valuation.comparables.length
+        }));
+      });
   }
   
   /**
-   * Compare boat prices
-   * @param boat1 First boat
-   * @param boat2 Second boat
-   * @param differences Array to add differences to
+   * Estimate the cost of owning each boat in the comparison currency
+   * @param boats Compared boats
+   * @param options Comparison preferences, including the ownership cost options
+   * @returns Estimate per boat, null where it couldn't be made
    */
-  private comparePrice(boat1: Boat, boat2: Boat, differences: string[]): void {
-    // Compare price (if available)
-    if (boat1.price && boat2.price) {
-      const priceDiff = Math.abs(boat1.price - boat2.price);
-      const pricePercentDiff = priceDiff / Math.min(boat1.price, boat2.price) * 100;
-      
-      if (pricePercentDiff > 10) {
-        const moreExpensive = boat1.price > boat2.price ? boat1 : boat2;
-        const lessExpensive = boat1.price > boat2.price ? boat2 : boat1;
-        differences.push(`${moreExpensive.name} is ${pricePercentDiff.toFixed(0)}% more expensive than ${lessExpensive.name}`);
-      }
-    }
+  private estimateOwnershipCosts(boats: Boat[], options: CompareBoatsOptions): Array<OwnershipCostEstimate | null> {
+    const settings = typeof options.ownershipCosts === 'object' ? options.ownershipCosts : {};
+    const currency = settings.currency || this.getComparisonCurrency(boats[0], options);
+    return boats.map(boat => estimateOwnershipCost(boat, { ...settings, currency }) || null);
   }
   
   /**
-   * Compare boat features
+   * Describe which boat is cheaper to own, when the difference is noticeable
+   * and both estimates cover the same costs
    * @param boat1 First boat
    * @param boat2 Second boat
-   * @param differences Array to add differences to
+   * @param estimates Cost of ownership estimate of each boat
+   * @param differences Array to add the description to
+   * @param i18n Translator for the comparison's locale
    */
-  private compareFeatures(boat1: Boat, boat2: Boat, differences: string[]): void {
-    // Compare unique features
-    if (boat1.features && boat2.features) {
-      const uniqueToBoat1 = boat1.features.filter((feature: string) => 
-        !boat2.features.some((f: string) => f.toLowerCase() === feature.toLowerCase())
-      );
-      
-      const uniqueToBoat2 = boat2.features.filter((feature: string) => 
-        !boat1.features.some((f: string) => f.toLowerCase() === feature.toLowerCase())
-      );
-      
-      if (uniqueToBoat1.length > 0) {
-        differences.push(`${boat1.name} has these unique features: ${uniqueToBoat1.join(', ')}`);
-      }
-      
-      if (uniqueToBoat2.length > 0) {
-        differences.push(`${boat2.name} has these unique features: ${uniqueToBoat2.join(', ')}`);
-      }
-    }
+  private describeOwnershipCosts(
+    boat1: Boat,
+    boat2: Boat,
+    estimates: Array<OwnershipCostEstimate | null>,
+    differences: string[],
+    i18n: Translator
+  ): void {
+    const [estimate1, estimate2] = estimates;
+    // Totals of estimates with different categories can't be compared
+    if (!estimate1 || !estimate2 || `${estimate1.missing}` !== `${estimate2.missing}`) return;
+    
+    const cost1 = estimate1.annualAverage.amount;
+    const cost2 = estimate2.annualAverage.amount;
+    // Ignore differences under 5% of the higher cost
+    if (Math.abs(cost1 - cost2) < Math.max(cost1, cost2) * 0.05) return;
+    
+    const [cheaper, pricier] = cost1 < cost2
+      ? [[boat1, estimate1], [boat2, estimate2]] as const
+      : [[boat2, estimate2], [boat1, estimate1]] as const;
+    differences.push(i18n.t('ownership.cheaper', {
+      boat1: cheaper[0].name,
+      boat2: pricier[0].name,
+      difference: i18n.formatMoney({
+        amount: pricier[1].annualAverage.amount - cheaper[1].annualAverage.amount,
+        currency: cheaper[1].currency
+      }),
+      cost1: i18n.formatMoney(cheaper[1].annualAverage),
+      cost2: i18n.formatMoney(pricier[1].annualAverage)
+    }));
   }
   
   /**
    * Generate a recommendation based on boat comparison
-   * @param boat1 First boat
-   * @param boat2 Second boat
-   * @param similarityScore Similarity score between the boats
+   * With buyer requirements the boats are ranked by fit; otherwise the
+   * advice depends on how similar they are.
+   * @param boats Compared boats
+   * @param similarityScore Similarity score between the boats (0-100)
+   * @param options Comparison preferences, including any buyer requirements
+   * @param i18n Translator for the comparison's locale
    * @returns Recommendation text
    */
-  private generateRecommendation(boat1: Boat, boat2: Boat, similarityScore: number): string {
+  private generateRecommendation(
+    boats: Boat[],
+    similarityScore: number,
+    options: CompareBoatsOptions,
+    i18n: Translator
+  ): string {
+    if (options.requirements) {
+      return this.generateRequirementsRecommendation(boats, options.requirements, i18n);
+    }
+    
     if (similarityScore >= 90) {
-      return `These boats are extremely similar. Consider factors like condition, price, and location to make your decision.`;
+      return i18n.t('recommendation.extremelySimilar');
     } else if (similarityScore >= 70) {
-      return `These boats share many characteristics but have some notable differences. Consider which specific features matter most to you.`;
+      return i18n.t('recommendation.similar');
     } else if (similarityScore >= 50) {
-      return `These boats have some similarities but are quite different overall. Make sure to weigh the differences carefully based on your needs.`;
+      return i18n.t('recommendation.somewhatSimilar');
     } else {
-      return `These boats are very different and likely serve different purposes. Consider what you'll primarily use the boat for.`;
+      return i18n.t('recommendation.different');
+    }
+  }
+  
+  /**
+   * Recommend the boat that best fits the buyer's requirements
+   * @param boats Compared boats
+   * @param requirements Buyer requirements
+   * @param i18n Translator for the comparison's locale
+   * @returns Recommendation text naming the best fit and where the others fall short
+   */
+  private generateRequirementsRecommendation(boats: Boat[], requirements: BuyerRequirements, i18n: Translator): string {
+    const [best, ...others] = recommendBoats(requirements, boats, { limit: boats.length, locale: i18n.locale });
+    const applied = best.fits.filter(fit => fit.applied);
+    if (applied.length === 0) {
+      return i18n.t('recommendation.noData');
+    }
+    
+    const describe = (recommendation: typeof best, strong: boolean): string[] => recommendation.fits
+      .filter(fit => fit.applied && (fit.score! >= 0.75) === strong)
+      .map(fit => fit.reason);
+    
+    const separator = i18n.t('recommendation.reasonSeparator');
+    const strengths = describe(best, true);
+    const drawbacks = describe(best, false);
+    const sentences = [i18n.t(strengths.length > 0 ? 'recommendation.bestWithReasons' : 'recommendation.best', {
+      boat: best.boat.name,
+      score: Math.round(best.score * 100),
+      reasons: strengths.join(separator)
+    })];
+    if (drawbacks.length > 0) {
+      sentences.push(i18n.t('recommendation.drawbacks', { reasons: drawbacks.join(separator) }));
     }
+    others.forEach(other => {
+      const shortfalls = describe(other, false);
+      sentences.push(i18n.t(shortfalls.length > 0 ? 'recommendation.otherWithReasons' : 'recommendation.other', {
+        boat: other.boat.name,
+        score: Math.round(other.score * 100),
+        reasons: shortfalls.join(separator)
+      }));
+    });
+    return sentences.join(' ');
   }
   
   /**
-   * Generate detailed comparison text
+   * Build the detailed comparison document for two boats
    * @param boat1 First boat
    * @param boat2 Second boat
    * @param similarities List of similarities
    * @param differences List of differences
-   * @returns Detailed comparison text
+   * @param similarityBreakdown Per-component explanation of the similarity score
+   * @param specMatrix Spec matrix rows of the two boats
+   * @param i18n Translator for the comparison's locale
+   * @param ownershipCosts Cost of ownership estimate of each boat, when requested
+   * @returns Comparison document, ready to render in any format
    */
-  private generateComparisonText(
+  private buildComparisonDocument(
     boat1: Boat, 
     boat2: Boat, 
     similarities: string[],
-    differences: string[]
-  ): string {
-    const sections = [];
-    
-    // Introduction
-    sections.push(`# Comparison: ${boat1.name} vs ${boat2.name}\n`);
+    differences: string[],
+    similarityBreakdown: SimilarityBreakdown,
+    specMatrix: SpecMatrixRow[],
+    i18n: Translator,
+    ownershipCosts?: Array<OwnershipCostEstimate | null>
+  ): ComparisonDocument {
+    const sections: ComparisonSection[] = [];
+    const describeBoat = (boat: Boat): string => `${boat.manufacturer || ''} ${boat.model || ''}`.trim();
     
     // Overview section
-    sections.push(`## Overview\n`);
-    sections.push(`Comparing the ${boat1.manufacturer || ''} ${boat1.model || ''} (${boat1.year || 'N/A'}) with the ${boat2.manufacturer || ''} ${boat2.model || ''} (${boat2.year || 'N/A'}).\n`);
+    sections.push({
+      heading: i18n.t('comparison.heading.overview'),
+      blocks: [{
+        type: 'paragraph',
+        text: i18n.t('comparison.overview', {
+          boat1: describeBoat(boat1),
+          year1: boat1.year || i18n.t('common.notAvailable'),
+          boat2: describeBoat(boat2),
+          year2: boat2.year || i18n.t('common.notAvailable')
+        })
+      }]
+    });
     
     // Similarities section
-    sections.push(`## Similarities\n`);
-    if (similarities.length > 0) {
-      similarities.forEach(similarity => {
-        sections.push(`- ${similarity}`);
-      });
-    } else {
-      sections.push(`No significant similarities found.`);
-    }
-    sections.push('');
+    sections.push({
+      heading: i18n.t('comparison.heading.similarities'),
+      blocks: [similarities.length > 0
+        ? { type: 'list', items: similarities }
+        : { type: 'paragraph', text: i18n.t('comparison.noSimilarities') }]
+    });
     
     // Differences section
-    sections.push(`## Differences\n`);
-    if (differences.length > 0) {
-      differences.forEach(difference => {
-        sections.push(`- ${difference}`);
-      });
-    } else {
-      sections.push(`No significant differences found.`);
+    sections.push({
+      heading: i18n.t('comparison.heading.differences'),
+      blocks: [differences.length > 0
+        ? { type: 'list', items: differences }
+        : { type: 'paragraph', text: i18n.t('comparison.noDifferences') }]
+    });
+    
+    // Similarity score explanation, largest contributions first
+    const reasons = similarityBreakdown.components
+      .filter(component => component.applied)
+      .sort((a, b) => b.contribution - a.contribution)
+      .map(component => i18n.t('comparison.contribution', {
+        reason: component.reason,
+        contribution: Math.round(component.contribution * 100)
+      }));
+    const skipped = similarityBreakdown.components.filter(component => !component.applied);
+    if (skipped.length > 0) {
+      reasons.push(i18n.t('comparison.notCompared', {
+        components: skipped
+          .map(component => i18n.t(`similarity.component.${component.component}`))
+          .join(i18n.t('list.separator'))
+      }));
+    }
+    sections.push({
+      heading: i18n.t('comparison.heading.why', { score: Math.round(similarityBreakdown.score * 100) }),
+      blocks: [{ type: 'list', items: reasons }]
+    });
+    
+    // Specifications comparison, best values highlighted
+    sections.push({
+      heading: i18n.t('comparison.heading.specifications'),
+      blocks: [{
+        type: 'table',
+        id: 'specifications',
+        headers: [i18n.t('comparison.specification'), boat1.name, boat2.name],
+        rows: specMatrix.map(row => [row.label, ...row.values]),
+        // Shift by one for the label column
+        highlights: specMatrix.map(row => row.best.map(index => index + 1))
+      }]
+    });
+    
+    // Cost of ownership comparison, cheapest highlighted
+    const ownershipSection = ownershipCosts && this.buildOwnershipCostSection([boat1, boat2], ownershipCosts, i18n);
+    if (ownershipSection) {
+      sections.push(ownershipSection);
     }
-    sections.push('');
-    
-    // Specifications comparison
-    sections.push(`## Specifications Comparison\n`);
-    sections.push(`| Specification | ${boat1.name} | ${boat2.name} |`);
-    sections.push(`|---------------|------------|------------|`);
-    sections.push(`| Manufacturer | ${boat1.manufacturer || 'N/A'} | ${boat2.manufacturer || 'N/A'} |`);
-    sections.push(`| Model | ${boat1.model || 'N/A'} | ${boat2.model || 'N/A'} |`);
-    sections.push(`| Year | ${boat1.year || 'N/A'} | ${boat2.year || 'N/A'} |`);
-    sections.push(`| Length | ${this.formatLength(boat1.length)} | ${this.formatLength(boat2.length)} |`);
-    sections.push(`| Beam | ${this.formatLength(boat1.beam)} | ${this.formatLength(boat2.beam)} |`);
-    sections.push(`| Hull Type | ${boat1.hullType || 'N/A'} | ${boat2.hullType || 'N/A'} |`);
-    sections.push(`| Engine Type | ${boat1.engineType || 'N/A'} | ${boat2.engineType || 'N/A'} |`);
-    sections.push(`| Price | ${this.formatPrice(boat1)} | ${this.formatPrice(boat2)} |`);
-    sections.push('');
-    
-    return sections.join('\n');
+    
+    return {
+      version: COMPARISON_DOCUMENT_VERSION,
+      title: i18n.t('comparison.title', { boats: [boat1.name, boat2.name].join(i18n.t('comparison.versus')) }),
+      ...(i18n.locale ? { locale: i18n.locale } : {}),
+      sections
+    };
   }
   
   /**
-   * Format length value for display
-   * @param length Length value in feet
-   * @returns Formatted length string
+   * Calculate the similarity of every pair of boats
+   * @param boats Boats to compare
+   * @param options Comparison preferences
+   * @returns Symmetric matrix of similarity scores (0-100)
    */
-  private formatLength(length?: number): string {
-    return length ? `${length} ft` : 'N/A';
+  private buildSimilarityMatrix(boats: Boat[], options: CompareBoatsOptions): number[][] {
+    const matrix = boats.map(() => boats.map(() => 100));
+    boats.forEach((boat1, i) => {
+      for (let j = i + 1; j < boats.length; j++) {
+        const score = calculateBoatSimilarity(boat1, boats[j], options.profile) * 100;
+        matrix[i][j] = score;
+        matrix[j][i] = score;
+      }
+    });
+    return matrix;
   }
   
   /**
-   * Format price value for display
-   * @param boat Boat with price information
-   * @returns Formatted price string
+   * Generate a prose summary of a multi-boat comparison
+   * @param boats Compared boats
+   * @param specMatrix Spec matrix rows
+   * @param similarityMatrix Pairwise similarity scores
+   * @param commonFeatures Features every boat has
+   * @param context Comparison context, including the translator
+   * @returns Narrative text
    */
-  private formatPrice(boat: Boat): string {
-    if (!boat.price) return 'N/A';
-    const currency = boat.currency || '$';
-    return `${currency}${boat.price.toLocaleString()}`;
+  private generateNarrative(
+    boats: Boat[],
+    specMatrix: SpecMatrixRow[],
+    similarityMatrix: number[][],
+    commonFeatures: string[],
+    context: ComparisonContext
+  ): string {
+    const { i18n } = context;
+    const separator = i18n.t('list.separator');
+    const sentences = [i18n.t('narrative.comparing', {
+      count: boats.length,
+      boats: boats.map(boat => boat.name).join(separator)
+    })];
+    
+    // Most and least alike pairs
+    const pairs = boats.flatMap((_, i) => boats.slice(i + 1).map((__, offset) => {
+      const j = i + 1 + offset;
+      return { i, j, score: similarityMatrix[i][j] };
+    })).sort((a, b) => b.score - a.score);
+    const closest = pairs[0];
+    const furthest = pairs[pairs.length - 1];
+    sentences.push(i18n.t('narrative.mostAlike', {
+      boat1: boats[closest.i].name,
+      boat2: boats[closest.j].name,
+      score: Math.round(closest.score)
+    }));
+    if (pairs.length > 1) {
+      sentences.push(i18n.t('narrative.differMost', {
+        boat1: boats[furthest.i].name,
+        boat2: boats[furthest.j].name,
+        score: Math.round(furthest.score)
+      }));
+    }
+    
+    // Boat that is best in the most categories
+    const ranked = specMatrix.filter(row => row.best.length > 0);
+    const wins = boats.map((_, index) => ranked.filter(row => row.best.includes(index)));
+    const leader = wins.reduce((best, rows, index) => rows.length > wins[best].length ? index : best, 0);
+    if (wins[leader].length > 0) {
+      const labels = wins[leader].map(row => row.label);
+      sentences.push(i18n.t('narrative.bestIn', {
+        boat: boats[leader].name,
+        count: wins[leader].length,
+        total: ranked.length,
+        attributes: labels.join(separator),
+        attributesLower: labels.map(label => label.toLowerCase()).join(separator)
+      }));
+    }
+    
+    // Clear winners of individual categories
+    ranked.forEach(row => {
+      const definition = getComparisonAttribute(row.attribute);
+      if (!definition || row.best.length !== 1) return;
+      const sentence = describeBestValue(definition, boats[row.best[0]], row.values[row.best[0]], context);
+      if (sentence) sentences.push(sentence);
+    });
+    
+    if (commonFeatures.length > 0) {
+      sentences.push(i18n.t('narrative.commonFeatures', {
+        count: boats.length,
+        features: commonFeatures.join(separator)
+      }));
+    }
+    
+    return sentences.join(' ');
+  }
+  
+  /**
+   * Build the comparison document for several boats
+   * Best values in the specifications table are highlighted.
+   * @param boats Compared boats
+   * @param specMatrix Spec matrix rows
+   * @param similarityMatrix Pairwise similarity scores
+   * @param narrative Prose summary
+   * @param i18n Translator for the comparison's locale
+   * @param ownershipCosts Cost of ownership estimate per boat, when requested
+   * @returns Comparison document, ready to render in any format
+   */
+  private buildMultiComparisonDocument(
+    boats: Boat[],
+    specMatrix: SpecMatrixRow[],
+    similarityMatrix: number[][],
+    narrative: string,
+    i18n: Translator,
+    ownershipCosts?: Array<OwnershipCostEstimate | null>
+  ): ComparisonDocument {
+    const names = boats.map(boat => boat.name);
+    const ownershipSection = ownershipCosts && this.buildOwnershipCostSection(boats, ownershipCosts, i18n);
+    
+    return {
+      version: COMPARISON_DOCUMENT_VERSION,
+      title: i18n.t('comparison.title', { boats: names.join(i18n.t('comparison.versus')) }),
+      ...(i18n.locale ? { locale: i18n.locale } : {}),
+      sections: [
+        { heading: i18n.t('comparison.heading.overview'), blocks: [{ type: 'paragraph', text: narrative }] },
+        {
+          heading: i18n.t('comparison.heading.specifications'),
+          blocks: [{
+            type: 'table',
+            id: 'specifications',
+            headers: [i18n.t('comparison.specification'), ...names],
+            rows: specMatrix.map(row => [row.label, ...row.values]),
+            // Shift by one for the label column
+            highlights: specMatrix.map(row => row.best.map(index => index + 1))
+          }]
+        },
+        {
+          heading: i18n.t('comparison.heading.similarity'),
+          blocks: [{
+            type: 'table',
+            id: 'similarity',
+            headers: ['', ...names],
+            rows: similarityMatrix.map((row, i) => [
+              names[i],
+              ...row.map((score, j) => i === j ? '—' : `${Math.round(score)}%`)
+            ])
+          }]
+        },
+        ...(ownershipSection ? [ownershipSection] : [])
+      ]
+    };
+  }
+  
+  /**
+   * Build the side-by-side cost of ownership section
+   * Each row highlights the cheapest boats, unless they all cost the same. Totals
+   * are only highlighted when every estimate covers the same categories.
+   * @param boats Compared boats
+   * @param estimates Cost of ownership estimate per boat
+   * @param i18n Translator for the comparison's locale
+   * @returns The section, or undefined if no boat could be estimated
+   */
+  private buildOwnershipCostSection(
+    boats: Boat[],
+    estimates: Array<OwnershipCostEstimate | null>,
+    i18n: Translator
+  ): ComparisonSection | undefined {
+    const first = estimates.find((estimate): estimate is OwnershipCostEstimate => !!estimate);
+    if (!first) return undefined;
+    
+    const comparableTotals = estimates.every(estimate => !estimate || `${estimate.missing}` === `${first.missing}`);
+    const amounts: Array<{ label: string; values: Array<number | undefined>; ranked: boolean }> = OWNERSHIP_COST_CATEGORIES
+      .filter(category => estimates.some(estimate => estimate?.breakdown.some(item => item.category === category)))
+      .map(category => ({
+        label: i18n.t(`ownership.category.${category}`),
+        values: estimates.map(estimate => estimate?.breakdown.find(item => item.category === category)?.total.amount),
+        ranked: true
+      }));
+    amounts.push(
+      {
+        label: i18n.t('ownership.total'),
+        values: estimates.map(estimate => estimate?.total.amount),
+        ranked: comparableTotals
+      },
+      {
+        label: i18n.t('ownership.perYear'),
+        values: estimates.map(estimate => estimate?.annualAverage.amount),
+        ranked: comparableTotals
+      }
+    );
+    
+    const cheapest = (values: Array<number | undefined>): number[] => {
+      const known = values.filter((value): value is number => value !== undefined);
+      const lowest = Math.min(...known);
+      if (known.length < 2 || known.every(value => value === lowest)) return [];
+      // Shift by one for the label column
+      return values.flatMap((value, index) => value === lowest ? [index + 1] : []);
+    };
+    
+    return {
+      heading: i18n.t('ownership.heading', { count: first.years }),
+      blocks: [
+        {
+          type: 'paragraph',
+          text: i18n.t('ownership.assumptions', {
+            hours: first.assumptions.hoursPerYear,
+            storage: i18n.t(`storageType.${first.assumptions.storage}`)
+          })
+        },
+        {
+          type: 'table',
+          id: 'ownership',
+          headers: [i18n.t('ownership.cost'), ...boats.map(boat => boat.name)],
+          rows: amounts.map(({ label, values }) => [
+            label,
+            ...values.map(amount => i18n.formatMoney(amount === undefined ? undefined : { amount, currency: first.currency }))
+          ]),
+          highlights: amounts.map(({ values, ranked }) => ranked ? cheapest(values) : [])
+        }
+      ]
+    };
+  }
+  
+  /**
+   * Get the currency prices are compared in
+   */
+  private getComparisonCurrency(boat1: Boat, options: CompareBoatsOptions): CurrencyCode {
+    return normalizeCurrencyCode(options.currency || boat1.currency);
+  }
+  
+  /**
+   * Gather the display preferences the attribute catalog compares boats with
+   * @param boats Compared boats
+   * @param options Comparison preferences
+   * @param priceAssessments Fair price assessment per boat, if market data was supplied
+   * @returns Comparison context
+   */
+  private createComparisonContext(
+    boats: Boat[],
+    options: CompareBoatsOptions,
+    priceAssessments?: Array<PriceAssessment | null>
+  ): ComparisonContext {
+    return {
+      measurementUnit: options.measurementUnit || 'imperial',
+      currency: this.getComparisonCurrency(boats[0], options),
+      showConvertedPrices: !!options.currency,
+      i18n: createTranslator(options.locale),
+      ...(priceAssessments
+        ? { priceAssessments: new Map(boats.map((boat, index) => [boat.id, priceAssessments[index]])) }
+        : {})
+    };
   }
 }
 
@@ -0,0 +1,344 @@
+/**
+ * Service for detecting duplicate listings
+ * The same boat is often listed several times by different brokers. This service
+ * combines attribute similarity, image similarity and price and location
+ * proximity to find likely duplicates and group them into clusters.
+ */
+
+import { TensorFlowServiceInterface } from '@igorganapolsky/boats-types';
+import { Boat } from '../types';
+import { BoatSimilarityIndex } from '../utils/similarity-index.utils';
+import { calculateBoatSimilarity } from '../utils/boat-matching.utils';
+import { getBoatDistance, isValidGeoPoint } from '../utils/geo.utils';
+import { getBoatPrice, getBoatPriceIn } from '../utils/money.utils';
+import { TensorFlowService } from './tensorflow.service';
+
+/**
+ * Options for duplicate detection
+ */
+export interface DuplicateDetectionOptions {
+  /** Minimum combined confidence (0-1) to treat two listings as duplicates (default: 0.85) */
+  threshold?: number;
+  /** Minimum attribute similarity (0-1) before other signals are considered (default: 0.75) */
+  minAttributeSimilarity?: number;
+  /** Distance in kilometres at which location proximity drops to 0 (default: 50) */
+  maxDistanceKm?: number;
+  /** Compare primary images when an image service is available (default: true) */
+  useImages?: boolean;
+  /** Most image comparisons run at once when checking a listing against a dataset (default: 4) */
+  imageConcurrency?: number;
+}
+
+/**
+ * Evidence that two listings are the same boat, each between 0 and 1
+ * Signals that can't be measured for a pair are null and don't count
+ */
+export interface DuplicateSignals {
+  /** Boat similarity from manufacturer, model, year, dimensions and so on */
+  attributes: number;
+  /** Similarity of the primary images */
+  image: number | null;
+  /** Ratio of the lower to the higher price */
+  price: number | null;
+  /** Closeness of the listing locations */
+  location: number | null;
+}
+
+/**
+ * A listing found to be a likely duplicate of another
+ */
+export interface DuplicateMatch {
+  boat: Boat;
+  /** Combined confidence (0-1) that both listings are the same boat */
+  confidence: number;
+  signals: DuplicateSignals;
+}
+
+/**
+ * Listings that are likely the same boat
+ */
+export interface DuplicateCluster {
+  /** Most complete listing in the cluster, to show in place of the others */
+  representative: Boat;
+  /** Every listing in the cluster, including the representative */
+  boats: Boat[];
+  /** Average confidence of the duplicate pairs linking the cluster */
+  confidence: number;
+}
+
+/**
+ * Image comparison used by duplicate detection
+ */
+export type DuplicateImageComparer = Pick<TensorFlowServiceInterface, 'compareImages'>;
+
+/**
+ * How much each signal counts towards the combined confidence
+ */
+const SIGNAL_WEIGHTS: Record<keyof DuplicateSignals, number> = {
+  attributes: 0.4,
+  image: 0.3,
+  price: 0.15,
+  location: 0.15
+};
+
+/**
+ * Listing details counted when choosing a cluster's representative
+ */
+const COMPLETENESS_FIELDS: Array<keyof Boat> = [
+  'manufacturer', 'model', 'year', 'length', 'beam', 'price', 'description',
+  'propulsion', 'geoLocation', 'boatType', 'hullType', 'sellerId'
+];
+
+/**
+ * Duplicate Detection Service implementation
+ */
+export class DuplicateDetectionService {
+  private readonly imageComparer?: DuplicateImageComparer;
+
+  /**
+   * Initialize the duplicate detection service
+   * @param imageComparer Service used to compare listing images; without one only
+   * attributes, price and location are compared
+   */
+  constructor(imageComparer?: DuplicateImageComparer) {
+    this.imageComparer = imageComparer;
+  }
+
+  /**
+   * Measure how likely two listings are the same boat
+   * @param boat1 First listing
+   * @param boat2 Second listing
+   * @param options Detection settings
+   * @returns Combined confidence and the signals behind it
+   */
+  public async compareListings(
+    boat1: Boat,
+    boat2: Boat,
+    options: DuplicateDetectionOptions = {}
+  ): Promise<{ confidence: number; signals: DuplicateSignals }> {
+    return this.scorePair(boat1, boat2, calculateBoatSimilarity(boat1, boat2), options);
+  }
+
+  /**
+   * Find existing listings that a listing duplicates
+   * @param listing New or existing listing to check
+   * @param dataset Listings to check against
+   * @param options Detection settings
+   * @returns Likely duplicates, most confident first
+   */
+  public async findDuplicates(
+    listing: Boat,
+    dataset: Boat[] | BoatSimilarityIndex,
+    options: DuplicateDetectionOptions = {}
+  ): Promise<DuplicateMatch[]> {
+    const index = dataset instanceof BoatSimilarityIndex ? dataset : new BoatSimilarityIndex(dataset);
+    return this.matchCandidates(listing, index, options);
+  }
+
+  /**
+   * Check whether a listing duplicates any existing listing
+   * @param listing New listing to check
+   * @param dataset Listings to check against
+   * @param options Detection settings
+   */
+  public async isDuplicate(
+    listing: Boat,
+    dataset: Boat[] | BoatSimilarityIndex,
+    options: DuplicateDetectionOptions = {}
+  ): Promise<boolean> {
+    return (await this.findDuplicates(listing, dataset, options)).length > 0;
+  }
+
+  /**
+   * Group a dataset into clusters of likely duplicates
+   * Listings are linked when a pair reaches the threshold, and clusters are the
+   * connected groups of linked listings
+   * @param dataset Listings to cluster
+   * @param options Detection settings
+   * @returns Clusters of two or more listings, most confident first
+   */
+  public async clusterDuplicates(
+    dataset: Boat[],
+    options: DuplicateDetectionOptions = {}
+  ): Promise<DuplicateCluster[]> {
+    const index = new BoatSimilarityIndex(dataset);
+    const positions = new Map(dataset.map((boat, position) => [boat.id, position]));
+    const parents = dataset.map((_, position) => position);
+    const links: Array<{ from: number; confidence: number }> = [];
+
+    const find = (position: number): number => {
+      while (parents[position] !== position) {
+        parents[position] = parents[parents[position]];
+        position = parents[position];
+      }
+      return position;
+    };
+
+    for (const [position, boat] of dataset.entries()) {
+      // Each pair is a candidate from both sides; score it only from the earlier listing
+      const duplicates = await this.matchCandidates(boat, index, options,
+        candidate => positions.get(candidate.id)! > position);
+      duplicates.forEach(({ boat: duplicate, confidence }) => {
+        const other = positions.get(duplicate.id)!;
+        parents[find(other)] = find(position);
+        links.push({ from: position, confidence });
+      });
+    }
+
+    const clusters = new Map<number, { positions: number[]; confidences: number[] }>();
+    dataset.forEach((_, position) => {
+      const root = find(position);
+      if (!clusters.has(root)) clusters.set(root, { positions: [], confidences: [] });
+      clusters.get(root)!.positions.push(position);
+    });
+    links.forEach(({ from, confidence }) => clusters.get(find(from))!.confidences.push(confidence));
+
+    return [...clusters.values()]
+      .filter(cluster => cluster.positions.length > 1)
+      .map(cluster => {
+        const boats = cluster.positions.map(position => dataset[position]);
+        return {
+          representative: this.chooseRepresentative(boats),
+          boats,
+          confidence: cluster.confidences.reduce((sum, value) => sum + value, 0) / cluster.confidences.length
+        };
+      })
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Score the index's attribute candidates for a listing and keep likely duplicates
+   * Candidates are scored `imageConcurrency` at a time, so a large dataset doesn't
+   * start an image comparison for every candidate at once
+   * @param listing Listing to check
+   * @param index Listings to check against
+   * @param options Detection settings
+   * @param include Candidates to score; the rest are skipped before any image comparison
+   * @returns Likely duplicates, most confident first
+   */
+  private async matchCandidates(
+    listing: Boat,
+    index: BoatSimilarityIndex,
+    options: DuplicateDetectionOptions,
+    include: (candidate: Boat) => boolean = () => true
+  ): Promise<DuplicateMatch[]> {
+    const { threshold = 0.85, minAttributeSimilarity = 0.75, imageConcurrency = 4 } = options;
+    const candidates = index.findSimilar(listing, minAttributeSimilarity, index.size)
+      .filter(({ boat }) => include(boat));
+
+    const matches: DuplicateMatch[] = [];
+    let next = 0;
+    const scoreNext = async (): Promise<void> => {
+      while (next < candidates.length) {
+        const position = next++;
+        const { boat, similarityScore } = candidates[position];
+        matches[position] = { boat, ...await this.scorePair(listing, boat, similarityScore, options, threshold) };
+      }
+    };
+    const workers = Math.min(candidates.length, Math.max(1, Math.floor(imageConcurrency) || 1));
+    await Promise.all(Array.from({ length: workers }, scoreNext));
+
+    return matches
+      .filter(match => match.confidence >= threshold)
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Combine the signals for a pair whose attribute similarity is known
+   * @param threshold Confidence the pair must reach; images aren't compared when
+   * the other signals fall short of it even with a perfect image match
+   */
+  private async scorePair(
+    boat1: Boat,
+    boat2: Boat,
+    attributes: number,
+    options: DuplicateDetectionOptions,
+    threshold?: number
+  ): Promise<{ confidence: number; signals: DuplicateSignals }> {
+    const signals: DuplicateSignals = {
+      attributes,
+      image: null,
+      price: this.comparePrice(boat1, boat2),
+      location: this.compareLocation(boat1, boat2, options.maxDistanceKm ?? 50)
+    };
+
+    const canReachThreshold = threshold === undefined || this.combineSignals({ ...signals, image: 1 }) >= threshold;
+    if (options.useImages !== false && canReachThreshold) {
+      signals.image = await this.compareImages(boat1, boat2);
+    }
+
+    return { confidence: this.combineSignals(signals), signals };
+  }
+
+  /**
+   * Weighted average of the signals that could be measured
+   */
+  private combineSignals(signals: DuplicateSignals): number {
+    let total = 0;
+    let totalWeight = 0;
+    (Object.keys(SIGNAL_WEIGHTS) as Array<keyof DuplicateSignals>).forEach(signal => {
+      const value = signals[signal];
+      if (value !== null) {
+        total += value * SIGNAL_WEIGHTS[signal];
+        totalWeight += SIGNAL_WEIGHTS[signal];
+      }
+    });
+
+    return totalWeight > 0 ? total / totalWeight : 0;
+  }
+
+  /**
+   * Similarity of the primary images, or null if either is missing or can't be compared
+   */
+  private async compareImages(boat1: Boat, boat2: Boat): Promise<number | null> {
+    const image1 = boat1.primaryImageUrl || boat1.imageUrls?.[0];
+    const image2 = boat2.primaryImageUrl || boat2.imageUrls?.[0];
+    if (!this.imageComparer || !image1 || !image2) return null;
+    if (image1 === image2) return 1;
+
+    try {
+      // Cosine similarity can be negative; anything below 0 is simply unlike
+      return Math.max(0, await this.imageComparer.compareImages(image1, image2));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Ratio of the lower to the higher price, in the first listing's currency
+   */
+  private comparePrice(boat1: Boat, boat2: Boat): number | null {
+    const price1 = getBoatPrice(boat1);
+    const price2 = price1 ? getBoatPriceIn(boat2, price1.currency) : undefined;
+    if (!price1?.amount || !price2?.amount) return null;
+    return Math.min(price1.amount, price2.amount) / Math.max(price1.amount, price2.amount);
+  }
+
+  /**
+   * Closeness of two listings, falling linearly to 0 at `maxDistanceKm`
+   */
+  private compareLocation(boat1: Boat, boat2: Boat, maxDistanceKm: number): number | null {
+    if (!isValidGeoPoint(boat1.geoLocation)) return null;
+    const distance = getBoatDistance(boat2, boat1.geoLocation, 'km');
+    if (distance === undefined) return null;
+    return maxDistanceKm > 0 ? Math.max(0, 1 - distance / maxDistanceKm) : (distance === 0 ? 1 : 0);
+  }
+
+  /**
+   * Pick the listing with the most details and images, preferring the earliest listed
+   */
+  private chooseRepresentative(boats: Boat[]): Boat {
+    const completeness = (boat: Boat): number =>
+      COMPLETENESS_FIELDS.filter(field => boat[field] !== undefined && boat[field] !== '').length +
+      Math.min(boat.imageUrls?.length || 0, 10) / 10;
+
+    return boats.reduce((best, boat) => {
+      const difference = completeness(boat) - completeness(best);
+      if (difference !== 0) return difference > 0 ? boat : best;
+      return boat.listedAt && (!best.listedAt || boat.listedAt < best.listedAt) ? boat : best;
+    });
+  }
+}
+
+// Export singleton instance
+export const duplicateDetectionService = new DuplicateDetectionService(new TensorFlowService());
@@ -3,7 +3,9 @@
  * This service provides methods for extracting information from boat images
  */
 
+import { BoatType } from '@igorganapolsky/boats-types';
 import { ImageAnalysisResult } from '../types';
+import { detectBoatType } from '../utils/boat-type.utils';
 
 /**
  * Image Analysis Service implementation
@@ -78,7 +80,7 @@ export class ImageAnalysisService {
       
       // Return basic result with error
       return {
-        boatType: 'unknown',
+        boatType: undefined,
         manufacturer: 'unknown',
         year: 0,
         length: 0,
@@ -99,19 +101,8 @@ export class ImageAnalysisService {
       .filter(item => item.length > 3 && item.length < 50);
   }
   
-  private identifyBoatType(text: string): string {
-    const boatTypes = [
-      'yacht', 'sailboat', 'motorboat', 'fishing boat', 
-      'speedboat', 'pontoon', 'cruiser', 'catamaran'
-    ];
-    
-    for (const type of boatTypes) {
-      if (text.toLowerCase().includes(type)) {
-        return type;
-      }
-    }
-    
-    return 'boat'; // Default if no specific type is found
+  private identifyBoatType(text: string): BoatType | undefined {
+    return detectBoatType(text);
   }
   
   private identifyManufacturer(text: string): string {
@@ -181,7 +172,7 @@ export const analyzeBoatImage = async (base64Image: string): Promise<any> => {
     
     // Return mock analysis results (this would normally come from AI)
     return {
-      boatType: 'yacht',
+      boatType: 'motor-yacht',
       confidence: 0.85,
       features: [
         'White hull',
@@ -203,7 +194,7 @@ export const analyzeBoatImage = async (base64Image: string): Promise<any> => {
   } catch (error) {
     console.error('Error analyzing boat image:', error);
     return {
-      boatType: 'unknown',
+      boatType: undefined,
       confidence: 0,
       features: [],
       error: error instanceof Error ? error.message : 'Unknown error occurred'
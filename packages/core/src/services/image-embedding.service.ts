@@ -0,0 +1,257 @@
+/**
+ * Service for visual search across a boat catalog
+ * Keeps MobileNet feature vectors for listing images in an HNSW index, so
+ * "find listings that look like this photo" runs against thousands of images
+ * without comparing every pair, and persists the index between sessions.
+ */
+
+import { StorageAdapter, TensorFlowServiceInterface } from '@igorganapolsky/boats-types';
+import { Boat } from '../types';
+import { HnswIndex, HnswOptions, HnswSnapshot, hnswSnapshotSchema } from '../utils/hnsw.utils';
+import { createPersistedStore, PersistConfig, PersistedStore } from '../utils/persistence.utils';
+import { objectSchema, recordSchema, stringSchema } from '../utils/validation.utils';
+
+/**
+ * An indexed image similar to the query
+ */
+export interface ImageMatch {
+  boatId: string;
+  imageUrl: string;
+  /** Cosine similarity of the image features, between -1 and 1 */
+  similarity: number;
+}
+
+/**
+ * Serialized embedding store
+ */
+export interface ImageEmbeddingSnapshot {
+  index: HnswSnapshot;
+  /** Boat id of every indexed image URL */
+  images: Record<string, string>;
+}
+
+/**
+ * Feature extraction used to index and query images
+ */
+export type ImageFeatureExtractor = Pick<TensorFlowServiceInterface, 'extractImageFeatures'>;
+
+/**
+ * Persistence of the image embedding store
+ */
+export const IMAGE_EMBEDDINGS_PERSIST_CONFIG: PersistConfig<ImageEmbeddingSnapshot> = {
+  key: 'boats:imageEmbeddings',
+  version: 1,
+  schema: objectSchema<ImageEmbeddingSnapshot>({
+    index: hnswSnapshotSchema,
+    images: recordSchema(stringSchema())
+  }),
+  defaultValue: () => ({ index: new HnswIndex().toJSON(), images: {} })
+};
+
+/**
+ * Create a store that persists image embeddings, e.g. to IndexedDB, AsyncStorage or a file
+ */
+export function createImageEmbeddingPersistedStore(storage: StorageAdapter): PersistedStore<ImageEmbeddingSnapshot> {
+  return createPersistedStore(IMAGE_EMBEDDINGS_PERSIST_CONFIG, storage);
+}
+
+/**
+ * Image Embedding Store implementation
+ * Images are keyed by URL; indexing a URL again replaces its vector and boat
+ */
+export class ImageEmbeddingStore {
+  private readonly featureExtractor?: ImageFeatureExtractor;
+  private index: HnswIndex;
+  private readonly images = new Map<string, string>();
+
+  /**
+   * Create an empty embedding store
+   * @param featureExtractor Service that turns image URLs into feature vectors,
+   * needed to index boats and query by image URL
+   * @param options HNSW graph parameters
+   */
+  constructor(featureExtractor?: ImageFeatureExtractor, options: HnswOptions = {}) {
+    this.featureExtractor = featureExtractor;
+    this.index = new HnswIndex(options);
+  }
+
+  /**
+   * Restore a store from a snapshot
+   * @param snapshot Snapshot produced by `toJSON`
+   * @param featureExtractor Service that turns image URLs into feature vectors
+   * @throws Error if the snapshot is inconsistent
+   */
+  static fromJSON(snapshot: ImageEmbeddingSnapshot, featureExtractor?: ImageFeatureExtractor): ImageEmbeddingStore {
+    const store = new ImageEmbeddingStore(featureExtractor);
+    store.index = HnswIndex.fromJSON(snapshot.index);
+    Object.entries(snapshot.images).forEach(([imageUrl, boatId]) => {
+      if (store.index.has(imageUrl)) store.images.set(imageUrl, boatId);
+    });
+    return store;
+  }
+
+  /**
+   * Load a store saved with `save`
+   * Missing or unreadable data gives an empty store rather than an error.
+   * @param storage Storage backend
+   * @param featureExtractor Service that turns image URLs into feature vectors
+   */
+  static async load(storage: StorageAdapter, featureExtractor?: ImageFeatureExtractor): Promise<ImageEmbeddingStore> {
+    const { value } = await createImageEmbeddingPersistedStore(storage).load();
+    try {
+      return ImageEmbeddingStore.fromJSON(value, featureExtractor);
+    } catch {
+      return new ImageEmbeddingStore(featureExtractor);
+    }
+  }
+
+  /**
+   * Number of indexed images
+   */
+  get size(): number {
+    return this.images.size;
+  }
+
+  /**
+   * Check whether an image is indexed
+   */
+  has(imageUrl: string): boolean {
+    return this.images.has(imageUrl);
+  }
+
+  /**
+   * Index an image's feature vector
+   * @param boatId Boat the image belongs to
+   * @param imageUrl Image URL
+   * @param vector Image features, e.g. from TensorFlowService.extractImageFeatures
+   * @throws Error if the vector's length differs from vectors already indexed
+   */
+  add(boatId: string, imageUrl: string, vector: ArrayLike<number>): void {
+    this.index.add(imageUrl, vector);
+    this.images.set(imageUrl, boatId);
+  }
+
+  /**
+   * Extract and index features for a boat's images that aren't indexed yet
+   * Images that fail to load are skipped.
+   * @param boat Boat whose images to index
+   * @returns Number of images indexed
+   * @throws Error if the store has no feature extractor
+   */
+  async addBoatImages(boat: Boat): Promise<number> {
+    const extractor = this.requireFeatureExtractor();
+    const imageUrls = [...new Set([boat.primaryImageUrl, ...(boat.imageUrls || [])])]
+      .filter((url): url is string => !!url && !this.images.has(url));
+
+    let indexed = 0;
+    for (const imageUrl of imageUrls) {
+      try {
+        this.add(boat.id, imageUrl, await extractor.extractImageFeatures(imageUrl));
+        indexed++;
+      } catch (error) {
+        console.error(`Error indexing image ${imageUrl}:`, error);
+      }
+    }
+    return indexed;
+  }
+
+  /**
+   * Remove every image of a boat
+   * @returns Number of images removed
+   */
+  removeBoat(boatId: string): number {
+    let removed = 0;
+    this.images.forEach((owner, imageUrl) => {
+      if (owner !== boatId) return;
+      this.index.remove(imageUrl);
+      this.images.delete(imageUrl);
+      removed++;
+    });
+    return removed;
+  }
+
+  /**
+   * Find the indexed images most similar to a feature vector
+   * @param vector Query image features
+   * @param k Number of results (default: 10)
+   * @returns Matching images, most similar first
+   */
+  search(vector: ArrayLike<number>, k: number = 10): ImageMatch[] {
+    return this.index.search(vector, k).map(({ id, similarity }) => ({
+      boatId: this.images.get(id)!,
+      imageUrl: id,
+      similarity
+    }));
+  }
+
+  /**
+   * Find the boats whose images look most like a feature vector
+   * Each boat appears once, with its most similar image.
+   * @param vector Query image features
+   * @param limit Maximum number of boats (default: 10)
+   * @param excludeBoatId Boat to leave out, e.g. the one the query photo came from
+   * @returns Matching boats, most similar first
+   */
+  findSimilarBoats(vector: ArrayLike<number>, limit: number = 10, excludeBoatId?: string): ImageMatch[] {
+    const best = new Map<string, ImageMatch>();
+    let k = limit * 3;
+
+    // Boats with several similar images use up results, so widen the search until enough boats are found
+    for (;;) {
+      const matches = this.search(vector, k);
+      best.clear();
+      matches.forEach(match => {
+        if (match.boatId !== excludeBoatId && !best.has(match.boatId)) best.set(match.boatId, match);
+      });
+      if (best.size >= limit || matches.length < k) break;
+      k *= 2;
+    }
+
+    return [...best.values()].slice(0, limit);
+  }
+
+  /**
+   * Find the boats that look most like a photo
+   * @param imageUrl Photo to compare, which doesn't need to be indexed
+   * @param limit Maximum number of boats (default: 10)
+   * @param excludeBoatId Boat to leave out, e.g. the one the photo came from
+   * @returns Matching boats, most similar first
+   * @throws Error if the store has no feature extractor or the photo can't be loaded
+   */
+  async findBoatsLookingLike(imageUrl: string, limit: number = 10, excludeBoatId?: string): Promise<ImageMatch[]> {
+    const vector = await this.requireFeatureExtractor().extractImageFeatures(imageUrl);
+    return this.findSimilarBoats(vector, limit, excludeBoatId);
+  }
+
+  /**
+   * Rebuild the index without the routing nodes left by removed images
+   */
+  compact(): void {
+    this.index.rebuild();
+  }
+
+  /**
+   * Serialize the store
+   */
+  toJSON(): ImageEmbeddingSnapshot {
+    return {
+      index: this.index.toJSON(),
+      images: Object.fromEntries(this.images)
+    };
+  }
+
+  /**
+   * Save the store
+   * @param storage Storage backend
+   */
+  async save(storage: StorageAdapter): Promise<void> {
+    await createImageEmbeddingPersistedStore(storage).save(this.toJSON());
+  }
+
+  private requireFeatureExtractor(): ImageFeatureExtractor {
+    if (!this.featureExtractor) {
+      throw new Error('ImageEmbeddingStore needs a feature extractor to work with image URLs');
+    }
+    return this.featureExtractor;
+  }
+}
@@ -13,6 +13,16 @@ import {
 export class TensorFlowService implements TensorFlowServiceInterface {
   private model: mobilenet.MobileNet | null = null;
   private featureCache: Map<string, FeatureVector> = new Map();
+  private readonly maxCacheSize: number;
+
+  /**
+   * Initialize the TensorFlow service
+   * @param maxCacheSize Feature vectors kept in memory; the least recently used are evicted
+   * first (default: 200). Use an ImageEmbeddingStore to keep vectors for a whole catalog.
+   */
+  constructor(maxCacheSize: number = 200) {
+    this.maxCacheSize = maxCacheSize;
+  }
   
   /**
    * Load the MobileNet model
@@ -35,8 +45,12 @@ export class TensorFlowService implements TensorFlowServiceInterface {
    */
   async extractImageFeatures(imageUrl: string): Promise<FeatureVector> {
     // Check cache first
-    if (this.featureCache.has(imageUrl)) {
-      return this.featureCache.get(imageUrl)!;
+    const cached = this.featureCache.get(imageUrl);
+    if (cached) {
+      // Move to the most recently used position
+      this.featureCache.delete(imageUrl);
+      this.featureCache.set(imageUrl, cached);
+      return cached;
     }
 
     // Load model if not already loaded
@@ -58,6 +72,9 @@ export class TensorFlowService implements TensorFlowServiceInterface {
       
       // Cache the results for future use
       this.featureCache.set(imageUrl, features);
+      while (this.featureCache.size > this.maxCacheSize) {
+        this.featureCache.delete(this.featureCache.keys().next().value!);
+      }
       
       // Clean up to prevent memory leaks
       tf.dispose([activation, flattenedFeatures]);
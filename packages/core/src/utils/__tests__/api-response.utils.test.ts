@@ -0,0 +1,107 @@
+import { ApiResponse } from '@igorganapolsky/boats-types';
+import {
+  chainResponse,
+  createErrorResponse,
+  createSuccessResponse,
+  fromApiEnvelope,
+  mapResponse,
+  toErrorResponse,
+  unwrapResponse,
+  unwrapResponseOr
+} from '../api-response.utils';
+import { assertSchema, numberSchema } from '../validation.utils';
+
+const failure: ApiResponse<number> = createErrorResponse('HTTP_404', 'Boat not found');
+
+describe('creating responses', () => {
+  it('includes pagination metadata only when given', () => {
+    expect(createSuccessResponse([1])).toEqual({ success: true, data: [1] });
+    expect(createSuccessResponse([1], { page: 2, total: 11 })).toEqual({ success: true, data: [1], meta: { page: 2, total: 11 } });
+  });
+
+  it('includes error details only when given', () => {
+    expect(createErrorResponse('E', 'failed')).toEqual({ success: false, error: { code: 'E', message: 'failed' } });
+    expect(createErrorResponse('E', 'failed', { id: 1 }).error.details).toEqual({ id: 1 });
+  });
+});
+
+describe('toErrorResponse', () => {
+  it.each([
+    ['Request failed. Status: 404', 'HTTP_404'],
+    ['Request timeout after 30000ms', 'TIMEOUT_ERROR'],
+    ['Network request failed', 'UNKNOWN_ERROR']
+  ])('derives the code from "%s"', (cause, code) => {
+    const response = toErrorResponse(new Error(cause), 'Failed to fetch boat');
+
+    expect(response.error).toEqual({ code, message: 'Failed to fetch boat', details: { cause } });
+  });
+
+  it('accepts thrown values that aren\'t errors', () => {
+    expect(toErrorResponse('offline', 'Failed to fetch boat').error.details).toEqual({ cause: 'offline' });
+  });
+
+  it('keeps the issues of validation errors', () => {
+    let error: unknown;
+    try {
+      assertSchema(numberSchema(), 'x', 'price');
+    } catch (thrown) {
+      error = thrown;
+    }
+
+    expect(toErrorResponse(error, 'Invalid boat').error).toEqual({
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid boat',
+      details: {
+        cause: 'Invalid price: price: Expected finite number, received string',
+        issues: [{ path: 'price', message: 'Expected finite number, received string' }]
+      }
+    });
+  });
+});
+
+describe('fromApiEnvelope', () => {
+  it('unwraps the data and pagination metadata', () => {
+    expect(fromApiEnvelope({ data: ['a'], meta: { page: 1 } }, 'Failed')).toEqual({
+      success: true,
+      data: ['a'],
+      meta: { page: 1 }
+    });
+  });
+
+  it('maps the server error', () => {
+    expect(fromApiEnvelope({ error: { code: 'INVALID_CREDENTIALS', message: 'Wrong password' } }, 'Login failed')).toEqual(
+      createErrorResponse('INVALID_CREDENTIALS', 'Wrong password')
+    );
+  });
+
+  it('fails for bodies without data unless the endpoint may send none', () => {
+    expect(fromApiEnvelope({}, 'Login failed')).toEqual(createErrorResponse('EMPTY_RESPONSE', 'Login failed'));
+    expect(fromApiEnvelope(null, 'Login failed').success).toBe(false);
+    expect(fromApiEnvelope(undefined, 'Logout failed', true)).toEqual({ success: true, data: true });
+  });
+});
+
+describe('consuming responses', () => {
+  it('maps successful data and keeps the metadata', () => {
+    expect(mapResponse(createSuccessResponse([1, 2], { total: 2 }), list => list.length)).toEqual({
+      success: true,
+      data: 2,
+      meta: { total: 2 }
+    });
+    expect(mapResponse<number, number>(failure, value => value * 2)).toBe(failure);
+  });
+
+  it('chains calls only after a success', async () => {
+    const next = jest.fn(async (value: number) => createSuccessResponse(value + 1));
+
+    expect(await chainResponse(createSuccessResponse(1), next)).toEqual({ success: true, data: 2 });
+    expect(await chainResponse(failure, next)).toBe(failure);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('unwraps data or throws the API error', () => {
+    expect(unwrapResponse(createSuccessResponse(1))).toBe(1);
+    expect(() => unwrapResponse(failure)).toThrow(expect.objectContaining({ code: 'HTTP_404', message: 'Boat not found' }));
+    expect(unwrapResponseOr(failure, 0)).toBe(0);
+  });
+});
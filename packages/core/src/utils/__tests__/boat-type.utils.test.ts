@@ -0,0 +1,46 @@
+import { canonicalizeBoatTypeField, detectBoatType, normalizeBoatType } from '../boat-type.utils';
+import { arraySchema, boatSchema, validate } from '../validation.utils';
+
+describe('normalizeBoatType', () => {
+  it.each([
+    ['center-console', 'center-console'],
+    ['Centre Console', 'center-console'],
+    ['sail boats', 'cruising-sailboat'],
+    ['Submarine', undefined],
+    ['', undefined]
+  ])('normalizes "%s"', (name, type) => {
+    expect(normalizeBoatType(name)).toBe(type);
+  });
+});
+
+describe('detectBoatType', () => {
+  it('finds the most specific type mentioned in text', () => {
+    expect(detectBoatType('A fast power catamaran for cruising')).toBe('power-catamaran');
+    expect(detectBoatType('A sleek white hull')).toBeUndefined();
+  });
+});
+
+describe('canonicalizeBoatTypeField', () => {
+  const listing = { id: 'b1', name: 'Montauk 170', features: [], imageUrls: [] };
+
+  it('canonicalizes free-text types so the payload validates', () => {
+    const boats = [{ ...listing, boatType: 'Center Console' }, { ...listing, boatType: 'Classic Sailboat' }];
+
+    expect(validate(arraySchema(boatSchema), boats).valid).toBe(false);
+    expect(validate(arraySchema(boatSchema), boats.map(canonicalizeBoatTypeField))).toEqual({
+      valid: true,
+      value: [{ ...listing, boatType: 'center-console' }, { ...listing, boatType: 'cruising-sailboat' }]
+    });
+  });
+
+  it('drops types it can\'t recognize', () => {
+    expect(canonicalizeBoatTypeField({ ...listing, boatType: 'Amphibious' })).toEqual({ ...listing, boatType: undefined });
+    expect(canonicalizeBoatTypeField({ ...listing, boatType: 7 })).toEqual({ ...listing, boatType: undefined });
+  });
+
+  it('returns payloads without a type and non-objects unchanged', () => {
+    expect(canonicalizeBoatTypeField(listing)).toBe(listing);
+    expect(canonicalizeBoatTypeField(null)).toBeNull();
+    expect(canonicalizeBoatTypeField(['Center Console'])).toEqual(['Center Console']);
+  });
+});
@@ -0,0 +1,66 @@
+import { ComparisonDocument } from '@igorganapolsky/boats-types';
+import { COMPARISON_DOCUMENT_VERSION, registerComparisonRenderer, renderComparison } from '../comparison-renderer.utils';
+
+const DOCUMENT: ComparisonDocument = {
+  version: COMPARISON_DOCUMENT_VERSION,
+  title: 'Sea Ray <280> vs "Bayliner"',
+  sections: [
+    {
+      heading: 'Specs & Notes',
+      blocks: [
+        { type: 'paragraph', text: 'Compare <b>both</b>' },
+        { type: 'list', items: ['O\'Day 22'] },
+        {
+          type: 'table',
+          id: 'specifications',
+          headers: ['Spec', 'A|B', 'C\\D'],
+          rows: [
+            ['Price', '$1,000', '=HYPERLINK("x")'],
+            ['Notes', 'line\nbreak', '-5'],
+            ['Owner', '@admin', '+1 555 0100']
+          ],
+          highlights: [[1], [], []]
+        }
+      ]
+    }
+  ]
+};
+
+describe('renderComparison', () => {
+  it('escapes table cells in Markdown', () => {
+    const lines = renderComparison(DOCUMENT, 'markdown').split('\n');
+
+    expect(lines).toContain('| Spec | A\\|B | C\\\\D |');
+    expect(lines).toContain('| Price | **$1,000** | =HYPERLINK("x") |');
+    expect(lines).toContain('| Notes | line break | -5 |');
+  });
+
+  it('escapes every value in HTML', () => {
+    const html = renderComparison({ ...DOCUMENT, locale: 'de"x' }, 'html');
+
+    expect(html).toContain('<article class="boat-comparison" lang="de&quot;x">');
+    expect(html).toContain('<h1>Sea Ray &lt;280&gt; vs &quot;Bayliner&quot;</h1>');
+    expect(html).toContain('<h2>Specs &amp; Notes</h2>');
+    expect(html).toContain('<p>Compare &lt;b&gt;both&lt;/b&gt;</p>');
+    expect(html).toContain('<li>O&#39;Day 22</li>');
+    expect(html).toContain('<th scope="col">A|B</th>');
+    expect(html).toContain('<td class="best"><strong>$1,000</strong></td>');
+    expect(html).not.toMatch(/<b>|<280>/);
+  });
+
+  it('quotes CSV fields and defuses formulas', () => {
+    expect(renderComparison(DOCUMENT, 'csv')).toBe([
+      'Spec,A|B,C\\D',
+      'Price,"$1,000","\'=HYPERLINK(""x"")"',
+      'Notes,"line\nbreak",-5',
+      'Owner,\'@admin,\'+1 555 0100'
+    ].join('\r\n'));
+  });
+
+  it('renders registered formats and rejects unknown ones', () => {
+    registerComparisonRenderer({ format: 'title', contentType: 'text/plain', render: document => document.title });
+
+    expect(renderComparison(DOCUMENT, 'title')).toBe(DOCUMENT.title);
+    expect(() => renderComparison(DOCUMENT, 'pdf')).toThrow('No comparison renderer for format "pdf"');
+  });
+});
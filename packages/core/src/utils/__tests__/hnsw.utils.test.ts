@@ -0,0 +1,157 @@
+import {
+  decodeVector,
+  encodeVector,
+  HnswIndex,
+  HnswSnapshot,
+  HnswSnapshotNode,
+  hnswSnapshotSchema
+} from '../hnsw.utils';
+import { createRandom } from '../random.utils';
+
+const DIMENSIONS = 24;
+const random = createRandom(11);
+const createVector = (): number[] => Array.from({ length: DIMENSIONS }, () => random() * 2 - 1);
+
+function cosine(a: number[], b: number[]): number {
+  let product = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((value, i) => {
+    product += value * b[i];
+    normA += value * value;
+    normB += b[i] * b[i];
+  });
+  return product / Math.sqrt(normA * normB);
+}
+
+/**
+ * Exact top-k ids by cosine similarity
+ */
+function bruteForce(vectors: Map<string, number[]>, query: number[], k: number): string[] {
+  return [...vectors.entries()]
+    .map(([id, vector]) => ({ id, similarity: cosine(query, vector) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map(result => result.id);
+}
+
+/**
+ * Share of the exact top-k neighbours the index found, averaged over the queries
+ */
+function measureRecall(index: HnswIndex, vectors: Map<string, number[]>, queries: number[][], k: number): number {
+  const found = queries.reduce((sum, query) => {
+    const expected = new Set(bruteForce(vectors, query, k));
+    return sum + index.search(query, k).filter(result => expected.has(result.id)).length;
+  }, 0);
+  return found / (queries.length * k);
+}
+
+describe('HnswIndex', () => {
+  const vectors = new Map(Array.from({ length: 1000 }, (_, i) => [`v${i}`, createVector()] as [string, number[]]));
+  const queries = Array.from({ length: 40 }, createVector);
+  const buildIndex = (): HnswIndex => {
+    const index = new HnswIndex({ m: 8, efConstruction: 64 });
+    vectors.forEach((vector, id) => index.add(id, vector));
+    return index;
+  };
+
+  it('finds nearly all exact nearest neighbours', () => {
+    const index = buildIndex();
+
+    expect(index.size).toBe(vectors.size);
+    expect(measureRecall(index, vectors, queries, 10)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('returns results most similar first with cosine similarities', () => {
+    const index = buildIndex();
+    const [id, vector] = [...vectors.entries()][42];
+    const results = index.search(vector, 5);
+
+    expect(results[0]).toEqual({ id, similarity: expect.closeTo(1, 5) });
+    results.slice(1).forEach((result, i) => {
+      expect(result.similarity).toBeLessThanOrEqual(results[i].similarity);
+      expect(result.similarity).toBeCloseTo(cosine(vector, vectors.get(result.id)!), 5);
+    });
+  });
+
+  it('leaves removed vectors out of results and keeps recall after a rebuild', () => {
+    const index = buildIndex();
+    const remaining = new Map([...vectors.entries()].filter((_, i) => i % 4 !== 0));
+    vectors.forEach((_, id) => {
+      if (!remaining.has(id)) index.remove(id);
+    });
+
+    expect(index.size).toBe(remaining.size);
+    queries.forEach(query => {
+      const results = index.search(query, 10);
+      expect(results).toHaveLength(10);
+      results.forEach(result => expect(remaining.has(result.id)).toBe(true));
+    });
+
+    index.rebuild();
+    expect(index.toJSON().nodes).toHaveLength(remaining.size);
+    expect(measureRecall(index, remaining, queries, 10)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('rejects vectors of a different length', () => {
+    const index = buildIndex();
+
+    expect(() => index.add('short', [1, 0])).toThrow('expected 24');
+    expect(() => index.search([1, 0])).toThrow('expected 24');
+  });
+
+  it('returns nothing from an empty index', () => {
+    expect(new HnswIndex().search([1, 0, 0])).toEqual([]);
+  });
+
+  describe('serialization', () => {
+    it('restores a JSON round trip that answers queries identically', () => {
+      const index = buildIndex();
+      index.remove('v3');
+      const snapshot = JSON.parse(JSON.stringify(index.toJSON()));
+
+      expect(hnswSnapshotSchema.check(snapshot, 'snapshot')).toEqual([]);
+      const restored = HnswIndex.fromJSON(snapshot);
+      expect(restored.size).toBe(index.size);
+      expect(restored.has('v3')).toBe(false);
+      queries.forEach(query => {
+        expect(restored.search(query, 10)).toEqual(index.search(query, 10));
+      });
+    });
+
+    it('keeps adding to a restored index', () => {
+      const restored = HnswIndex.fromJSON(buildIndex().toJSON());
+      const vector = createVector();
+      restored.add('new', vector);
+
+      expect(restored.search(vector, 1)[0].id).toBe('new');
+    });
+
+    it('rejects snapshots with dangling links or mismatched vectors', () => {
+      const snapshot = buildIndex().toJSON();
+      const withFirstNode = (changes: Partial<HnswSnapshotNode>): HnswSnapshot => ({
+        ...snapshot,
+        nodes: snapshot.nodes.map((node, i) => (i === 0 ? { ...node, ...changes } : node))
+      });
+
+      expect(() => HnswIndex.fromJSON(withFirstNode({ neighbors: [[snapshot.nodes.length]] }))).toThrow('doesn\'t exist');
+      expect(() => HnswIndex.fromJSON(withFirstNode({ vector: encodeVector([1, 2]) }))).toThrow('expected 24');
+
+      expect(() => HnswIndex.fromJSON({ ...snapshot, entryPoint: snapshot.nodes.length })).toThrow('Entry point');
+    });
+  });
+});
+
+describe('encodeVector', () => {
+  it('round-trips float32 values through base64', () => {
+    const vector = [0, 1, -1, 0.5, 3.25, -1e-3, 123456];
+
+    expect(Array.from(decodeVector(encodeVector(vector)))).toEqual(Array.from(Float32Array.from(vector)));
+    expect(encodeVector(vector)).toBe(Buffer.from(Float32Array.from(vector).buffer).toString('base64'));
+  });
+
+  it('rejects corrupt encodings', () => {
+    expect(() => decodeVector('AAAA')).toThrow('invalid length');
+    expect(() => decodeVector('AAAAA*==')).toThrow('invalid characters');
+  });
+});
@@ -0,0 +1,93 @@
+import { Boat } from '../../types';
+import { DE_MESSAGES } from '../../i18n/de';
+import { EN_MESSAGES } from '../../i18n/en';
+import { boatComparisonService } from '../../services/boat-comparison.service';
+import { explainBoatSimilarity } from '../boat-matching.utils';
+import { canonicalizeLocale, createTranslator, registerMessages } from '../i18n.utils';
+
+const createBoat = (id: string, length: number, year: number): Boat => ({
+  id,
+  name: `Sea Ray ${id}`,
+  manufacturer: 'Sea Ray',
+  model: '280',
+  year,
+  length,
+  features: [],
+  imageUrls: [],
+  price: 100000,
+  currency: 'USD'
+});
+
+describe('canonicalizeLocale', () => {
+  it.each([
+    ['de_DE', 'de-DE'],
+    ['en-us', 'en-US'],
+    ['not a locale', undefined],
+    ['', undefined],
+    [undefined, undefined]
+  ])('canonicalizes "%s" to %s', (locale, canonical) => {
+    expect(canonicalizeLocale(locale)).toBe(canonical);
+  });
+});
+
+describe('createTranslator', () => {
+  it('falls back from the region to the language and then to English', () => {
+    registerMessages('de-AT', { 'test.greeting': 'Servus' });
+    registerMessages('en', { 'test.farewell': 'Goodbye' });
+    const i18n = createTranslator('de-AT');
+
+    expect(i18n.t('test.greeting')).toBe('Servus');
+    expect(i18n.t('common.yes')).toBe('Ja');
+    expect(i18n.t('test.farewell')).toBe('Goodbye');
+    expect(i18n.t('test.unknown')).toBe('test.unknown');
+    expect(createTranslator('de').t('test.greeting')).toBe('test.greeting');
+  });
+
+  it('selects plural forms by count', () => {
+    const i18n = createTranslator('de');
+
+    expect(i18n.t('similarity.year.different', { count: 1, year1: 2020, year2: 2021 })).toBe(
+      'Baujahre 1 Jahr auseinander (2020 vs. 2021)'
+    );
+    expect(i18n.t('similarity.year.different', { count: 2, year1: 2019, year2: 2021 })).toBe(
+      'Baujahre 2 Jahre auseinander (2019 vs. 2021)'
+    );
+  });
+
+  it('accepts POSIX-style locales and formats invalid locales for the runtime locale', () => {
+    const german = createTranslator('de_DE');
+
+    expect(german.locale).toBe('de-DE');
+    expect(german.t('common.yes')).toBe('Ja');
+    expect(german.formatNumber(1234.5)).toBe('1.234,5');
+    expect(german.formatMoney({ amount: 1234, currency: 'EUR' })).toMatch(/^1\.234\s€$/);
+    expect(createTranslator('not a locale').formatNumber(1234.5)).toBe(new Intl.NumberFormat().format(1234.5));
+  });
+});
+
+describe('message catalogs', () => {
+  it('has an English message for every German message and vice versa', () => {
+    expect(Object.keys(DE_MESSAGES).filter(key => !(key in EN_MESSAGES))).toEqual([]);
+    expect(Object.keys(EN_MESSAGES).filter(key => !(key in DE_MESSAGES))).toEqual([]);
+  });
+});
+
+describe('localized comparisons', () => {
+  it('compares boats for a POSIX-style locale in its measurement system', () => {
+    const result = boatComparisonService.compareBoats(createBoat('a', 28, 2019), createBoat('b', 32, 2021), {
+      locale: 'de_DE',
+      measurementUnit: 'metric'
+    });
+    const dimensions = result.similarityBreakdown!.components.find(component => component.component === 'dimensions');
+
+    expect(dimensions!.reason).toBe('Abmessungen zu 88 % ähnlich (8,5 m vs. 9,8 m)');
+  });
+
+  it('explains dimensions in the requested measurement system', () => {
+    const breakdown = explainBoatSimilarity(createBoat('a', 28, 2019), createBoat('b', 32, 2021), undefined, undefined, 'metric');
+
+    expect(breakdown.components.find(component => component.component === 'dimensions')!.reason).toBe(
+      'Dimensions are 88% alike (8.5 m vs 9.8 m)'
+    );
+  });
+});
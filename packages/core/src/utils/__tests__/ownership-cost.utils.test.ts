@@ -0,0 +1,120 @@
+import { OwnershipRateTable } from '@igorganapolsky/boats-types';
+import { Boat } from '../../types';
+import {
+  DEFAULT_OWNERSHIP_RATES,
+  estimateOwnershipCost,
+  getOwnershipRates,
+  parseOwnershipRateTable,
+  setOwnershipRates
+} from '../ownership-cost.utils';
+
+const createBoat = (fields: Partial<Boat> = {}): Boat => ({
+  id: 'boat',
+  name: 'Center Console 30',
+  length: 30,
+  condition: 'used',
+  features: [],
+  imageUrls: [],
+  price: 100000,
+  currency: 'USD',
+  propulsion: { engines: [{ horsepower: 300, fuelType: 'gasoline', driveType: 'outboard' }] },
+  ...fields
+});
+
+describe('estimateOwnershipCost', () => {
+  afterEach(() => setOwnershipRates(DEFAULT_OWNERSHIP_RATES));
+
+  it('estimates every category year by year', () => {
+    const estimate = estimateOwnershipCost(createBoat(), { years: 2 })!;
+
+    expect(estimate.yearly).toEqual([
+      {
+        year: 1,
+        costs: { fuel: 5063, storage: 4500, registration: 200, maintenance: 3225, insurance: 1500, depreciation: 7000 },
+        total: 21488,
+        value: 93000
+      },
+      {
+        year: 2,
+        costs: { fuel: 5063, storage: 4500, registration: 200, maintenance: 3225, insurance: 1395, depreciation: 6510 },
+        total: 20893,
+        value: 86490
+      }
+    ]);
+    expect(estimate.total).toEqual({ amount: 42381, currency: 'USD' });
+    expect(estimate.annualAverage).toEqual({ amount: 21191, currency: 'USD' });
+    expect(estimate.resaleValue).toEqual({ amount: 86490, currency: 'USD' });
+    expect(estimate.breakdown.map(item => item.category)).toEqual([
+      'fuel', 'insurance', 'storage', 'maintenance', 'registration', 'depreciation'
+    ]);
+    expect(estimate.missing).toEqual([]);
+  });
+
+  it('depreciates new boats faster in the first year', () => {
+    const estimate = estimateOwnershipCost(createBoat({ condition: 'new' }), { years: 2 })!;
+
+    expect(estimate.yearly.map(year => year.costs.depreciation)).toEqual([20000, 5600]);
+  });
+
+  it('reports categories the listing lacks data for as missing', () => {
+    const estimate = estimateOwnershipCost(createBoat({ price: undefined, propulsion: undefined }))!;
+
+    expect(estimate.breakdown.map(item => item.category)).toEqual(['storage', 'registration']);
+    expect(estimate.missing).toEqual(['fuel', 'insurance', 'maintenance', 'depreciation']);
+    expect(estimate.resaleValue).toBeUndefined();
+  });
+
+  it('returns undefined when nothing can be estimated', () => {
+    expect(estimateOwnershipCost(createBoat({ price: undefined, propulsion: undefined, length: undefined }))).toBeUndefined();
+  });
+
+  it('assumes gasoline for engines without a fuel type', () => {
+    const unlisted = createBoat({ propulsion: { engines: [{ horsepower: 300 }] } });
+
+    expect(estimateOwnershipCost(unlisted)!.yearly[0].costs.fuel).toBe(5063);
+  });
+
+  it('reports fuel as missing when the rate table has no rate for the fuel type', () => {
+    const rates: OwnershipRateTable = { ...DEFAULT_OWNERSHIP_RATES, fuel: { diesel: DEFAULT_OWNERSHIP_RATES.fuel.diesel } };
+
+    expect(estimateOwnershipCost(createBoat(), { rates })!.missing).toEqual(['fuel']);
+  });
+
+  it.each([NaN, -2, Infinity])('falls back to usage defaults for an unusable value (%s)', value => {
+    const estimate = estimateOwnershipCost(createBoat(), { years: value, hoursPerYear: value })!;
+
+    expect(estimate.years).toBe(5);
+    expect(estimate.yearly).toHaveLength(5);
+    expect(estimate.assumptions.hoursPerYear).toBe(DEFAULT_OWNERSHIP_RATES.hoursPerYear);
+  });
+
+  it('uses the storage type and hours given', () => {
+    const estimate = estimateOwnershipCost(createBoat(), { storage: 'trailer', hoursPerYear: 150 })!;
+
+    expect(estimate.yearly[0].costs.storage).toBe(600);
+    expect(estimate.yearly[0].costs.fuel).toBe(10125);
+    expect(estimate.assumptions).toEqual({ hoursPerYear: 150, storage: 'trailer' });
+  });
+
+  it('picks the registration bracket by length whatever order brackets are listed in', () => {
+    const registration = [{ amount: 350 }, { maxLength: 40, amount: 200 }, { maxLength: 16, amount: 50 }];
+    const rates = { ...DEFAULT_OWNERSHIP_RATES, registration };
+
+    expect(estimateOwnershipCost(createBoat({ length: 12 }), { rates })!.yearly[0].costs.registration).toBe(50);
+    expect(estimateOwnershipCost(createBoat(), { rates })!.yearly[0].costs.registration).toBe(200);
+    expect(estimateOwnershipCost(createBoat({ length: 45 }), { rates })!.yearly[0].costs.registration).toBe(350);
+
+    setOwnershipRates(rates);
+    expect(getOwnershipRates().registration.map(bracket => bracket.amount)).toEqual([50, 200, 350]);
+  });
+});
+
+describe('parseOwnershipRateTable', () => {
+  it('accepts the bundled rates as JSON', () => {
+    expect(parseOwnershipRateTable(JSON.stringify(DEFAULT_OWNERSHIP_RATES))).toEqual(DEFAULT_OWNERSHIP_RATES);
+  });
+
+  it('rejects tables with invalid rates', () => {
+    expect(() => parseOwnershipRateTable({ ...DEFAULT_OWNERSHIP_RATES, throttleLoad: 2 })).toThrow('throttleLoad');
+  });
+});
@@ -0,0 +1,193 @@
+import { StorageAdapter, UserPreferences } from '@igorganapolsky/boats-types';
+import {
+  ANALYSIS_HISTORY_PERSIST_CONFIG,
+  createPersistedStore,
+  createUserPreferencesStore,
+  DEFAULT_USER_PREFERENCES,
+  deserializeState,
+  migrateState,
+  PersistConfig,
+  serializeState,
+  USER_PREFERENCES_PERSIST_CONFIG
+} from '../persistence.utils';
+import { numberSchema, objectSchema, stringSchema } from '../validation.utils';
+
+interface Counter {
+  label: string;
+  count: number;
+}
+
+/**
+ * v2 renamed `name` to `label`, v3 added `count`
+ */
+const COUNTER_CONFIG: PersistConfig<Counter> = {
+  key: 'test:counter',
+  version: 3,
+  schema: objectSchema<Counter>({ label: stringSchema(), count: numberSchema({ min: 0 }) }),
+  migrations: {
+    2: data => ({ label: (data as { name: string }).name }),
+    3: data => ({ ...(data as object), count: 0 })
+  },
+  defaultValue: () => ({ label: 'default', count: 0 })
+};
+
+/**
+ * In-memory storage, optionally failing every read
+ */
+function createMemoryStorage(initial: Record<string, string> = {}, failReads = false): StorageAdapter & { items: Map<string, string> } {
+  const items = new Map(Object.entries(initial));
+  return {
+    items,
+    getItem: async key => {
+      if (failReads) throw new Error('Storage unavailable');
+      return items.get(key) ?? null;
+    },
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async key => {
+      items.delete(key);
+    }
+  };
+}
+
+const envelope = (version: number, data: unknown): string => JSON.stringify({ version, savedAt: '2025-01-01T00:00:00.000Z', data });
+
+describe('serializeState', () => {
+  it('wraps the value in an envelope stamped with the current version', () => {
+    const json = serializeState(COUNTER_CONFIG, { label: 'a', count: 1 }, new Date('2025-03-04T05:06:07Z'));
+
+    expect(JSON.parse(json)).toEqual({ version: 3, savedAt: '2025-03-04T05:06:07.000Z', data: { label: 'a', count: 1 } });
+  });
+});
+
+describe('migrateState', () => {
+  it('applies each migration in order', () => {
+    expect(migrateState(COUNTER_CONFIG, { name: 'old' }, 1)).toEqual({ label: 'old', count: 0 });
+    expect(migrateState(COUNTER_CONFIG, { label: 'newer' }, 2)).toEqual({ label: 'newer', count: 0 });
+  });
+
+  it('leaves current data alone', () => {
+    const data = { label: 'current', count: 4 };
+
+    expect(migrateState(COUNTER_CONFIG, data, 3)).toBe(data);
+  });
+
+  it('throws when a migration is missing', () => {
+    const config = { ...COUNTER_CONFIG, migrations: { 3: COUNTER_CONFIG.migrations![3] } };
+
+    expect(() => migrateState(config, { name: 'old' }, 1)).toThrow('from version 1 to 2');
+  });
+});
+
+describe('deserializeState', () => {
+  it('returns the default value when nothing is stored', () => {
+    expect(deserializeState(COUNTER_CONFIG, null)).toEqual({ value: { label: 'default', count: 0 }, source: 'default' });
+  });
+
+  it('returns current data as stored', () => {
+    const raw = serializeState(COUNTER_CONFIG, { label: 'a', count: 2 });
+
+    expect(deserializeState(COUNTER_CONFIG, raw)).toEqual({ value: { label: 'a', count: 2 }, source: 'stored', storedVersion: 3 });
+  });
+
+  it('migrates data written by older versions', () => {
+    expect(deserializeState(COUNTER_CONFIG, envelope(1, { name: 'old' }))).toEqual({
+      value: { label: 'old', count: 0 },
+      source: 'migrated',
+      storedVersion: 1
+    });
+  });
+
+  it('treats data stored before versioning as version 1', () => {
+    expect(deserializeState(COUNTER_CONFIG, JSON.stringify({ name: 'legacy' }))).toEqual({
+      value: { label: 'legacy', count: 0 },
+      source: 'migrated',
+      storedVersion: 1
+    });
+  });
+
+  it.each([
+    ['malformed JSON', '{"version": 3, "data": {', undefined, 'JSON'],
+    ['data newer than supported', envelope(4, { label: 'future', count: 1 }), 4, 'newer than supported'],
+    ['data failing validation', envelope(3, { label: 'a', count: -1 }), 3, 'Invalid test:counter'],
+    ['a failing migration', envelope(1, null), 1, 'null']
+  ])('recovers from %s with the default value', (_, raw, storedVersion, error) => {
+    const result = deserializeState(COUNTER_CONFIG, raw);
+
+    expect(result.value).toEqual({ label: 'default', count: 0 });
+    expect(result.source).toBe('recovered');
+    expect(result.storedVersion).toBe(storedVersion);
+    expect(result.error).toContain(error);
+  });
+
+  it('returns a fresh default value each time', () => {
+    const first = deserializeState(COUNTER_CONFIG, 'corrupt');
+    first.value.count = 5;
+
+    expect(deserializeState(COUNTER_CONFIG, 'corrupt').value.count).toBe(0);
+  });
+});
+
+describe('createPersistedStore', () => {
+  it('saves, loads and clears a slice', async () => {
+    const storage = createMemoryStorage();
+    const store = createPersistedStore(COUNTER_CONFIG, storage);
+
+    await store.save({ label: 'saved', count: 3 });
+    expect(await store.load()).toEqual({ value: { label: 'saved', count: 3 }, source: 'stored', storedVersion: 3 });
+
+    await store.clear();
+    expect(storage.items.has('test:counter')).toBe(false);
+    expect((await store.load()).source).toBe('default');
+  });
+
+  it('recovers when storage can\'t be read', async () => {
+    const store = createPersistedStore(COUNTER_CONFIG, createMemoryStorage({}, true));
+
+    expect(await store.load()).toEqual({
+      value: { label: 'default', count: 0 },
+      source: 'recovered',
+      error: 'Storage unavailable'
+    });
+  });
+});
+
+describe('user preferences', () => {
+  it('fills in settings added in version 2', async () => {
+    const v1 = { theme: 'dark', notifications: false, analyticsConsent: true, advancedMode: false };
+    const store = createUserPreferencesStore(createMemoryStorage({ [USER_PREFERENCES_PERSIST_CONFIG.key]: JSON.stringify(v1) }));
+
+    expect(await store.load()).toEqual({
+      value: { ...v1, measurementUnit: 'imperial', currency: DEFAULT_USER_PREFERENCES.currency },
+      source: 'migrated',
+      storedVersion: 1
+    });
+  });
+
+  it('falls back to the defaults when stored preferences are invalid', () => {
+    const invalid: Partial<UserPreferences> = { ...DEFAULT_USER_PREFERENCES, theme: 'neon' as UserPreferences['theme'] };
+    const result = deserializeState(USER_PREFERENCES_PERSIST_CONFIG, envelope(2, invalid));
+
+    expect(result.value).toEqual(DEFAULT_USER_PREFERENCES);
+    expect(result.source).toBe('recovered');
+  });
+});
+
+describe('analysis history', () => {
+  it('canonicalizes free-form boat types and drops unreadable entries', () => {
+    const v1 = [
+      { boatType: 'Center Console', features: ['GPS'], description: 'Fishing boat', suitableActivities: ['fishing'] },
+      { boatType: 'something unrecognizable', manufacturer: 'Acme' },
+      'not an analysis result',
+      { description: 'Impossible score', confidenceScore: 5 }
+    ];
+    const result = deserializeState(ANALYSIS_HISTORY_PERSIST_CONFIG, JSON.stringify(v1));
+
+    expect(result.source).toBe('migrated');
+    expect(result.value).toEqual([
+      { boatType: 'center-console', features: ['GPS'], description: 'Fishing boat', suitableActivities: ['fishing'] },
+      { boatType: undefined, manufacturer: 'Acme', features: [], description: '', suitableActivities: [] }
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import { Boat } from '../../types';
+import { analyzeSearchText, BoatSearchIndex, searchBoats, stemToken, tokenize } from '../search.utils';
+
+const createBoat = (id: string, fields: Partial<Boat>): Boat => ({
+  id,
+  name: id,
+  features: [],
+  imageUrls: [],
+  ...fields
+});
+
+const BOATS: Boat[] = [
+  createBoat('montauk', {
+    name: 'Boston Whaler 170 Montauk',
+    manufacturer: 'Boston Whaler',
+    model: '170 Montauk',
+    description: 'Unsinkable center console for fishing the bay',
+    features: ['Livewell', 'Bimini Top']
+  }),
+  createBoat('outrage', {
+    name: 'Boston Whaler 280 Outrage',
+    manufacturer: 'Boston Whaler',
+    model: '280 Outrage',
+    description: 'Offshore fishing machine with twin engines',
+    features: ['Outriggers', 'Livewell', 'Radar']
+  }),
+  createBoat('grady', {
+    name: 'Grady-White Freedom 235',
+    manufacturer: 'Grady-White',
+    model: 'Freedom 235',
+    description: 'Dual console that was once owned by a whaler enthusiast',
+    features: ['Hardtop', 'Fishfinder']
+  }),
+  createBoat('beneteau', {
+    name: 'Beneteau Oceanis 38',
+    manufacturer: 'Beneteau',
+    model: 'Oceanis 38',
+    description: 'Cruising sailboat with furling sails and a roomy cockpit',
+    features: ['Autopilot', 'Windlass']
+  })
+];
+
+const ids = (results: Array<{ boat: Boat }>): string[] => results.map(result => result.boat.id);
+
+describe('text analysis', () => {
+  it('splits, lowercases and removes accents and stop words', () => {
+    expect(tokenize('The Grady-White Fisherman with a Bimini/Hardtop, Côte d\'Azur')).toEqual([
+      'grady', 'white', 'fisherman', 'bimini', 'hardtop', 'cote', 'd', 'azur'
+    ]);
+  });
+
+  it.each([
+    ['engines', 'engine'],
+    ['fishing', 'fish'],
+    ['batteries', 'battery'],
+    ['running', 'run'],
+    ['equipped', 'equip'],
+    ['hull', 'hull'],
+    ['bass', 'bass'],
+    ['montauk', 'montauk'],
+    ['v8s', 'v8s']
+  ])('stems %s to %s', (token, stem) => {
+    expect(stemToken(token)).toBe(stem);
+  });
+
+  it('analyzes queries and documents the same way', () => {
+    expect(analyzeSearchText('Twin Engines')).toEqual(analyzeSearchText('twin engine'));
+  });
+});
+
+describe('BoatSearchIndex', () => {
+  it('ranks matches in boosted fields above matches in the description', () => {
+    const results = searchBoats('whaler', BOATS, { prefix: false });
+
+    expect(ids(results)).toEqual(['montauk', 'outrage', 'grady']);
+    expect(results[1].score).toBeGreaterThan(results[2].score);
+  });
+
+  it('ranks rare terms above common ones', () => {
+    const results = searchBoats('livewell radar', BOATS, { prefix: false });
+
+    expect(ids(results)[0]).toBe('outrage');
+  });
+
+  it('favours shorter fields for the same number of matches', () => {
+    const boats = [
+      createBoat('long', { description: 'Fishing boat with a very long description about its many other qualities' }),
+      createBoat('short', { description: 'Fishing boat' }),
+      createBoat('other', { description: 'Sailboat' })
+    ];
+
+    expect(ids(searchBoats('fishing', boats, { prefix: false }))).toEqual(['short', 'long']);
+  });
+
+  it('matches stemmed words', () => {
+    const results = searchBoats('engine', BOATS, { prefix: false });
+
+    expect(ids(results)).toEqual(['outrage']);
+    expect(results[0].matchedTerms).toEqual(['engine']);
+  });
+
+  it('matches the last term as a prefix with a lower weight than an exact match', () => {
+    const boats = [
+      createBoat('prefix', { description: 'Sailboat' }),
+      createBoat('exact', { description: 'Sail' })
+    ];
+
+    expect(ids(searchBoats('sail', boats))).toEqual(['exact', 'prefix']);
+    expect(ids(searchBoats('sail', boats, { prefix: false }))).toEqual(['exact']);
+    expect(searchBoats('oce', BOATS)[0].matchedTerms).toEqual(['oceanis']);
+  });
+
+  it('requires every term with matchAll', () => {
+    expect(ids(searchBoats('whaler offshore', BOATS))).toHaveLength(3);
+    expect(ids(searchBoats('whaler offshore', BOATS, { matchAll: true }))).toEqual(['outrage']);
+  });
+
+  it('applies custom boosts over the defaults', () => {
+    const results = searchBoats('whaler', BOATS, { prefix: false, boosts: { name: 0, manufacturer: 0, description: 20 } });
+
+    expect(ids(results)[0]).toBe('grady');
+  });
+
+  it('breaks ties in insertion order and respects the limit', () => {
+    const boats = ['a', 'b', 'c'].map(id => createBoat(id, { description: 'Trawler' }));
+
+    expect(ids(searchBoats('trawler', boats, { limit: 2 }))).toEqual(['a', 'b']);
+    expect(searchBoats('trawler', boats, { limit: 0 })).toEqual([]);
+    expect(searchBoats('the and', boats)).toEqual([]);
+  });
+
+  it('updates results when boats are replaced and removed', () => {
+    const index = new BoatSearchIndex(BOATS);
+
+    index.add({ ...BOATS[0], description: 'Restored classic', features: [] });
+    expect(ids(index.search('unsinkable'))).toEqual([]);
+
+    expect(index.remove('outrage')).toBe(true);
+    expect(index.remove('outrage')).toBe(false);
+    expect(index.size).toBe(3);
+    expect(ids(index.search('livewell'))).toEqual([]);
+    expect(ids(index.search('whaler', { prefix: false }))).toEqual(['montauk', 'grady']);
+  });
+
+  it('ranks the same as a freshly built index after updates', () => {
+    const index = new BoatSearchIndex([...BOATS, createBoat('extra', { description: 'Whaler whaler whaler' })]);
+    index.remove('extra');
+
+    expect(index.search('whaler fishing')).toEqual(new BoatSearchIndex(BOATS).search('whaler fishing'));
+  });
+});
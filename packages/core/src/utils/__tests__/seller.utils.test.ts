@@ -0,0 +1,112 @@
+import { Dealer, PrivateSeller, UserProfile } from '@igorganapolsky/boats-types';
+import { Boat } from '../../types';
+import { canViewSellerContact, filterVisibleInventory, getPreferredContactChannel, redactSellerContact } from '../seller.utils';
+import { sellerSchema, validate } from '../validation.utils';
+
+const CHANNELS = [
+  { type: 'email' as const, value: 'sales@example.com' },
+  { type: 'phone' as const, value: '+1 555 0100', preferred: true }
+];
+
+const PRIVATE_SELLER: PrivateSeller = {
+  id: 'seller-1',
+  type: 'private',
+  displayName: 'Sam',
+  userId: 'user-owner',
+  verificationStatus: 'verified',
+  contactChannels: CHANNELS
+};
+
+const DEALER: Dealer = {
+  id: 'dealer-1',
+  type: 'dealer',
+  displayName: 'Harbor Marine',
+  companyName: 'Harbor Marine LLC',
+  verificationStatus: 'verified',
+  contactChannels: CHANNELS,
+  inventoryIds: ['active', 'sold']
+};
+
+const createUser = (fields: Partial<UserProfile> = {}): UserProfile => ({
+  id: 'user-1',
+  email: 'user@example.com',
+  role: 'user',
+  ...fields
+});
+
+describe('canViewSellerContact', () => {
+  it('shows private sellers only to signed-in users by default', () => {
+    expect(canViewSellerContact(PRIVATE_SELLER, null)).toBe(false);
+    expect(canViewSellerContact(PRIVATE_SELLER, createUser())).toBe(true);
+  });
+
+  it('shows dealers publicly by default', () => {
+    expect(canViewSellerContact(DEALER, null)).toBe(true);
+  });
+
+  it('hides hidden sellers from everyone but their owners and admins', () => {
+    const hidden: PrivateSeller = { ...PRIVATE_SELLER, contactVisibility: 'hidden' };
+
+    expect(canViewSellerContact(hidden, createUser())).toBe(false);
+    expect(canViewSellerContact(hidden, createUser({ id: 'user-owner' }))).toBe(true);
+    expect(canViewSellerContact(hidden, createUser({ role: 'admin' }))).toBe(true);
+    expect(canViewSellerContact({ ...DEALER, contactVisibility: 'hidden' }, createUser({ role: 'dealer', dealerId: 'dealer-1' })))
+      .toBe(true);
+  });
+});
+
+describe('redactSellerContact', () => {
+  it('removes contact channels the viewer may not see', () => {
+    const redacted = redactSellerContact(PRIVATE_SELLER, null);
+
+    expect(redacted.contactChannels).toBeUndefined();
+    expect(redacted.displayName).toBe('Sam');
+    expect(PRIVATE_SELLER.contactChannels).toBe(CHANNELS);
+  });
+
+  it('returns the seller unchanged when the viewer may see them', () => {
+    expect(redactSellerContact(PRIVATE_SELLER, createUser())).toBe(PRIVATE_SELLER);
+  });
+});
+
+describe('filterVisibleInventory', () => {
+  const boats: Boat[] = [
+    { id: 'active', name: 'Active', features: [], imageUrls: [] },
+    { id: 'sold', name: 'Sold', features: [], imageUrls: [], status: 'sold' }
+  ];
+
+  it('shows only boats on the market to other users', () => {
+    expect(filterVisibleInventory(DEALER, boats, null).map(boat => boat.id)).toEqual(['active']);
+    expect(filterVisibleInventory(DEALER, boats, createUser({ role: 'dealer', dealerId: 'dealer-2' }))).toHaveLength(1);
+  });
+
+  it('shows the whole inventory to the dealer and admins', () => {
+    expect(filterVisibleInventory(DEALER, boats, createUser({ role: 'dealer', dealerId: 'dealer-1' }))).toBe(boats);
+    expect(filterVisibleInventory(DEALER, boats, createUser({ role: 'admin' }))).toBe(boats);
+  });
+});
+
+describe('getPreferredContactChannel', () => {
+  it('prefers the channel marked preferred', () => {
+    expect(getPreferredContactChannel(DEALER)?.type).toBe('phone');
+    expect(getPreferredContactChannel({ ...DEALER, contactChannels: undefined })).toBeUndefined();
+  });
+});
+
+describe('sellerSchema', () => {
+  it('validates sellers by their type', () => {
+    expect(validate(sellerSchema, PRIVATE_SELLER).valid).toBe(true);
+    expect(validate(sellerSchema, DEALER).valid).toBe(true);
+    expect(validate(sellerSchema, { ...PRIVATE_SELLER, type: 'dealer' }, 'seller')).toEqual({
+      valid: false,
+      issues: [
+        { path: 'seller.companyName', message: 'Expected string, received undefined' },
+        { path: 'seller.inventoryIds', message: 'Expected array, received undefined' }
+      ]
+    });
+    expect(validate(sellerSchema, { ...PRIVATE_SELLER, type: 'broker' }, 'seller')).toEqual({
+      valid: false,
+      issues: [{ path: 'seller.type', message: 'Expected one of "private", "dealer", received "broker"' }]
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { Boat } from '../../types';
+import { findSimilarBoats } from '../boat-matching.utils';
+import { BOAT_TYPES } from '../boat-type.utils';
+import { createRandom } from '../random.utils';
+import { BoatSimilarityIndex } from '../similarity-index.utils';
+
+const random = createRandom(7);
+const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+const MANUFACTURERS = ['Sea Ray', 'Bayliner', 'Boston Whaler', 'Grady-White', 'Beneteau', 'Catalina', 'Viking', 'Lagoon'];
+const FEATURES = ['GPS', 'Radar', 'Autopilot', 'Bow Thruster', 'Generator', 'Air Conditioning', 'Hardtop', 'Livewell'];
+const ENGINE_TYPES = ['Twin Outboard', 'Single Inboard Diesel', 'Sterndrive', 'Jet'];
+
+function createBoat(index: number): Boat {
+  const manufacturer = pick(MANUFACTURERS);
+  return {
+    id: `boat-${index}`,
+    name: `${manufacturer} ${index}`,
+    manufacturer,
+    model: `${manufacturer.split(' ')[0]} ${20 + Math.floor(random() * 30)}`,
+    year: 2000 + Math.floor(random() * 25),
+    length: 18 + Math.round(random() * 40),
+    beam: 7 + Math.round(random() * 10),
+    engineType: pick(ENGINE_TYPES),
+    features: FEATURES.filter(() => random() < 0.3),
+    imageUrls: [],
+    price: 20000 + Math.round(random() * 800000),
+    // Leave some boats untyped so the untyped block is exercised too
+    boatType: random() < 0.1 ? undefined : pick(BOAT_TYPES)
+  };
+}
+
+const describeMatches = (matches: Array<{ boat: Boat; similarityScore: number }>): string[] =>
+  matches.map(match => `${match.boat.id}:${match.similarityScore}`);
+
+describe('BoatSimilarityIndex', () => {
+  const inventory = Array.from({ length: 800 }, (_, index) => createBoat(index));
+  const queries = Array.from({ length: 15 }, () => pick(inventory));
+
+  it.each([0.5, 0.7, 0.85])('returns the same matches as brute force at threshold %s', threshold => {
+    const index = new BoatSimilarityIndex(inventory);
+    let matched = 0;
+
+    queries.forEach(query => {
+      const expected = findSimilarBoats(query, inventory, threshold, 10);
+      matched += expected.length;
+      expect(describeMatches(index.findSimilar(query, threshold, 10))).toEqual(describeMatches(expected));
+    });
+    expect(matched).toBeGreaterThan(0);
+  });
+
+  it('prunes candidates without scoring every boat', () => {
+    const index = new BoatSimilarityIndex(inventory);
+    index.findSimilar(queries[0], 0.7, 10);
+
+    const stats = index.lastQueryStats;
+    expect(stats.scored).toBeLessThan(inventory.length);
+    expect(stats.blockPruned + stats.boundPruned).toBeGreaterThan(0);
+  });
+
+  it('stays equivalent to brute force after boats are replaced and removed', () => {
+    const index = new BoatSimilarityIndex(inventory);
+    const remaining = inventory.filter((_, position) => position % 5 !== 0);
+    inventory.forEach((boat, position) => {
+      if (position % 5 === 0) index.remove(boat.id);
+    });
+    const replaced = { ...remaining[0], length: 40, features: ['Radar', 'GPS'] };
+    index.add(replaced);
+    const current = [replaced, ...remaining.slice(1)];
+
+    expect(index.size).toBe(current.length);
+    queries.forEach(query => {
+      // Replacing a boat moves it to the end of the tie order
+      const expected = findSimilarBoats(query, [...current.slice(1), replaced], 0.7, 10);
+      expect(describeMatches(index.findSimilar(query, 0.7, 10))).toEqual(describeMatches(expected));
+    });
+  });
+});
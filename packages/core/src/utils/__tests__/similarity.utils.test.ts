@@ -0,0 +1,112 @@
+import { createRandom } from '../random.utils';
+import {
+  calculateDamerauLevenshteinSimilarity,
+  calculateJaroWinklerSimilarity,
+  calculateNGramSimilarity,
+  calculateStringSimilarity,
+  calculateTokenSetSimilarity,
+  damerauLevenshteinDistance,
+  levenshteinDistance,
+  StringSimilarityMetric
+} from '../similarity.utils';
+
+const METRICS: StringSimilarityMetric[] = ['levenshtein', 'damerau-levenshtein', 'jaro-winkler', 'token-set', 'ngram'];
+
+/**
+ * Short strings over a small alphabet, so pairs share characters and words often
+ */
+function createStrings(count: number, seed: number): string[] {
+  const random = createRandom(seed);
+  const alphabet = 'abcde ';
+  return Array.from({ length: count }, () =>
+    Array.from({ length: Math.floor(random() * 10) }, () => alphabet[Math.floor(random() * alphabet.length)]).join('')
+  );
+}
+
+describe('edit distances', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(levenshteinDistance('', 'abc')).toBe(3);
+    expect(levenshteinDistance('kitten', 'sitting', 2)).toBeUndefined();
+  });
+
+  it('counts an adjacent swap as one edit for Damerau-Levenshtein only', () => {
+    expect(levenshteinDistance('ab', 'ba')).toBe(2);
+    expect(damerauLevenshteinDistance('ab', 'ba')).toBe(1);
+    expect(calculateDamerauLevenshteinSimilarity('Sea Ray', 'Sea Rya')).toBeCloseTo(6 / 7);
+  });
+});
+
+describe('calculateJaroWinklerSimilarity', () => {
+  it.each([
+    ['martha', 'marhta', 0.9611],
+    ['dwayne', 'duane', 0.84],
+    ['dixon', 'dicksonx', 0.8133]
+  ])('scores %s and %s', (a, b, score) => {
+    expect(calculateJaroWinklerSimilarity(a, b)).toBeCloseTo(score, 4);
+  });
+
+  it('clamps the prefix scale so scores stay within 0 and 1', () => {
+    expect(calculateJaroWinklerSimilarity('martha', 'marhta', 0, 1)).toBeCloseTo(
+      calculateJaroWinklerSimilarity('martha', 'marhta', 0, 0.25)
+    );
+    expect(calculateJaroWinklerSimilarity('martha', 'marhta', 0, 1)).toBeLessThanOrEqual(1);
+    expect(calculateJaroWinklerSimilarity('martha', 'marhta', 0, -1)).toBeCloseTo(0.9444, 4);
+  });
+});
+
+describe('word and n-gram metrics', () => {
+  it('ignores word order and repeated words in token-set similarity', () => {
+    expect(calculateTokenSetSimilarity('Sundancer 320', '320 Sundancer')).toBe(1);
+    expect(calculateTokenSetSimilarity('Sea Ray Sundancer', 'Sundancer')).toBe(1);
+    expect(calculateTokenSetSimilarity('Sea Ray', 'Bayliner')).toBeLessThan(0.5);
+  });
+
+  it('compares character bigrams', () => {
+    expect(calculateNGramSimilarity('night', 'nacht')).toBe(0.25);
+    expect(calculateNGramSimilarity('a', 'b')).toBe(0);
+  });
+});
+
+describe('calculateStringSimilarity', () => {
+  it('ignores case', () => {
+    METRICS.forEach(metric => {
+      expect(calculateStringSimilarity('Boston Whaler', 'BOSTON WHALER', { metric })).toBe(1);
+    });
+  });
+
+  it.each(METRICS)('%s scores every pair within 0 and 1, symmetrically', metric => {
+    const strings = createStrings(40, 7);
+    strings.forEach((a, i) => {
+      const b = strings[(i + 1) % strings.length];
+      const score = calculateStringSimilarity(a, b, { metric });
+
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(1);
+      expect(calculateStringSimilarity(b, a, { metric })).toBeCloseTo(score);
+    });
+  });
+
+  it.each(METRICS)('%s only reports 0 for pairs that miss the threshold', metric => {
+    const strings = createStrings(40, 11);
+    strings.forEach((a, i) => {
+      const b = strings[(i + 3) % strings.length];
+      const score = calculateStringSimilarity(a, b, { metric });
+      const thresholded = calculateStringSimilarity(a, b, { metric, threshold: 0.5 });
+
+      if (score >= 0.5) expect(thresholded).toBe(score);
+      else expect([0, score]).toContain(thresholded);
+    });
+  });
+
+  it('keeps the Jaro-Winkler early exit sound for large prefix scales', () => {
+    const strings = createStrings(60, 13);
+    strings.forEach((a, i) => {
+      const b = strings[(i + 1) % strings.length];
+      const score = calculateJaroWinklerSimilarity(a, b, 0, 1);
+
+      expect(score).toBeLessThanOrEqual(1);
+      expect(calculateJaroWinklerSimilarity(a, b, score, 1)).toBe(score);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  arraySchema,
+  assertBoat,
+  assertSchema,
+  formatValidationIssues,
+  isBoat,
+  isValidationError,
+  literalSchema,
+  nullableSchema,
+  numberSchema,
+  objectSchema,
+  optionalSchema,
+  recordSchema,
+  stringSchema,
+  validate,
+  validateBoat
+} from '../validation.utils';
+
+const BOAT = {
+  id: 'b1',
+  name: 'Sea Ray 280',
+  year: 2019,
+  length: 28,
+  features: ['GPS'],
+  imageUrls: [],
+  boatType: 'bowrider',
+  propulsion: { engines: [{ horsepower: 350, fuelType: 'gasoline' }] }
+};
+
+describe('primitive schemas', () => {
+  it('describes the received type in issues', () => {
+    expect(stringSchema().check(1, 'name')).toEqual([{ path: 'name', message: 'Expected string, received number' }]);
+    expect(numberSchema().check(NaN, 'n')[0].message).toBe('Expected finite number, received NaN');
+    expect(numberSchema().check(Infinity, 'n')).toHaveLength(1);
+    expect(arraySchema(stringSchema()).check(null, 'list')[0].message).toBe('Expected array, received null');
+  });
+
+  it('applies number bounds', () => {
+    const schema = numberSchema({ min: 0, max: 10, integer: true });
+
+    expect(schema.check(5, 'n')).toEqual([]);
+    expect(schema.check(-1, 'n')[0].message).toBe('Expected number >= 0, received -1');
+    expect(schema.check(11, 'n')[0].message).toBe('Expected number <= 10, received 11');
+    expect(schema.check(1.5, 'n')[0].message).toBe('Expected integer, received 1.5');
+  });
+
+  it('accepts only listed literals', () => {
+    const schema = literalSchema('new', 'used');
+
+    expect(schema.check('used', 'condition')).toEqual([]);
+    expect(schema.check('mint', 'condition')[0].message).toBe('Expected one of "new", "used", received "mint"');
+  });
+
+  it('distinguishes optional from nullable', () => {
+    expect(optionalSchema(stringSchema()).check(undefined, 'v')).toEqual([]);
+    expect(optionalSchema(stringSchema()).check(null, 'v')).toHaveLength(1);
+    expect(nullableSchema(stringSchema()).check(null, 'v')).toEqual([]);
+    expect(nullableSchema(stringSchema()).check(undefined, 'v')).toHaveLength(1);
+  });
+});
+
+describe('composite schemas', () => {
+  const schema = objectSchema<{ name: string; tags: string[]; scores: Record<string, number> }>({
+    name: stringSchema(),
+    tags: arraySchema(stringSchema()),
+    scores: recordSchema(numberSchema())
+  });
+
+  it('reports every issue with its path', () => {
+    expect(schema.check({ name: 1, tags: ['a', 2, 3], scores: { x: 'high' } }, 'item')).toEqual([
+      { path: 'item.name', message: 'Expected string, received number' },
+      { path: 'item.tags[1]', message: 'Expected string, received number' },
+      { path: 'item.tags[2]', message: 'Expected string, received number' },
+      { path: 'item.scores.x', message: 'Expected finite number, received string' }
+    ]);
+  });
+
+  it('allows unknown properties', () => {
+    expect(schema.check({ name: 'a', tags: [], scores: {}, added: true }, 'item')).toEqual([]);
+  });
+
+  it('rejects arrays where objects are expected', () => {
+    expect(schema.check([], 'item')[0].message).toBe('Expected object, received array');
+    expect(recordSchema(numberSchema()).check([], 'scores')).toHaveLength(1);
+  });
+});
+
+describe('validate and assertSchema', () => {
+  it('returns the value or the issues', () => {
+    expect(validate(stringSchema(), 'a')).toEqual({ valid: true, value: 'a' });
+    expect(validate(stringSchema(), 1, 'name')).toEqual({
+      valid: false,
+      issues: [{ path: 'name', message: 'Expected string, received number' }]
+    });
+  });
+
+  it('throws a ValidationError listing every issue', () => {
+    let error: unknown;
+    try {
+      assertSchema(arraySchema(stringSchema()), ['a', 1, false], 'tags');
+    } catch (thrown) {
+      error = thrown;
+    }
+
+    expect(isValidationError(error)).toBe(true);
+    expect((error as Error).message).toBe(
+      'Invalid tags: tags[1]: Expected string, received number; tags[2]: Expected string, received boolean'
+    );
+    expect(isValidationError(new Error('plain'))).toBe(false);
+  });
+
+  it('formats issues as one message', () => {
+    expect(formatValidationIssues([{ path: 'a', message: 'x' }, { path: 'b', message: 'y' }])).toBe('a: x; b: y');
+  });
+});
+
+describe('boat guards', () => {
+  it('accepts a valid boat', () => {
+    expect(isBoat(BOAT)).toBe(true);
+    expect(() => assertBoat(BOAT)).not.toThrow();
+  });
+
+  it('rejects invalid nested values', () => {
+    const result = validateBoat({ ...BOAT, year: 1500, propulsion: { engines: [{ horsepower: -1 }] } });
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.issues.map(issue => issue.path)).toEqual([
+      'boat.year',
+      'boat.propulsion.engines[0].horsepower'
+    ]);
+  });
+
+  it('requires the core fields', () => {
+    expect(isBoat({ id: 'b1', name: 'No media' })).toBe(false);
+    expect(() => assertBoat(null)).toThrow('Invalid boat: boat: Expected object, received null');
+  });
+});
@@ -0,0 +1,112 @@
+import { Boat } from '../../types';
+import { adjustComparable, assessBoatPrice, assessPrice, estimateFairPrice } from '../valuation.utils';
+
+const createBoat = (id: string, fields: Partial<Boat> = {}): Boat => ({
+  id,
+  name: 'Grady-White Freedom 235',
+  manufacturer: 'Grady-White',
+  model: 'Freedom 235',
+  year: 2020,
+  length: 23,
+  boatType: 'center-console',
+  condition: 'used',
+  features: [],
+  imageUrls: [],
+  price: 100000,
+  currency: 'USD',
+  ...fields
+});
+
+const MARKET = [
+  createBoat('a', { price: 90000 }),
+  createBoat('b', { price: 100000 }),
+  createBoat('c', { price: 110000 }),
+  createBoat('sailboat', {
+    name: 'Beneteau Oceanis 38',
+    manufacturer: 'Beneteau',
+    model: 'Oceanis 38',
+    length: 38,
+    boatType: 'cruising-sailboat',
+    price: 300000
+  })
+];
+
+describe('adjustComparable', () => {
+  it('prices an older comparable up to the valued boat\'s year', () => {
+    const comparable = adjustComparable(createBoat('boat'), createBoat('older', { year: 2018 }), 0.9, 'USD')!;
+
+    expect(comparable.adjustedPrice).toEqual({ amount: 112360, currency: 'USD' });
+    expect(comparable.adjustments).toEqual([{ factor: 'year', amount: 12360, reason: '2 years older' }]);
+  });
+
+  it('caps the total adjustment and scales each adjustment down to fit', () => {
+    const comparable = adjustComparable(
+      createBoat('boat', { length: 30 }),
+      createBoat('smaller', { year: 2018, length: 20 }),
+      0.7,
+      'USD'
+    )!;
+
+    expect(comparable.adjustedPrice.amount).toBe(150000);
+    expect(comparable.adjustments.map(adjustment => adjustment.factor)).toEqual(['year', 'length']);
+    const total = comparable.adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0);
+    expect(Math.abs(total - 50000)).toBeLessThanOrEqual(1);
+  });
+
+  it('skips comparables without a usable price', () => {
+    expect(adjustComparable(createBoat('boat'), createBoat('unpriced', { price: undefined }), 0.9, 'USD')).toBeUndefined();
+    expect(adjustComparable(createBoat('boat'), createBoat('free', { price: 0 }), 0.9, 'USD')).toBeUndefined();
+  });
+});
+
+describe('estimateFairPrice', () => {
+  it('weights similar comparables and leaves dissimilar listings out', () => {
+    const valuation = estimateFairPrice(createBoat('boat'), MARKET)!;
+
+    expect(valuation.comparables.map(comparable => comparable.boat.id)).toEqual(['a', 'b', 'c']);
+    expect(valuation.estimate).toEqual({ amount: 100000, currency: 'USD' });
+    expect(valuation.low.amount).toBe(91835);
+    expect(valuation.high.amount).toBe(108165);
+  });
+
+  it('keeps a minimum range when comparables agree exactly', () => {
+    const valuation = estimateFairPrice(createBoat('boat'), [createBoat('a'), createBoat('b')])!;
+
+    expect(valuation.low.amount).toBe(95000);
+    expect(valuation.high.amount).toBe(105000);
+  });
+
+  it('is more confident with more, closer and more consistent comparables', () => {
+    const few = estimateFairPrice(createBoat('boat'), [createBoat('a', { price: 60000 }), createBoat('b', { price: 140000 })])!;
+    const many = estimateFairPrice(createBoat('boat'), Array.from({ length: 8 }, (_, i) => createBoat(`m${i}`)))!;
+
+    expect(many.confidenceScore).toBeGreaterThan(few.confidenceScore);
+    expect(many.confidence).toBe('high');
+  });
+
+  it('returns undefined without comparables or a currency', () => {
+    expect(estimateFairPrice(createBoat('boat'), [MARKET[3]])).toBeUndefined();
+    expect(estimateFairPrice(createBoat('boat', { price: undefined, currency: undefined }), MARKET)).toBeUndefined();
+    expect(estimateFairPrice(createBoat('boat', { price: undefined, currency: undefined }), MARKET, { currency: 'USD' }))
+      .toBeDefined();
+  });
+});
+
+describe('assessPrice', () => {
+  it.each([
+    [80000, 'underpriced', -20],
+    [104000, 'fair', 4],
+    [125000, 'overpriced', 25]
+  ])('rates an asking price of %s as %s', (price, rating, differencePercent) => {
+    const assessment = assessBoatPrice(createBoat('boat', { price }), MARKET)!;
+
+    expect(assessment.rating).toBe(rating);
+    expect(assessment.differencePercent).toBeCloseTo(differencePercent);
+  });
+
+  it('returns undefined for boats without an asking price', () => {
+    const valuation = estimateFairPrice(createBoat('boat'), MARKET)!;
+
+    expect(assessPrice(createBoat('unpriced', { price: undefined }), valuation)).toBeUndefined();
+  });
+});
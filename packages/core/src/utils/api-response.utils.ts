@@ -0,0 +1,143 @@
+/**
+ * API response utilities
+ * Helpers for creating and consuming the discriminated ApiResponse type
+ * shared by every API client
+ */
+
+import { ApiEnvelope, ApiError, ApiFailure, ApiResponse, ApiSuccess, PaginationMeta } from '@igorganapolsky/boats-types';
+import { isValidationError } from './validation.utils';
+
+/**
+ * Create a successful API response
+ * @param data Response data
+ * @param meta Optional pagination metadata
+ */
+export function createSuccessResponse<T>(data: T, meta?: PaginationMeta): ApiSuccess<T> {
+  return meta ? { success: true, data, meta } : { success: true, data };
+}
+
+/**
+ * Create a failed API response
+ * @param code Machine readable error code
+ * @param message Human readable error message
+ * @param details Optional additional error details
+ */
+export function createErrorResponse(code: string, message: string, details?: any): ApiFailure {
+  const error: ApiError = { code, message };
+  if (details !== undefined) {
+    error.details = details;
+  }
+  return { success: false, error };
+}
+
+/**
+ * Derive an error code from a thrown error
+ */
+function getErrorCode(error: unknown): string {
+  if (isValidationError(error)) return 'VALIDATION_ERROR';
+
+  const message = error instanceof Error ? error.message : String(error);
+  const statusMatch = message.match(/Status: (\d{3})/);
+  if (statusMatch) return `HTTP_${statusMatch[1]}`;
+  if (message.toLowerCase().includes('timeout')) return 'TIMEOUT_ERROR';
+
+  return 'UNKNOWN_ERROR';
+}
+
+/**
+ * Convert a thrown error into a failed API response
+ * @param error The caught error
+ * @param message Message describing the failed operation
+ */
+export function toErrorResponse(error: unknown, message: string): ApiFailure {
+  const cause = error instanceof Error ? error.message : String(error);
+  return createErrorResponse(
+    getErrorCode(error),
+    message,
+    isValidationError(error) ? { cause, issues: error.issues } : { cause }
+  );
+}
+
+/**
+ * Convert the body of an endpoint that wraps its payload (`{ data, error, meta }`)
+ * into an API response
+ * @param body Response body
+ * @param message Message used when the body carries neither data nor an error
+ * @param emptyData Data of a successful response for endpoints that may send no data, e.g. `true`
+ * @returns The envelope's data and pagination metadata, or its error
+ */
+export function fromApiEnvelope<T>(body: unknown, message: string, emptyData?: T): ApiResponse<T> {
+  const envelope: ApiEnvelope<T> = typeof body === 'object' && body !== null ? body : {};
+  if (envelope.error) {
+    return createErrorResponse(envelope.error.code, envelope.error.message);
+  }
+
+  const data = envelope.data !== undefined ? envelope.data : emptyData;
+  if (data === undefined) {
+    return createErrorResponse('EMPTY_RESPONSE', message);
+  }
+  return createSuccessResponse(data, envelope.meta);
+}
+
+/**
+ * Check whether an API response succeeded
+ */
+export function isSuccessResponse<T>(response: ApiResponse<T>): response is ApiSuccess<T> {
+  return response.success;
+}
+
+/**
+ * Check whether an API response failed
+ */
+export function isErrorResponse<T>(response: ApiResponse<T>): response is ApiFailure {
+  return !response.success;
+}
+
+/**
+ * Transform the data of a successful response, passing failures through
+ * @param response Response to transform
+ * @param fn Function applied to the data
+ */
+export function mapResponse<T, U>(response: ApiResponse<T>, fn: (data: T) => U): ApiResponse<U> {
+  return response.success
+    ? { ...response, data: fn(response.data) }
+    : response;
+}
+
+/**
+ * Chain another API call onto a successful response, passing failures through
+ * @param response Response to chain from
+ * @param fn Function returning the next response (or a promise of one)
+ */
+export async function chainResponse<T, U>(
+  response: ApiResponse<T>,
+  fn: (data: T) => ApiResponse<U> | Promise<ApiResponse<U>>
+): Promise<ApiResponse<U>> {
+  return response.success ? fn(response.data) : response;
+}
+
+/**
+ * Get the data from a response, throwing if it failed
+ * @param response Response to unwrap
+ * @returns The response data
+ * @throws Error with the API error code and details attached
+ */
+export function unwrapResponse<T>(response: ApiResponse<T>): T {
+  if (response.success) {
+    return response.data;
+  }
+
+  const error = new Error(response.error.message) as Error & ApiError;
+  error.code = response.error.code;
+  error.details = response.error.details;
+  throw error;
+}
+
+/**
+ * Get the data from a response, or a fallback value if it failed
+ * @param response Response to unwrap
+ * @param fallback Value returned for failed responses
+ */
+export function unwrapResponseOr<T>(response: ApiResponse<T>, fallback: T): T {
+  return response.success ? response.data : fallback;
+}
@@ -5,76 +5,300 @@
  * including dimensions, features, manufacturer, and model information.
  */
 
+import {
+  DistanceUnit,
+  GeoPoint,
+  MeasurementUnit,
+  SimilarityBreakdown,
+  SimilarityComponent,
+  SimilarityComponentScore
+} from '@igorganapolsky/boats-types';
 import { Boat } from '../types';
-import { calculateJaccardSimilarity, calculateStringSimilarity } from './similarity.utils';
+import { calculateJaccardSimilarity, calculateStringSimilarity, StringSimilarityMetric } from './similarity.utils';
+import { formatLength, getBoatLength, getBoatWeight } from './units.utils';
+import { calculatePropulsionSimilarity, formatPropulsion } from './propulsion.utils';
+import { filterBoatsByRadius } from './geo.utils';
+import { calculateBoatTypeSimilarity, getBoatType, getBoatTypeCategory, getBoatTypeLabel } from './boat-type.utils';
+import { getBoatPrice, getBoatPriceIn } from './money.utils';
+import { calculateFeatureSimilarity, findSharedFeatures, normalizeTags } from './feature.utils';
+import {
+  resolveSimilarityProfile,
+  SimilarityProfile,
+  SimilarityProfileInput
+} from './similarity-profile.utils';
+import { createTranslator, Translator } from './i18n.utils';
 
 /**
- * Calculate similarity score between two boats
- * @param boat1 First boat to compare
- * @param boat2 Second boat to compare
- * @returns A similarity score between 0 and 1
+ * Additional options for finding similar boats
  */
-export function calculateBoatSimilarity(boat1: Boat, boat2: Boat): number {
-  // Define weights for different comparison attributes
-  const weights = {
-    manufacturer: 0.15,
-    model: 0.20,
-    year: 0.05,
-    dimensions: 0.15,
-    features: 0.25,
-    category: 0.20
-  };
-  
-  // Calculate similarity for each component
-  let totalScore = 0;
-  let totalWeight = 0;
-  
+export interface FindSimilarBoatsOptions {
+  /** Only consider boats within `radius` of this point */
+  near?: GeoPoint;
+  /** Maximum distance from `near` (default: 100) */
+  radius?: number;
+  /** Unit of `radius` (default: 'km') */
+  distanceUnit?: DistanceUnit;
+  /** Similarity profile name, profile or weights (default: balanced weights) */
+  profile?: SimilarityProfileInput;
+  /** Include a per-component breakdown with each result */
+  explain?: boolean;
+}
+
+/**
+ * A boat matched by findSimilarBoats
+ */
+export interface SimilarBoatMatch {
+  boat: Boat;
+  similarityScore: number;
+  /** Why the boat matched, when requested with the `explain` option */
+  breakdown?: SimilarityBreakdown;
+}
+
+/**
+ * Scores one attribute of two boats
+ * @returns Similarity between 0 and 1, or null if the attribute can't be compared
+ */
+type ComponentScorer = (boat1: Boat, boat2: Boat, profile: SimilarityProfile) => number | null;
+
+/**
+ * How each similarity component is scored
+ */
+const COMPONENT_SCORERS: Record<SimilarityComponent, ComponentScorer> = {
   // Manufacturer similarity
-  if (boat1.manufacturer && boat2.manufacturer) {
-    const manufacturerScore = calculateStringSimilarity(boat1.manufacturer, boat2.manufacturer);
-    totalScore += manufacturerScore * weights.manufacturer;
-    totalWeight += weights.manufacturer;
-  }
+  manufacturer: (boat1, boat2, profile) =>
+    boat1.manufacturer && boat2.manufacturer
+      ? calculateStringSimilarity(boat1.manufacturer, boat2.manufacturer, { metric: profile.stringMetric })
+      : null,
   
   // Model similarity
-  if (boat1.model && boat2.model) {
-    const modelScore = calculateStringSimilarity(boat1.model, boat2.model);
-    totalScore += modelScore * weights.model;
-    totalWeight += weights.model;
-  }
+  model: (boat1, boat2, profile) =>
+    boat1.model && boat2.model
+      ? calculateStringSimilarity(boat1.model, boat2.model, { metric: profile.stringMetric })
+      : null,
   
   // Year similarity (normalized difference)
-  if (boat1.year && boat2.year) {
+  year: (boat1, boat2) => {
+    if (!boat1.year || !boat2.year) return null;
     // Consider boats within 5 years to be potentially similar
     const yearDiff = Math.abs(boat1.year - boat2.year);
-    const yearScore = Math.max(0, 1 - yearDiff / 5);
-    totalScore += yearScore * weights.year;
-    totalWeight += weights.year;
-  }
+    return Math.max(0, 1 - yearDiff / 5);
+  },
   
   // Dimension similarity
-  const dimensionScore = calculateDimensionSimilarity(boat1, boat2);
-  if (dimensionScore !== null) {
-    totalScore += dimensionScore * weights.dimensions;
-    totalWeight += weights.dimensions;
-  }
+  dimensions: (boat1, boat2) => calculateDimensionSimilarity(boat1, boat2),
+  
+  // Propulsion similarity (horsepower, engine hours, drive type)
+  propulsion: (boat1, boat2) => calculatePropulsionSimilarity(boat1, boat2),
   
   // Feature similarity
-  if (boat1.features && boat2.features) {
-    const featureScore = calculateJaccardSimilarity(boat1.features, boat2.features);
-    totalScore += featureScore * weights.features;
-    totalWeight += weights.features;
-  }
+  features: (boat1, boat2) =>
+    boat1.features && boat2.features ? calculateFeatureSimilarity(boat1.features, boat2.features) : null,
   
-  // Category tags similarity
-  if (boat1.categoryTags && boat2.categoryTags) {
-    const categoryScore = calculateJaccardSimilarity(boat1.categoryTags, boat2.categoryTags);
-    totalScore += categoryScore * weights.category;
-    totalWeight += weights.category;
-  }
+  // Category similarity, preferring the canonical boat type over free-form tags
+  category: (boat1, boat2) => {
+    const type1 = getBoatType(boat1);
+    const type2 = getBoatType(boat2);
+    if (type1 && type2) {
+      return calculateBoatTypeSimilarity(type1, type2);
+    }
+    if (boat1.categoryTags && boat2.categoryTags) {
+      return calculateJaccardSimilarity(normalizeTags(boat1.categoryTags), normalizeTags(boat2.categoryTags));
+    }
+    return null;
+  },
+  
+  // Price similarity in a common currency
+  price: (boat1, boat2) => calculatePriceSimilarity(boat1, boat2)
+};
+
+/**
+ * Describes one attribute comparison for people
+ */
+type ComponentDescriber = (
+  boat1: Boat,
+  boat2: Boat,
+  score: number | null,
+  i18n: Translator,
+  unit: MeasurementUnit
+) => string;
+
+const percent = (value: number): number => Math.round(value * 100);
+
+/**
+ * Human readable reasons for each similarity component
+ */
+const COMPONENT_REASONS: Record<SimilarityComponent, ComponentDescriber> = {
+  manufacturer: (boat1, boat2, score, i18n) => {
+    if (score === null) return i18n.t('similarity.manufacturer.unknown');
+    return i18n.t(score >= 0.9 ? 'similarity.manufacturer.same' : 'similarity.manufacturer.different', {
+      manufacturer1: boat1.manufacturer,
+      manufacturer2: boat2.manufacturer
+    });
+  },
+  
+  model: (boat1, boat2, score, i18n) => {
+    if (score === null) return i18n.t('similarity.model.unknown');
+    return i18n.t(score >= 0.9 ? 'similarity.model.same' : 'similarity.model.different', {
+      model1: boat1.model,
+      model2: boat2.model
+    });
+  },
+  
+  year: (boat1, boat2, score, i18n) => {
+    if (score === null) return i18n.t('similarity.year.unknown');
+    const yearDiff = Math.abs(boat1.year! - boat2.year!);
+    return i18n.t(yearDiff === 0 ? 'similarity.year.same' : 'similarity.year.different', {
+      count: yearDiff,
+      year1: boat1.year,
+      year2: boat2.year
+    });
+  },
+  
+  dimensions: (boat1, boat2, score, i18n, unit) => {
+    if (score === null) return i18n.t('similarity.dimensions.unknown');
+    return i18n.t(score >= 0.9 ? 'similarity.dimensions.same' : 'similarity.dimensions.different', {
+      percent: percent(score),
+      length1: formatLength(getBoatLength(boat1, 'length'), unit, i18n.locale),
+      length2: formatLength(getBoatLength(boat2, 'length'), unit, i18n.locale)
+    });
+  },
   
+  propulsion: (boat1, boat2, score, i18n) => {
+    if (score === null) return i18n.t('similarity.propulsion.unknown');
+    return i18n.t(score >= 0.9 ? 'similarity.propulsion.same' : 'similarity.propulsion.different', {
+      engines1: formatPropulsion(boat1, i18n),
+      engines2: formatPropulsion(boat2, i18n)
+    });
+  },
+  
+  features: (boat1, boat2, score, i18n) => {
+    if (score === null) return i18n.t('similarity.features.unknown');
+    const shared = findSharedFeatures(boat1.features, boat2.features);
+    if (shared.length === 0) return i18n.t('similarity.features.none');
+    const examples = shared.slice(0, 3).join(i18n.t('list.separator'));
+    return i18n.t('similarity.features.shared', {
+      count: shared.length,
+      examples: shared.length > 3 ? `${examples}${i18n.t('list.separator')}…` : examples
+    });
+  },
+  
+  category: (boat1, boat2, score, i18n) => {
+    if (score === null) return i18n.t('similarity.category.unknown');
+    const type1 = getBoatType(boat1);
+    const type2 = getBoatType(boat2);
+    if (!type1 || !type2) return i18n.t('similarity.category.tags', { percent: percent(score) });
+    const params = {
+      type1: getBoatTypeLabel(type1),
+      type2: getBoatTypeLabel(type2),
+      category: getBoatTypeCategory(type1)
+    };
+    if (type1 === type2) return i18n.t('similarity.category.same', params);
+    return getBoatTypeCategory(type1) === getBoatTypeCategory(type2)
+      ? i18n.t('similarity.category.sameCategory', params)
+      : i18n.t('similarity.category.different', params);
+  },
+  
+  price: (boat1, boat2, score, i18n) => {
+    if (score === null) return i18n.t('similarity.price.unknown');
+    const price1 = getBoatPrice(boat1);
+    const price2 = price1 ? getBoatPriceIn(boat2, price1.currency) : undefined;
+    return i18n.t('similarity.price.compared', {
+      percent: percent(score),
+      price1: i18n.formatMoney(price1),
+      price2: i18n.formatMoney(price2)
+    });
+  }
+};
+
+/**
+ * Score every weighted component of two boats
+ */
+function scoreComponents(
+  boat1: Boat,
+  boat2: Boat,
+  profile: SimilarityProfile
+): Array<{ component: SimilarityComponent; weight: number; score: number | null }> {
+  const { weights } = profile;
+  return (Object.keys(weights) as SimilarityComponent[])
+    .filter(component => (weights[component] || 0) > 0)
+    .map(component => ({
+      component,
+      weight: weights[component]!,
+      score: COMPONENT_SCORERS[component](boat1, boat2, profile)
+    }));
+}
+
+/**
+ * Combine weighted scores into one, leaving out scores that couldn't be measured
+ * Shared by boat similarity and requirement matching.
+ * @param scored Weight and score (0-1, or null when unknown) of each component
+ * @returns Weighted average between 0 and 1, and each component's share of it
+ */
+export function combineWeightedScores(
+  scored: Array<{ weight: number; score: number | null }>
+): { score: number; contributions: number[] } {
   // Normalize by the total weight of applicable comparisons
-  return totalWeight > 0 ? totalScore / totalWeight : 0;
+  const totalWeight = scored.reduce((sum, { weight, score }) => sum + (score !== null ? weight : 0), 0);
+  const contributions = scored.map(({ weight, score }) =>
+    score !== null && totalWeight > 0 ? (score * weight) / totalWeight : 0
+  );
+  return {
+    score: Math.min(1, contributions.reduce((sum, contribution) => sum + contribution, 0)),
+    contributions
+  };
+}
+
+/**
+ * Calculate similarity score between two boats
+ * @param boat1 First boat to compare
+ * @param boat2 Second boat to compare
+ * @param profile Similarity profile name, profile or weights (default: balanced weights)
+ * @returns A similarity score between 0 and 1
+ */
+export function calculateBoatSimilarity(boat1: Boat, boat2: Boat, profile?: SimilarityProfileInput): number {
+  const resolved = resolveSimilarityProfile(profile);
+  
+  // Calculate similarity for each weighted component
+  return combineWeightedScores(scoreComponents(boat1, boat2, resolved)).score;
+}
+
+/**
+ * Calculate similarity between two boats and explain how each attribute contributed
+ * Components that can't be compared are reported with `applied: false`
+ * instead of being silently skipped
+ * @param boat1 First boat to compare
+ * @param boat2 Second boat to compare
+ * @param profile Similarity profile name, profile or weights (default: balanced weights)
+ * @param locale Locale of the reasons (default: English)
+ * @param measurementUnit Measurement system of dimensions in the reasons (default: 'imperial')
+ * @returns The overall score with a per-component breakdown
+ */
+export function explainBoatSimilarity(
+  boat1: Boat,
+  boat2: Boat,
+  profile?: SimilarityProfileInput,
+  locale?: string,
+  measurementUnit: MeasurementUnit = 'imperial'
+): SimilarityBreakdown {
+  const resolved = resolveSimilarityProfile(profile);
+  const i18n = createTranslator(locale);
+  const scored = scoreComponents(boat1, boat2, resolved);
+  const { score, contributions } = combineWeightedScores(scored);
+  
+  const components: SimilarityComponentScore[] = scored.map(({ component, weight, score }, index) => ({
+    component,
+    score,
+    weight,
+    applied: score !== null,
+    contribution: contributions[index],
+    reason: COMPONENT_REASONS[component](boat1, boat2, score, i18n, measurementUnit)
+  }));
+  
+  return {
+    score,
+    profile: resolved.name,
+    components
+  };
 }
 
 /**
@@ -88,62 +312,81 @@ function calculateDimensionSimilarity(boat1: Boat, boat2: Boat): number | null {
   let comparableDimensions = 0;
   let totalDimensionScore = 0;
   
-  // Compare length
-  if (boat1.length && boat2.length) {
-    const lengthRatio = Math.min(boat1.length, boat2.length) / Math.max(boat1.length, boat2.length);
-    totalDimensionScore += lengthRatio;
-    comparableDimensions++;
-  }
-  
-  // Compare beam
-  if (boat1.beam && boat2.beam) {
-    const beamRatio = Math.min(boat1.beam, boat2.beam) / Math.max(boat1.beam, boat2.beam);
-    totalDimensionScore += beamRatio;
-    comparableDimensions++;
-  }
+  // Normalize to imperial units so boats listed in different systems compare correctly
+  const pairs: Array<[number | undefined, number | undefined]> = [
+    [getBoatLength(boat1, 'length', 'ft')?.value, getBoatLength(boat2, 'length', 'ft')?.value],
+    [getBoatLength(boat1, 'beam', 'ft')?.value, getBoatLength(boat2, 'beam', 'ft')?.value],
+    [getBoatLength(boat1, 'draft', 'ft')?.value, getBoatLength(boat2, 'draft', 'ft')?.value],
+    [getBoatWeight(boat1, 'lb')?.value, getBoatWeight(boat2, 'lb')?.value]
+  ];
   
-  // Compare draft
-  if (boat1.draft && boat2.draft) {
-    const draftRatio = Math.min(boat1.draft, boat2.draft) / Math.max(boat1.draft, boat2.draft);
-    totalDimensionScore += draftRatio;
-    comparableDimensions++;
-  }
-  
-  // Compare weight
-  if (boat1.weight && boat2.weight) {
-    const weightRatio = Math.min(boat1.weight, boat2.weight) / Math.max(boat1.weight, boat2.weight);
-    totalDimensionScore += weightRatio;
-    comparableDimensions++;
-  }
+  pairs.forEach(([value1, value2]) => {
+    if (value1 && value2) {
+      totalDimensionScore += Math.min(value1, value2) / Math.max(value1, value2);
+      comparableDimensions++;
+    }
+  });
   
   return comparableDimensions > 0 ? totalDimensionScore / comparableDimensions : null;
 }
 
+/**
+ * Calculate similarity based on asking price
+ * Prices are converted to the first boat's currency before comparing
+ * @param boat1 First boat
+ * @param boat2 Second boat
+ * @returns Ratio of the lower to the higher price, or null if prices can't be compared
+ */
+function calculatePriceSimilarity(boat1: Boat, boat2: Boat): number | null {
+  const price1 = getBoatPrice(boat1);
+  const price2 = price1 ? getBoatPriceIn(boat2, price1.currency)?.amount : undefined;
+  if (!price1 || !price1.amount || !price2) return null;
+  return Math.min(price1.amount, price2) / Math.max(price1.amount, price2);
+}
+
 /**
  * Find similar boats in a dataset based on a reference boat
  * @param referenceBoat The boat to find similar matches for
  * @param boatDataset Array of boats to search through
  * @param similarityThreshold Minimum similarity score (0-1) to consider as a match
  * @param limit Maximum number of similar boats to return
- * @returns Array of similar boats with their similarity scores
+ * @param options Optional proximity restriction and similarity profile
+ * @returns Array of similar boats with their similarity scores and optional breakdowns
  */
 export function findSimilarBoats(
   referenceBoat: Boat,
   boatDataset: Boat[],
   similarityThreshold: number = 0.7,
-  limit: number = 10
-): Array<{ boat: Boat; similarityScore: number }> {
+  limit: number = 10,
+  options: FindSimilarBoatsOptions = {}
+): SimilarBoatMatch[] {
+  // Restrict to nearby boats when a location is given
+  const candidates = options.near
+    ? filterBoatsByRadius(boatDataset, options.near, options.radius ?? 100, options.distanceUnit)
+    : boatDataset;
+  
+  // Resolve the profile once rather than per candidate
+  const profile = resolveSimilarityProfile(options.profile);
+  
   // Calculate similarity for each boat in the dataset
-  const similarityResults = boatDataset
+  const similarityResults = candidates
     .filter(boat => boat.id !== referenceBoat.id) // Exclude the reference boat itself
     .map(boat => ({
       boat,
-      similarityScore: calculateBoatSimilarity(referenceBoat, boat)
+      similarityScore: calculateBoatSimilarity(referenceBoat, boat, profile)
     }))
     .filter(result => result.similarityScore >= similarityThreshold)
     .sort((a, b) => b.similarityScore - a.similarityScore)
     .slice(0, limit);
   
+  // Only explain the matches that are returned
+  if (options.explain) {
+    return similarityResults.map(result => ({
+      ...result,
+      breakdown: explainBoatSimilarity(referenceBoat, result.boat, profile)
+    }));
+  }
+  
   return similarityResults;
 }
 
@@ -152,18 +395,20 @@ export function findSimilarBoats(
  * @param modelQuery Search query for the model
  * @param boats Array of boats to search through
  * @param threshold Minimum similarity threshold (0-1)
+ * @param metric String similarity algorithm (default: 'levenshtein'; use 'token-set' to ignore word order)
  * @returns Matched boats sorted by relevance
  */
 export function findBoatsByModel(
   modelQuery: string,
   boats: Boat[],
-  threshold: number = 0.7
+  threshold: number = 0.7,
+  metric: StringSimilarityMetric = 'levenshtein'
 ): Array<{ boat: Boat; relevance: number }> {
   return boats
     .filter(boat => boat.model)
     .map(boat => ({
       boat,
-      relevance: calculateStringSimilarity(modelQuery, boat.model || '')
+      relevance: calculateStringSimilarity(modelQuery, boat.model || '', { metric, threshold })
     }))
     .filter(result => result.relevance >= threshold)
     .sort((a, b) => b.relevance - a.relevance);
@@ -174,18 +419,20 @@ export function findBoatsByModel(
  * @param manufacturerQuery Search query for the manufacturer
  * @param boats Array of boats to search through
  * @param threshold Minimum similarity threshold (0-1)
+ * @param metric String similarity algorithm (default: 'levenshtein'; use 'token-set' to ignore word order)
  * @returns Matched boats sorted by relevance
  */
 export function findBoatsByManufacturer(
   manufacturerQuery: string,
   boats: Boat[],
-  threshold: number = 0.7
+  threshold: number = 0.7,
+  metric: StringSimilarityMetric = 'levenshtein'
 ): Array<{ boat: Boat; relevance: number }> {
   return boats
     .filter(boat => boat.manufacturer)
     .map(boat => ({
       boat,
-      relevance: calculateStringSimilarity(manufacturerQuery, boat.manufacturer || '')
+      relevance: calculateStringSimilarity(manufacturerQuery, boat.manufacturer || '', { metric, threshold })
     }))
     .filter(result => result.relevance >= threshold)
     .sort((a, b) => b.relevance - a.relevance);
@@ -0,0 +1,261 @@
+/**
+ * Boat type taxonomy utilities
+ * The canonical vocabulary of boat types shared by image analysis, search
+ * and similarity, with helpers for normalizing free-form type descriptions
+ */
+
+import { BoatCategory, BoatType, BoatTypeDefinition } from '@igorganapolsky/boats-types';
+import { Boat } from '../types';
+
+/**
+ * Canonical boat types grouped by category
+ */
+export const BOAT_TYPE_TAXONOMY: Record<BoatType, BoatTypeDefinition> = {
+  'center-console': {
+    id: 'center-console',
+    category: 'power',
+    label: 'Center Console',
+    aliases: ['center console', 'centre console', 'bay boat', 'flats boat']
+  },
+  'bowrider': {
+    id: 'bowrider',
+    category: 'power',
+    label: 'Bowrider',
+    aliases: ['bow rider', 'open bow']
+  },
+  'deck-boat': {
+    id: 'deck-boat',
+    category: 'power',
+    label: 'Deck Boat',
+    aliases: ['deck boat', 'deckboat']
+  },
+  'pontoon': {
+    id: 'pontoon',
+    category: 'power',
+    label: 'Pontoon',
+    aliases: ['pontoon boat', 'tritoon', 'party barge']
+  },
+  'runabout': {
+    id: 'runabout',
+    category: 'power',
+    label: 'Runabout',
+    aliases: ['motorboat', 'motor boat', 'speedboat', 'speed boat', 'powerboat', 'power boat', 'jet boat']
+  },
+  'ski-wake': {
+    id: 'ski-wake',
+    category: 'power',
+    label: 'Ski and Wake',
+    aliases: ['ski boat', 'wake boat', 'wakeboard boat', 'ski and wake', 'surf boat']
+  },
+  'bass-boat': {
+    id: 'bass-boat',
+    category: 'power',
+    label: 'Bass Boat',
+    aliases: ['bass boat']
+  },
+  'jon-boat': {
+    id: 'jon-boat',
+    category: 'power',
+    label: 'Jon Boat',
+    aliases: ['jon boat', 'john boat', 'utility boat', 'skiff']
+  },
+  'walkaround': {
+    id: 'walkaround',
+    category: 'power',
+    label: 'Walkaround',
+    aliases: ['walk around', 'walkaround cuddy', 'cuddy cabin', 'cuddy']
+  },
+  'express-cruiser': {
+    id: 'express-cruiser',
+    category: 'power',
+    label: 'Express Cruiser',
+    aliases: ['express cruiser', 'cruiser', 'cabin cruiser', 'sport cruiser']
+  },
+  'sport-fisherman': {
+    id: 'sport-fisherman',
+    category: 'power',
+    label: 'Sport Fisherman',
+    aliases: ['sport fisherman', 'sportfish', 'sportfisherman', 'sport fishing', 'convertible', 'fishing boat']
+  },
+  'trawler': {
+    id: 'trawler',
+    category: 'power',
+    label: 'Trawler',
+    aliases: ['trawler yacht', 'downeast', 'lobster boat']
+  },
+  'motor-yacht': {
+    id: 'motor-yacht',
+    category: 'power',
+    label: 'Motor Yacht',
+    aliases: ['motor yacht', 'motoryacht', 'yacht', 'flybridge', 'superyacht', 'mega yacht']
+  },
+  'power-catamaran': {
+    id: 'power-catamaran',
+    category: 'power',
+    label: 'Power Catamaran',
+    aliases: ['power catamaran', 'power cat', 'motor catamaran']
+  },
+  'daysailer': {
+    id: 'daysailer',
+    category: 'sail',
+    label: 'Daysailer',
+    aliases: ['day sailer', 'daysailor', 'dinghy', 'sailing dinghy']
+  },
+  'cruising-sailboat': {
+    id: 'cruising-sailboat',
+    category: 'sail',
+    label: 'Cruising Sailboat',
+    aliases: ['cruising sailboat', 'sailboat', 'sail boat', 'sailing yacht', 'sloop', 'ketch', 'cutter', 'yawl', 'cruiser racer']
+  },
+  'racing-sailboat': {
+    id: 'racing-sailboat',
+    category: 'sail',
+    label: 'Racing Sailboat',
+    aliases: ['racing sailboat', 'racer', 'racing yacht', 'performance sailboat']
+  },
+  'sailing-catamaran': {
+    id: 'sailing-catamaran',
+    category: 'sail',
+    label: 'Sailing Catamaran',
+    aliases: ['sailing catamaran', 'catamaran']
+  },
+  'trimaran': {
+    id: 'trimaran',
+    category: 'sail',
+    label: 'Trimaran',
+    aliases: ['trimaran sailboat']
+  },
+  'personal-watercraft': {
+    id: 'personal-watercraft',
+    category: 'pwc',
+    label: 'Personal Watercraft',
+    aliases: ['pwc', 'jet ski', 'jetski', 'waverunner', 'wave runner', 'sea-doo', 'seadoo']
+  }
+};
+
+/**
+ * All canonical boat type identifiers
+ */
+export const BOAT_TYPES = Object.keys(BOAT_TYPE_TAXONOMY) as BoatType[];
+
+/**
+ * All boat categories
+ */
+export const BOAT_CATEGORIES: BoatCategory[] = ['power', 'sail', 'pwc'];
+
+/**
+ * Lower-case, trim and collapse punctuation so "Center-Console" and
+ * "center console" compare equal
+ */
+function normalizeTypeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Lookup from every id, label and alias to its canonical type
+ */
+const TYPE_LOOKUP: Map<string, BoatType> = new Map(
+  BOAT_TYPES.flatMap(id => {
+    const { label, aliases } = BOAT_TYPE_TAXONOMY[id];
+    return [id, label, ...aliases].map(name => [normalizeTypeText(name), id] as [string, BoatType]);
+  })
+);
+
+/**
+ * Names sorted longest first, so "power catamaran" wins over "catamaran" in free text
+ */
+const NAMES_BY_LENGTH = [...TYPE_LOOKUP.keys()].sort((a, b) => b.length - a.length);
+
+/**
+ * Normalize a boat type name to its canonical type
+ * Accepts canonical ids, labels and known aliases, ignoring case, punctuation and plurals
+ * @param type Boat type name, e.g. "Center Console" or "sail boats"
+ * @returns Canonical boat type, or undefined if the name is not recognized
+ */
+export function normalizeBoatType(type: string): BoatType | undefined {
+  const text = normalizeTypeText(type);
+  if (!text) return undefined;
+  return TYPE_LOOKUP.get(text) ?? TYPE_LOOKUP.get(text.replace(/s$/, ''));
+}
+
+/**
+ * Find the first boat type mentioned in free text such as an image analysis
+ * Prefers the most specific (longest) matching name
+ * @param text Text to search
+ * @returns Canonical boat type, or undefined if no known type is mentioned
+ */
+export function detectBoatType(text: string): BoatType | undefined {
+  const normalized = ` ${normalizeTypeText(text)} `;
+  const name = NAMES_BY_LENGTH.find(candidate =>
+    normalized.includes(` ${candidate} `) || normalized.includes(` ${candidate}s `)
+  );
+  return name ? TYPE_LOOKUP.get(name) : undefined;
+}
+
+/**
+ * Canonicalize the boatType of a payload that names its type in free text,
+ * such as a boat or image analysis received from the API
+ * Unrecognized types are dropped so one free-text type doesn't fail validation of the whole payload
+ * @param value Payload to canonicalize; values that aren't objects are returned unchanged
+ * @returns A copy of the payload with a canonical boatType, or undefined if the type is not recognized
+ */
+export function canonicalizeBoatTypeField(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return value;
+  const payload = value as Record<string, unknown>;
+  if (payload.boatType === undefined) return value;
+  const boatType = typeof payload.boatType === 'string'
+    ? normalizeBoatType(payload.boatType) ?? detectBoatType(payload.boatType)
+    : undefined;
+  return { ...payload, boatType };
+}
+
+/**
+ * Check whether a string is a canonical boat type identifier
+ */
+export function isBoatType(value: string): value is BoatType {
+  return Object.prototype.hasOwnProperty.call(BOAT_TYPE_TAXONOMY, value);
+}
+
+/**
+ * Get the category of a boat type
+ */
+export function getBoatTypeCategory(type: BoatType): BoatCategory {
+  return BOAT_TYPE_TAXONOMY[type].category;
+}
+
+/**
+ * Get the display label of a boat type
+ */
+export function getBoatTypeLabel(type: BoatType): string {
+  return BOAT_TYPE_TAXONOMY[type].label;
+}
+
+/**
+ * Get all boat types in a category
+ */
+export function getBoatTypesInCategory(category: BoatCategory): BoatType[] {
+  return BOAT_TYPES.filter(type => BOAT_TYPE_TAXONOMY[type].category === category);
+}
+
+/**
+ * Get the canonical type of a boat
+ * Falls back to the first category tag that names a known type
+ * @returns Canonical boat type, or undefined if the boat does not describe its type
+ */
+export function getBoatType(boat: Boat): BoatType | undefined {
+  if (boat.boatType) return boat.boatType;
+  for (const tag of boat.categoryTags || []) {
+    const type = normalizeBoatType(tag);
+    if (type) return type;
+  }
+  return undefined;
+}
+
+/**
+ * Score how similar two boat types are
+ * @returns 1 for the same type, 0.5 for types in the same category, 0 otherwise
+ */
+export function calculateBoatTypeSimilarity(type1: BoatType, type2: BoatType): number {
+  if (type1 === type2) return 1;
+  return getBoatTypeCategory(type1) === getBoatTypeCategory(type2) ? 0.5 : 0;
+}
@@ -1,7 +1,9 @@
-import { Boat, normalizeBoatType } from '../models/boat';
+import { Boat } from '../types';
+import { calculateBoatTypeSimilarity, getBoatType } from './boat-type.utils';
 
 /**
  * Configuration for boat similarity calculation
+ * @deprecated Use `calculateBoatSimilarity` from boat-matching.utils with a similarity profile
  */
 export interface BoatMatchingConfig {
   /** Weight for type matching (default: 0.35) */
@@ -61,25 +63,18 @@ export const calculateBoatSimilarity = (
   let similarity = 0;
   let scoreBreakdown: Record<string, number> = {};
   
-  // Type matching
-  const normalizedType1 = normalizeBoatType(boat1.type || '');
-  const normalizedType2 = normalizeBoatType(boat2.type || '');
-  
-  if (normalizedType1 === normalizedType2) {
-    // Exact normalized type match
-    similarity += weights.typeWeight;
-    scoreBreakdown.typeScore = weights.typeWeight;
-  } else if (
-    (normalizedType1.includes('power') && normalizedType2.includes('power')) ||
-    (normalizedType1.includes('sail') && normalizedType2.includes('sail')) ||
-    (normalizedType1.includes('jet') && normalizedType2.includes('jet')) ||
-    (normalizedType1.includes('cabin') && normalizedType2.includes('cabin'))
-  ) {
-    // Partial match in boat family
-    similarity += weights.typeWeight / 2;
-    scoreBreakdown.typeScore = weights.typeWeight / 2;
+  // Type matching (full score for the same type, half for the same category)
+  const type1 = getBoatType(boat1);
+  const type2 = getBoatType(boat2);
+  
+  if (type1 && type2) {
+    const typeScore = calculateBoatTypeSimilarity(type1, type2) * weights.typeWeight;
+    similarity += typeScore;
+    scoreBreakdown.typeScore = typeScore;
   } else {
-    scoreBreakdown.typeScore = 0;
+    // If type info is missing, add a partial score
+    similarity += weights.typeWeight / 3;
+    scoreBreakdown.typeScore = weights.typeWeight / 3;
   }
   
   // Length matching (more forgiving for small differences)
@@ -140,10 +135,10 @@ export const calculateBoatSimilarity = (
     scoreBreakdown.engineTypeScore = weights.engineTypeWeight / 3;
   }
   
-  // Hull material matching
-  if (boat1.hullMaterial && boat2.hullMaterial) {
-    const hullMaterial1 = boat1.hullMaterial.toLowerCase();
-    const hullMaterial2 = boat2.hullMaterial.toLowerCase();
+  // Hull matching (the shared Boat model records hull construction as hullType)
+  if (boat1.hullType && boat2.hullType) {
+    const hullMaterial1 = boat1.hullType.toLowerCase();
+    const hullMaterial2 = boat2.hullType.toLowerCase();
     
     if (hullMaterial1 === hullMaterial2) {
       similarity += weights.hullMaterialWeight;
@@ -0,0 +1,641 @@
+/**
+ * Comparison attribute catalog
+ * Declares which boat attributes are compared, how close two values must be
+ * to count as similar, which direction is better, and how values are labelled
+ * and displayed. The catalog drives the similarities, differences and spec
+ * table of every comparison, and Boat fields it doesn't cover are compared
+ * with sensible defaults.
+ *
+ * Phrases come from the message catalogs: `attribute.<id>.same`, `.similar`,
+ * `.different` and `.best` describe an attribute, and `attribute.<id>.label`
+ * translates its label.
+ */
+
+import {
+  ComparisonPreference,
+  CurrencyCode,
+  MeasurementUnit,
+  PriceAssessment,
+  SpecMatrixRow
+} from '@igorganapolsky/boats-types';
+import { Boat } from '../types';
+import {
+  formatLength,
+  formatVolume,
+  formatWeight,
+  getBoatLength,
+  getBoatVolume,
+  getBoatWeight,
+  MEASUREMENT_UNITS
+} from './units.utils';
+import {
+  formatPropulsion,
+  getBoatPropulsion,
+  getDriveType,
+  getEngineCount,
+  getEngineFuelType,
+  getEngineHours,
+  getTotalHorsepower
+} from './propulsion.utils';
+import { getDaysOnMarket, getPriceDropPercentage, isRecentlyReduced } from './listing.utils';
+import { createMoney, getBoatPrice, getBoatPriceIn } from './money.utils';
+import { canonicalizeFeatures, findSharedFeatures, findUniqueFeatures } from './feature.utils';
+import { getBoatType, getBoatTypeLabel } from './boat-type.utils';
+import { MessageParams, Translator } from './i18n.utils';
+
+/**
+ * Display preferences and shared data for comparing boats
+ */
+export interface ComparisonContext {
+  measurementUnit: MeasurementUnit;
+  /** Currency prices are compared in */
+  currency: CurrencyCode;
+  /** Whether prices in another currency also show the amount converted to `currency` */
+  showConvertedPrices: boolean;
+  /** Messages and number formatting of the comparison's locale */
+  i18n: Translator;
+  /** Fair price assessment by boat id, when market data was supplied */
+  priceAssessments?: Map<string, PriceAssessment | null>;
+}
+
+/**
+ * Value of a boat attribute; numbers are compared with a tolerance, text case-insensitively
+ */
+export type ComparisonValue = number | string;
+
+/**
+ * How far apart two numeric values may be and still count as similar
+ * The larger of the two allowances applies; without either, values must be equal.
+ */
+export interface ComparisonTolerance {
+  /** Allowed difference as a fraction of the larger value */
+  relative?: number;
+  /** Allowed difference in the attribute's own units */
+  absolute?: number;
+}
+
+/**
+ * Similarities and differences found for one attribute of two boats
+ */
+export interface AttributeComparison {
+  similarities: string[];
+  differences: string[];
+}
+
+/**
+ * Declares how one attribute of a boat is compared
+ */
+export interface ComparisonAttributeDefinition {
+  /** A `ComparisonAttribute` for built-in attributes */
+  id: string;
+  /** Label used when no catalog translates `attribute.<id>.label` */
+  label: string | ((context: ComparisonContext) => string);
+  /** Boat fields the attribute covers; uncovered fields get a default attribute */
+  fields: Array<keyof Boat>;
+  /** Value of the attribute, or undefined when the boat doesn't specify it */
+  value: (boat: Boat, context: ComparisonContext) => ComparisonValue | undefined;
+  /** Display value (default: the value as is) */
+  format?: (value: ComparisonValue, boat: Boat, context: ComparisonContext) => string;
+  tolerance?: ComparisonTolerance;
+  /** Whether higher or lower values are better, for attributes with a best value */
+  preference?: ComparisonPreference;
+  /** Whether similarities and differences mention the attribute (default: true); it is always in the spec table */
+  describe?: boolean;
+  /** How the narrative describes the boat with the best value, when no catalog has `attribute.<id>.best` */
+  bestPhrase?: string;
+  /**
+   * Describe two similar values, instead of the catalog phrases
+   * Boats and values are in comparison order.
+   */
+  similarPhrase?: (boat1: Boat, boat2: Boat, value1: ComparisonValue, value2: ComparisonValue, context: ComparisonContext) => string;
+  /**
+   * Describe two different values, instead of the catalog phrases
+   * Numeric attributes get the boat with the higher value first.
+   */
+  differentPhrase?: (boat1: Boat, boat2: Boat, value1: ComparisonValue, value2: ComparisonValue, context: ComparisonContext) => string;
+  /** Replace or extend the default comparison, e.g. to list features one by one */
+  compare?: (boat1: Boat, boat2: Boat, context: ComparisonContext, defaults: AttributeComparison) => AttributeComparison;
+}
+
+/**
+ * Boat fields that identify, locate or describe a listing rather than the boat,
+ * or are read through another attribute's helpers
+ */
+const IGNORED_FIELDS: Array<keyof Boat> = [
+  'id', 'name', 'description', 'location', 'geoLocation', 'sellerId', 'categoryTags',
+  'imageUrls', 'primaryImageUrl', 'videoUrls', 'currency', 'measurementUnit',
+  'status', 'createdAt', 'updatedAt', 'listedAt', 'soldAt', 'priceHistory'
+];
+
+/**
+ * Label of an attribute in the given context
+ */
+export function getAttributeLabel(definition: ComparisonAttributeDefinition, context: ComparisonContext): string {
+  const key = `attribute.${definition.id}.label`;
+  if (context.i18n.has(key)) {
+    return context.i18n.t(key, { unit: MEASUREMENT_UNITS[context.measurementUnit].length });
+  }
+  return typeof definition.label === 'function' ? definition.label(context) : definition.label;
+}
+
+/**
+ * Display value of an attribute of a boat
+ * @returns Formatted value, or the translation of 'N/A' when the boat doesn't specify it
+ */
+export function formatAttributeValue(
+  definition: ComparisonAttributeDefinition,
+  boat: Boat,
+  context: ComparisonContext
+): string {
+  const value = definition.value(boat, context);
+  if (value === undefined) return context.i18n.t('common.notAvailable');
+  return definition.format ? definition.format(value, boat, context) : `${value}`;
+}
+
+/**
+ * Describe the boat with the best value of an attribute, for narratives
+ * @returns Sentence, or undefined when the attribute has no best-value phrase
+ */
+export function describeBestValue(
+  definition: ComparisonAttributeDefinition,
+  boat: Boat,
+  value: string,
+  context: ComparisonContext
+): string | undefined {
+  const key = `attribute.${definition.id}.best`;
+  if (context.i18n.has(key)) return context.i18n.t(key, { boat: boat.name, value });
+  return definition.bestPhrase
+    ? context.i18n.t('narrative.bestPhrase', { boat: boat.name, phrase: definition.bestPhrase, value })
+    : undefined;
+}
+
+/**
+ * Translate a value from a fixed vocabulary, e.g. 'used' under 'condition'
+ * Values without a message are shown as they are.
+ */
+function translateValue(context: ComparisonContext, vocabulary: string, value: ComparisonValue): string {
+  const key = `${vocabulary}.${`${value}`.toLowerCase()}`;
+  return context.i18n.has(key) ? context.i18n.t(key) : `${value}`;
+}
+
+/**
+ * Plural of a label that starts a sentence, e.g. "Hull Type" → "Hull types"
+ * Used by the English fallback phrases.
+ */
+function pluralLabel(label: string): string {
+  const lower = label.charAt(0) + label.slice(1).toLowerCase();
+  if (/s$/.test(lower)) return `${lower}es`;
+  if (/[^aeiou]y$/.test(lower)) return `${lower.slice(0, -1)}ies`;
+  return `${lower}s`;
+}
+
+/**
+ * Derive a display label from a field name, e.g. "hullMaterial" → "Hull Material"
+ */
+function labelFromField(field: string): string {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Whether two numeric values are within an attribute's tolerance
+ */
+function isWithinTolerance(value1: number, value2: number, tolerance: ComparisonTolerance = {}): boolean {
+  const allowed = Math.max(
+    tolerance.absolute || 0,
+    (tolerance.relative || 0) * Math.max(Math.abs(value1), Math.abs(value2))
+  );
+  return Math.abs(value1 - value2) <= allowed;
+}
+
+/**
+ * Measurement attribute for a length field
+ */
+function lengthAttribute(
+  id: 'length' | 'beam' | 'draft',
+  label: string,
+  extra: Partial<ComparisonAttributeDefinition> = {}
+): ComparisonAttributeDefinition {
+  return {
+    id,
+    label,
+    fields: [id],
+    value: (boat, context) => getBoatLength(boat, id, MEASUREMENT_UNITS[context.measurementUnit].length)?.value,
+    format: (_, boat, context) => formatLength(getBoatLength(boat, id), context.measurementUnit, context.i18n.locale),
+    tolerance: { relative: 0.1 },
+    ...extra
+  };
+}
+
+/**
+ * Measurement attribute for a volume field
+ */
+function volumeAttribute(id: 'fuelCapacity' | 'waterCapacity', label: string): ComparisonAttributeDefinition {
+  return {
+    id,
+    label,
+    fields: [id],
+    value: (boat, context) => getBoatVolume(boat, id, MEASUREMENT_UNITS[context.measurementUnit].volume)?.value,
+    format: (_, boat, context) => formatVolume(getBoatVolume(boat, id), context.measurementUnit, context.i18n.locale),
+    tolerance: { relative: 0.1 }
+  };
+}
+
+/**
+ * Format a boat's price, adding the converted amount when requested
+ */
+function formatBoatPrice(boat: Boat, context: ComparisonContext): string {
+  const price = getBoatPrice(boat);
+  const formatted = context.i18n.formatMoney(price);
+  if (!price || !context.showConvertedPrices) return formatted;
+
+  const converted = getBoatPriceIn(boat, context.currency);
+  return converted && converted.currency !== price.currency
+    ? `${formatted} (≈ ${context.i18n.formatMoney(converted)})`
+    : formatted;
+}
+
+/**
+ * Built-in attributes, in spec table order
+ */
+export const COMPARISON_ATTRIBUTES: ComparisonAttributeDefinition[] = [
+  {
+    id: 'manufacturer',
+    label: 'Manufacturer',
+    fields: ['manufacturer'],
+    value: boat => boat.manufacturer || undefined
+  },
+  {
+    id: 'model',
+    label: 'Model',
+    fields: ['model'],
+    value: boat => boat.model || undefined
+  },
+  {
+    id: 'boatType',
+    label: 'Boat Type',
+    fields: ['boatType'],
+    value: boat => getBoatType(boat),
+    format: value => getBoatTypeLabel(value as NonNullable<Boat['boatType']>)
+  },
+  {
+    id: 'year',
+    label: 'Year',
+    fields: ['year'],
+    value: boat => boat.year || undefined,
+    tolerance: { absolute: 3 },
+    preference: 'higher'
+  },
+  {
+    id: 'condition',
+    label: 'Condition',
+    fields: ['condition'],
+    value: boat => boat.condition,
+    format: (value, _, context) => translateValue(context, 'condition', value)
+  },
+  lengthAttribute('length', 'Length', { preference: 'higher' }),
+  lengthAttribute('beam', 'Beam'),
+  lengthAttribute('draft', 'Draft'),
+  {
+    id: 'weight',
+    label: 'Weight',
+    fields: ['weight'],
+    value: (boat, context) => getBoatWeight(boat, MEASUREMENT_UNITS[context.measurementUnit].weight)?.value,
+    format: (_, boat, context) => formatWeight(getBoatWeight(boat), context.measurementUnit, context.i18n.locale),
+    tolerance: { relative: 0.1 }
+  },
+  volumeAttribute('fuelCapacity', 'Fuel Capacity'),
+  volumeAttribute('waterCapacity', 'Water Capacity'),
+  {
+    id: 'cabins',
+    label: 'Cabins',
+    fields: ['cabins'],
+    value: boat => boat.cabins,
+    preference: 'higher'
+  },
+  {
+    id: 'berths',
+    label: 'Berths',
+    fields: ['berths'],
+    value: boat => boat.berths,
+    preference: 'higher'
+  },
+  {
+    id: 'hullType',
+    label: 'Hull Type',
+    fields: ['hullType'],
+    value: boat => boat.hullType || undefined
+  },
+  {
+    id: 'engines',
+    label: 'Engines',
+    fields: ['propulsion', 'engineType'],
+    value: (boat, context) => getBoatPropulsion(boat) ? formatPropulsion(boat, context.i18n) : undefined,
+    describe: false
+  },
+  {
+    id: 'engineCount',
+    label: 'Engine Count',
+    fields: ['propulsion', 'engineType'],
+    value: boat => getEngineCount(boat)
+  },
+  {
+    id: 'driveType',
+    label: 'Drive Type',
+    fields: ['propulsion'],
+    value: boat => getDriveType(boat),
+    format: (value, _, context) => translateValue(context, 'driveType', value)
+  },
+  {
+    id: 'fuelType',
+    label: 'Fuel Type',
+    fields: ['fuelType', 'propulsion'],
+    value: boat => getEngineFuelType(boat) || boat.fuelType?.toLowerCase() || undefined,
+    format: (value, _, context) => translateValue(context, 'fuelType', value)
+  },
+  {
+    id: 'horsepower',
+    label: 'Horsepower',
+    fields: ['propulsion', 'engineType'],
+    value: boat => getTotalHorsepower(boat),
+    format: (value, _, context) => context.i18n.t('attribute.horsepower.value', { value }),
+    tolerance: { relative: 0.1 },
+    preference: 'higher'
+  },
+  {
+    id: 'engineHours',
+    label: 'Engine Hours',
+    fields: ['propulsion', 'engineType'],
+    value: boat => getEngineHours(boat),
+    tolerance: { absolute: 200 },
+    preference: 'lower'
+  },
+  {
+    id: 'features',
+    label: 'Features',
+    fields: ['features'],
+    value: boat => boat.features ? canonicalizeFeatures(boat.features).length : undefined,
+    preference: 'higher',
+    compare: (boat1, boat2, { i18n }) => {
+      if (!boat1.features || !boat2.features) return { similarities: [], differences: [] };
+      // Synonyms such as "A/C" and "Air Conditioning" count as the same feature
+      const unique = (boat: Boat, features: string[]): string[] => features.length > 0
+        ? [i18n.t('attribute.features.unique', { boat: boat.name, features: features.join(i18n.t('list.separator')) })]
+        : [];
+      return {
+        similarities: findSharedFeatures(boat1.features, boat2.features)
+          .map(feature => i18n.t('attribute.features.shared', { feature })),
+        differences: [
+          ...unique(boat1, findUniqueFeatures(boat1.features, boat2.features)),
+          ...unique(boat2, findUniqueFeatures(boat2.features, boat1.features))
+        ]
+      };
+    }
+  },
+  {
+    id: 'price',
+    label: 'Price',
+    fields: ['price'],
+    value: (boat, context) => getBoatPriceIn(boat, context.currency)?.amount || undefined,
+    format: (_, boat, context) => formatBoatPrice(boat, context),
+    tolerance: { relative: 0.1 },
+    preference: 'lower',
+    compare: (boat1, boat2, { i18n }, defaults) => {
+      // Surface recent price reductions
+      const reductions = [boat1, boat2].filter(boat => isRecentlyReduced(boat)).map(boat => {
+        const dropPercent = getPriceDropPercentage(boat);
+        return dropPercent && dropPercent > 0
+          ? i18n.t('attribute.price.reducedBy', { boat: boat.name, percent: Math.round(dropPercent) })
+          : i18n.t('attribute.price.reduced', { boat: boat.name });
+      });
+      return { similarities: defaults.similarities, differences: [...defaults.differences, ...reductions] };
+    }
+  },
+  {
+    id: 'pricePerFoot',
+    label: context => `Price per ${MEASUREMENT_UNITS[context.measurementUnit].length}`,
+    fields: [],
+    value: (boat, context) => {
+      const price = getBoatPriceIn(boat, context.currency)?.amount;
+      const length = getBoatLength(boat, 'length', MEASUREMENT_UNITS[context.measurementUnit].length)?.value;
+      return price && length ? Math.round(price / length) : undefined;
+    },
+    format: (value, _, context) =>
+      `${context.i18n.formatMoney(createMoney(Number(value), context.currency))}/${MEASUREMENT_UNITS[context.measurementUnit].length}`,
+    preference: 'lower',
+    describe: false
+  },
+  {
+    id: 'fairPrice',
+    label: 'Versus Fair Price',
+    fields: [],
+    value: (boat, context) => context.priceAssessments?.get(boat.id)?.differencePercent,
+    format: (value, _, context) => context.i18n.t(Number(value) > 0 ? 'attribute.fairPrice.above' : 'attribute.fairPrice.below', {
+      percent: Math.round(Math.abs(Number(value)))
+    }),
+    preference: 'lower',
+    describe: false
+  },
+  {
+    id: 'daysOnMarket',
+    label: 'Days on Market',
+    fields: [],
+    value: boat => getDaysOnMarket(boat),
+    describe: false
+  }
+];
+
+const attributeRegistry: ComparisonAttributeDefinition[] = [...COMPARISON_ATTRIBUTES];
+
+/**
+ * Register an attribute, replacing the attribute with the same id
+ * New attributes are added to the end of the spec table.
+ */
+export function registerComparisonAttribute(definition: ComparisonAttributeDefinition): void {
+  const index = attributeRegistry.findIndex(existing => existing.id === definition.id);
+  if (index >= 0) {
+    attributeRegistry[index] = definition;
+  } else {
+    attributeRegistry.push(definition);
+  }
+}
+
+/**
+ * Get a registered attribute by id
+ */
+export function getComparisonAttribute(id: string): ComparisonAttributeDefinition | undefined {
+  return attributeRegistry.find(definition => definition.id === id);
+}
+
+/**
+ * Default attribute for a Boat field the catalog doesn't cover
+ * Numbers must match exactly and text case-insensitively; booleans show as yes or no.
+ */
+function createFieldAttribute(field: keyof Boat): ComparisonAttributeDefinition {
+  return {
+    id: field,
+    label: labelFromField(field),
+    fields: [field],
+    value: boat => {
+      const value = boat[field];
+      if (typeof value === 'boolean') return value ? 'yes' : 'no';
+      return typeof value === 'number' || (typeof value === 'string' && value) ? value : undefined;
+    },
+    format: (value, boat, context) => typeof boat[field] === 'boolean' ? context.i18n.t(`common.${value}`) : `${value}`
+  };
+}
+
+/**
+ * Get the attributes to compare boats by
+ * Scalar Boat fields that no registered attribute covers are compared too.
+ * @param boats Boats being compared
+ * @returns Registered attributes followed by one attribute per uncovered field
+ */
+export function getComparisonAttributes(boats: Boat[] = []): ComparisonAttributeDefinition[] {
+  const covered = new Set<string>([...IGNORED_FIELDS, ...attributeRegistry.flatMap(definition => definition.fields)]);
+  const uncovered = new Set<keyof Boat>();
+  boats.forEach(boat => {
+    (Object.keys(boat) as Array<keyof Boat>).forEach(field => {
+      const value = boat[field];
+      if (!covered.has(field) && ['number', 'string', 'boolean'].includes(typeof value)) {
+        uncovered.add(field);
+      }
+    });
+  });
+  return [...attributeRegistry, ...[...uncovered].map(createFieldAttribute)];
+}
+
+/**
+ * Translate the first of several messages that a catalog has, or else the last one
+ */
+function translateFirst(context: ComparisonContext, keys: string[], params: MessageParams): string {
+  const key = keys.find(candidate => context.i18n.has(candidate)) || keys[keys.length - 1];
+  return context.i18n.t(key, params);
+}
+
+/**
+ * Compare one attribute of two boats
+ * Phrases are looked up as `attribute.<id>.same` (equal values), `.similar` and
+ * `.different`, falling back to generic `comparison.*` phrases. They receive the
+ * boat names and display values, and for numbers the raw higher value as `count`,
+ * the `difference` and the `percent` by which the higher value exceeds the lower.
+ * @param definition Attribute to compare
+ * @param boat1 First boat
+ * @param boat2 Second boat
+ * @param context Display preferences
+ * @returns Similarities and differences for the attribute
+ */
+export function compareAttribute(
+  definition: ComparisonAttributeDefinition,
+  boat1: Boat,
+  boat2: Boat,
+  context: ComparisonContext
+): AttributeComparison {
+  const result: AttributeComparison = { similarities: [], differences: [] };
+  const value1 = definition.value(boat1, context);
+  const value2 = definition.value(boat2, context);
+
+  if (value1 !== undefined && value2 !== undefined) {
+    const numeric = typeof value1 === 'number' && typeof value2 === 'number';
+    const similar = typeof value1 === 'number' && typeof value2 === 'number'
+      ? isWithinTolerance(value1, value2, definition.tolerance)
+      : `${value1}`.toLowerCase() === `${value2}`.toLowerCase();
+    // Numeric differences name the boat with the higher value first; similar
+    // phrases don't say which boat is which, so they keep the comparison order
+    const swap = !similar && numeric && value2 > value1;
+    const [first, second] = swap ? [boat2, boat1] : [boat1, boat2];
+    const [high, low] = swap ? [value2, value1] : [value1, value2];
+    const label = getAttributeLabel(definition, context);
+    const params: MessageParams = {
+      boat1: first.name,
+      boat2: second.name,
+      value1: formatAttributeValue(definition, first, context),
+      value2: formatAttributeValue(definition, second, context),
+      label,
+      labelLower: label.toLowerCase(),
+      labelPlural: pluralLabel(label)
+    };
+    if (typeof value1 === 'number' && typeof value2 === 'number') {
+      const higher = Math.max(value1, value2);
+      const lower = Math.min(value1, value2);
+      params.count = higher;
+      params.difference = higher - lower;
+      params.percent = lower ? Math.round((higher - lower) / lower * 100) : undefined;
+    }
+
+    const prefix = `attribute.${definition.id}`;
+    if (similar) {
+      result.similarities.push(definition.similarPhrase
+        ? definition.similarPhrase(first, second, high, low, context)
+        : params.value1 === params.value2
+          ? translateFirst(context, [`${prefix}.same`, `${prefix}.similar`, 'comparison.same'], params)
+          : translateFirst(context, [`${prefix}.similar`, 'comparison.similar'], params));
+    } else {
+      result.differences.push(definition.differentPhrase
+        ? definition.differentPhrase(first, second, high, low, context)
+        : translateFirst(context, [`${prefix}.different`, numeric ? 'comparison.higher' : 'comparison.differ'], params));
+    }
+  }
+
+  return definition.compare ? definition.compare(boat1, boat2, context, result) : result;
+}
+
+/**
+ * Compare every described attribute of two boats
+ * @param boat1 First boat
+ * @param boat2 Second boat
+ * @param context Display preferences
+ * @returns Similarities and differences in catalog order
+ */
+export function compareAttributes(boat1: Boat, boat2: Boat, context: ComparisonContext): AttributeComparison {
+  return getComparisonAttributes([boat1, boat2])
+    .filter(definition => definition.describe !== false)
+    .map(definition => compareAttribute(definition, boat1, boat2, context))
+    .reduce((all, comparison) => ({
+      similarities: [...all.similarities, ...comparison.similarities],
+      differences: [...all.differences, ...comparison.differences]
+    }), { similarities: [], differences: [] });
+}
+
+/**
+ * Build the spec table row of an attribute
+ * A best value needs a preference, at least two boats with a number, and some difference between them.
+ * @param definition Attribute of the row
+ * @param boats Compared boats, in display order
+ * @param context Display preferences
+ * @returns Row with the best values marked
+ */
+export function buildSpecMatrixRow(
+  definition: ComparisonAttributeDefinition,
+  boats: Boat[],
+  context: ComparisonContext
+): SpecMatrixRow {
+  const values = boats.map(boat => definition.value(boat, context));
+  const known = values.filter((value): value is number => typeof value === 'number');
+  let best: number[] = [];
+
+  if (definition.preference && known.length >= 2 && new Set(known).size > 1) {
+    const bestValue = definition.preference === 'higher' ? Math.max(...known) : Math.min(...known);
+    best = values.flatMap((value, index) => value === bestValue ? [index] : []);
+  }
+
+  return {
+    attribute: definition.id,
+    label: getAttributeLabel(definition, context),
+    values: boats.map(boat => formatAttributeValue(definition, boat, context)),
+    ...(definition.preference ? { preference: definition.preference } : {}),
+    best
+  };
+}
+
+/**
+ * Build the spec matrix of a set of boats
+ * @param boats Compared boats, in display order
+ * @param context Display preferences
+ * @returns One row per attribute that at least one boat has
+ */
+export function buildSpecMatrix(boats: Boat[], context: ComparisonContext): SpecMatrixRow[] {
+  return getComparisonAttributes(boats)
+    .filter(definition => boats.some(boat => definition.value(boat, context) !== undefined))
+    .map(definition => buildSpecMatrixRow(definition, boats, context));
+}
@@ -0,0 +1,257 @@
+/**
+ * Comparison rendering utilities
+ * Turns a format-independent comparison document into Markdown, sanitized
+ * HTML, plain text, a CSV spec matrix or JSON, so email, web, mobile and
+ * export each get their own format without re-parsing Markdown
+ */
+
+import {
+  ComparisonBlock,
+  ComparisonDocument,
+  ComparisonFormat,
+  ComparisonTable
+} from '@igorganapolsky/boats-types';
+import { createTranslator } from './i18n.utils';
+
+/**
+ * Current version of the comparison document structure
+ */
+export const COMPARISON_DOCUMENT_VERSION = 1;
+
+/**
+ * Renders comparison documents in one output format
+ */
+export interface ComparisonRenderer {
+  format: ComparisonFormat;
+  /** MIME type of the output, e.g. for email parts and downloads */
+  contentType: string;
+  render(document: ComparisonDocument): string;
+}
+
+/**
+ * Whether a table cell is highlighted as a best value
+ */
+function isHighlighted(table: ComparisonTable, row: number, column: number): boolean {
+  return !!table.highlights?.[row]?.includes(column);
+}
+
+/**
+ * Escape text for a Markdown table cell, where `|` and line breaks would end the cell
+ */
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Escape text for HTML element content and attribute values
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Quote a CSV field when needed (RFC 4180)
+ * Text that spreadsheets would run as a formula is prefixed with an apostrophe.
+ */
+function escapeCsvField(text: string): string {
+  const safe = /^[=+\-@\t\r]/.test(text) && isNaN(Number(text)) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Markdown with GitHub-flavoured tables; best values are bold
+ */
+export const markdownComparisonRenderer: ComparisonRenderer = {
+  format: 'markdown',
+  contentType: 'text/markdown',
+  render: document => {
+    const lines = [`# ${document.title}`, ''];
+
+    const renderBlock = (block: ComparisonBlock): void => {
+      switch (block.type) {
+        case 'paragraph':
+          lines.push(block.text);
+          break;
+        case 'list':
+          block.items.forEach(item => lines.push(`- ${item}`));
+          break;
+        case 'table':
+          lines.push(`| ${block.headers.map(escapeMarkdownCell).join(' | ')} |`);
+          lines.push(`|${block.headers.map(() => '---').join('|')}|`);
+          block.rows.forEach((row, rowIndex) => {
+            const cells = row.map((cell, column) => {
+              const escaped = escapeMarkdownCell(cell);
+              return isHighlighted(block, rowIndex, column) && escaped ? `**${escaped}**` : escaped;
+            });
+            lines.push(`| ${cells.join(' | ')} |`);
+          });
+          break;
+      }
+      lines.push('');
+    };
+
+    document.sections.forEach(section => {
+      lines.push(`## ${section.heading}`, '');
+      section.blocks.forEach(renderBlock);
+    });
+    return lines.join('\n');
+  }
+};
+
+/**
+ * HTML fragment with every value escaped, safe to insert into a page or email
+ * Best values are marked with the `best` class.
+ */
+export const htmlComparisonRenderer: ComparisonRenderer = {
+  format: 'html',
+  contentType: 'text/html',
+  render: document => {
+    const lang = document.locale ? ` lang="${escapeHtml(document.locale)}"` : '';
+    const parts = [`<article class="boat-comparison"${lang}>`, `<h1>${escapeHtml(document.title)}</h1>`];
+
+    const renderBlock = (block: ComparisonBlock): string => {
+      switch (block.type) {
+        case 'paragraph':
+          return `<p>${escapeHtml(block.text)}</p>`;
+        case 'list':
+          return `<ul>${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+        case 'table': {
+          const id = block.id ? ` data-table="${escapeHtml(block.id)}"` : '';
+          const head = block.headers.map(header => `<th scope="col">${escapeHtml(header)}</th>`).join('');
+          const body = block.rows.map((row, rowIndex) => {
+            const cells = row.map((cell, column) => isHighlighted(block, rowIndex, column)
+              ? `<td class="best"><strong>${escapeHtml(cell)}</strong></td>`
+              : `<td>${escapeHtml(cell)}</td>`);
+            return `<tr>${cells.join('')}</tr>`;
+          }).join('');
+          return `<table${id}><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+        }
+      }
+    };
+
+    document.sections.forEach(section => {
+      parts.push('<section>', `<h2>${escapeHtml(section.heading)}</h2>`, ...section.blocks.map(renderBlock), '</section>');
+    });
+    parts.push('</article>');
+    return parts.join('\n');
+  }
+};
+
+/**
+ * Plain text with aligned table columns, e.g. for text email parts and SMS
+ * Best values are marked with an asterisk.
+ */
+export const textComparisonRenderer: ComparisonRenderer = {
+  format: 'text',
+  contentType: 'text/plain',
+  render: document => {
+    const lines = [document.title, '='.repeat(document.title.length), ''];
+
+    const renderBlock = (block: ComparisonBlock): void => {
+      switch (block.type) {
+        case 'paragraph':
+          lines.push(block.text);
+          break;
+        case 'list':
+          block.items.forEach(item => lines.push(`* ${item}`));
+          break;
+        case 'table': {
+          const rows = block.rows.map((row, rowIndex) =>
+            row.map((cell, column) => isHighlighted(block, rowIndex, column) ? `${cell} *` : cell)
+          );
+          const widths = block.headers.map((header, column) =>
+            Math.max(header.length, ...rows.map(row => (row[column] || '').length))
+          );
+          const formatRow = (row: string[]): string =>
+            widths.map((width, column) => (row[column] || '').padEnd(width)).join('  ').trimEnd();
+          lines.push(formatRow(block.headers));
+          lines.push(widths.map(width => '-'.repeat(width)).join('  '));
+          rows.forEach(row => lines.push(formatRow(row)));
+          if (block.highlights?.some(columns => columns.length > 0)) {
+            lines.push('', `* ${createTranslator(document.locale).t('comparison.bestValue')}`);
+          }
+          break;
+        }
+      }
+      lines.push('');
+    };
+
+    document.sections.forEach(section => {
+      lines.push(section.heading, '-'.repeat(section.heading.length), '');
+      section.blocks.forEach(renderBlock);
+    });
+    return lines.join('\n');
+  }
+};
+
+/**
+ * CSV of the specifications table (or the first table), for spreadsheets and exports
+ */
+export const csvComparisonRenderer: ComparisonRenderer = {
+  format: 'csv',
+  contentType: 'text/csv',
+  render: document => {
+    const tables = document.sections
+      .flatMap(section => section.blocks)
+      .filter((block): block is ComparisonTable => block.type === 'table');
+    const table = tables.find(block => block.id === 'specifications') || tables[0];
+    if (!table) return '';
+    return [table.headers, ...table.rows]
+      .map(row => row.map(escapeCsvField).join(','))
+      .join('\r\n');
+  }
+};
+
+/**
+ * The comparison document as JSON, validated by `comparisonDocumentSchema`
+ */
+export const jsonComparisonRenderer: ComparisonRenderer = {
+  format: 'json',
+  contentType: 'application/json',
+  render: document => JSON.stringify(document, null, 2)
+};
+
+const rendererRegistry = new Map<ComparisonFormat, ComparisonRenderer>(
+  [
+    markdownComparisonRenderer,
+    htmlComparisonRenderer,
+    textComparisonRenderer,
+    csvComparisonRenderer,
+    jsonComparisonRenderer
+  ].map(renderer => [renderer.format, renderer])
+);
+
+/**
+ * Register a renderer for a new format, or replace the renderer of an existing one
+ * @example registerComparisonRenderer({ format: 'pdf', contentType: 'application/pdf', render })
+ */
+export function registerComparisonRenderer(renderer: ComparisonRenderer): void {
+  rendererRegistry.set(renderer.format, renderer);
+}
+
+/**
+ * Get the renderer for a format
+ */
+export function getComparisonRenderer(format: ComparisonFormat): ComparisonRenderer | undefined {
+  return rendererRegistry.get(format);
+}
+
+/**
+ * Render a comparison document
+ * @param document Document to render
+ * @param format Output format (default: 'markdown')
+ * @returns Rendered comparison
+ * @throws Error if no renderer is registered for the format
+ */
+export function renderComparison(document: ComparisonDocument, format: ComparisonFormat = 'markdown'): string {
+  const renderer = rendererRegistry.get(format);
+  if (!renderer) {
+    throw new Error(`No comparison renderer for format "${format}"`);
+  }
+  return renderer.render(document);
+}
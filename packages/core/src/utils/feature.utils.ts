@@ -0,0 +1,240 @@
+/**
+ * Feature vocabulary utilities
+ * Canonical boat feature names with synonyms and a shallow hierarchy, so that
+ * "A/C", "Air Conditioning" and "air-conditioning" compare as one feature and
+ * "Garmin chartplotter" still partly matches "chartplotter"
+ */
+
+import { FeatureDefinition } from '@igorganapolsky/boats-types';
+import { calculateJaccardSimilarity } from './similarity.utils';
+import { stemToken } from './search.utils';
+
+/**
+ * Features recognized out of the box
+ */
+export const FEATURE_VOCABULARY: FeatureDefinition[] = [
+  // Comfort
+  { id: 'air-conditioning', label: 'Air Conditioning', synonyms: ['a/c', 'ac', 'air conditioner', 'aircon', 'air con', 'climate control'] },
+  { id: 'heating', label: 'Heating', synonyms: ['heater', 'cabin heater', 'diesel heater'] },
+  { id: 'generator', label: 'Generator', synonyms: ['genset', 'gen set', 'genny'] },
+  { id: 'inverter', label: 'Inverter', synonyms: ['power inverter'] },
+  { id: 'shore-power', label: 'Shore Power', synonyms: ['shorepower', 'shore power connection', 'shore power inlet'] },
+  { id: 'solar-panels', label: 'Solar Panels', synonyms: ['solar', 'solar panel', 'solar array'] },
+  { id: 'watermaker', label: 'Watermaker', synonyms: ['water maker', 'desalinator', 'reverse osmosis'] },
+  { id: 'refrigerator', label: 'Refrigerator', synonyms: ['fridge', 'refrigeration', 'cockpit fridge'] },
+  { id: 'freezer', label: 'Freezer', synonyms: ['deep freezer'] },
+  { id: 'microwave', label: 'Microwave', synonyms: ['microwave oven'] },
+  { id: 'galley', label: 'Galley', synonyms: ['kitchen', 'kitchenette'] },
+  { id: 'toilet', label: 'Toilet (Head)', synonyms: ['marine toilet', 'marine head', 'electric head', 'electric toilet'] },
+  { id: 'shower', label: 'Shower', synonyms: ['freshwater shower', 'transom shower', 'cockpit shower', 'swim shower'] },
+  { id: 'stereo', label: 'Stereo', synonyms: ['stereo system', 'sound system', 'audio system', 'marine stereo'] },
+
+  // Electronics
+  { id: 'gps', label: 'GPS', synonyms: ['gps receiver', 'gps navigation', 'global positioning system'] },
+  { id: 'chartplotter', label: 'Chartplotter', synonyms: ['chart plotter', 'plotter', 'gps chartplotter', 'gps plotter', 'mfd', 'multifunction display', 'multi function display'] },
+  { id: 'radar', label: 'Radar', synonyms: ['radar system', 'radar dome', 'radome', 'open array radar'] },
+  { id: 'fishfinder', label: 'Fishfinder', synonyms: ['fish finder', 'depth finder', 'depthfinder', 'depth sounder', 'sonar'] },
+  { id: 'autopilot', label: 'Autopilot', synonyms: ['auto pilot'] },
+  { id: 'vhf-radio', label: 'VHF Radio', synonyms: ['vhf', 'marine radio', 'marine vhf'] },
+
+  // Handling
+  { id: 'thruster', label: 'Thruster', synonyms: ['thrusters'] },
+  { id: 'bow-thruster', label: 'Bow Thruster', parent: 'thruster', synonyms: ['bowthruster'] },
+  { id: 'stern-thruster', label: 'Stern Thruster', parent: 'thruster', synonyms: ['sternthruster'] },
+  { id: 'trim-tabs', label: 'Trim Tabs', synonyms: ['trim tab', 'trim planes'] },
+  { id: 'windlass', label: 'Windlass', synonyms: ['anchor windlass', 'electric windlass', 'anchor winch'] },
+
+  // Deck and shade
+  { id: 'sun-shade', label: 'Sun Shade', synonyms: ['sunshade', 'canopy', 'sun top'] },
+  { id: 'bimini-top', label: 'Bimini Top', parent: 'sun-shade', synonyms: ['bimini'] },
+  { id: 'hardtop', label: 'Hardtop', parent: 'sun-shade', synonyms: ['hard top'] },
+  { id: 't-top', label: 'T-Top', parent: 'sun-shade', synonyms: ['t top', 'ttop'] },
+  { id: 'swim-platform', label: 'Swim Platform', synonyms: ['swimming platform', 'swim step', 'transom platform'] },
+  { id: 'swim-ladder', label: 'Swim Ladder', synonyms: ['boarding ladder', 'swimming ladder'] },
+  { id: 'teak-deck', label: 'Teak Deck', synonyms: ['teak decking', 'teak cockpit'] },
+  { id: 'underwater-lights', label: 'Underwater Lights', synonyms: ['underwater lighting', 'underwater led lights'] },
+  { id: 'tender', label: 'Tender', synonyms: ['dinghy', 'jet tender'] },
+  { id: 'davits', label: 'Davits', synonyms: ['davit', 'tender davits'] },
+
+  // Fishing and watersports
+  { id: 'livewell', label: 'Livewell', synonyms: ['live well', 'baitwell', 'bait well', 'live bait well'] },
+  { id: 'outriggers', label: 'Outriggers', synonyms: ['outrigger'] },
+  { id: 'rod-holders', label: 'Rod Holders', synonyms: ['rod holder', 'rod storage', 'rocket launcher'] },
+  { id: 'trolling-motor', label: 'Trolling Motor', synonyms: ['troller', 'electric trolling motor'] },
+  { id: 'wakeboard-tower', label: 'Wakeboard Tower', synonyms: ['wake tower', 'ski tower'] },
+  { id: 'ballast-system', label: 'Ballast System', synonyms: ['ballast tanks', 'wake ballast', 'ballast bags'] }
+];
+
+/**
+ * Shortest name matched inside a longer feature description, so "ac" in
+ * "AC power" is not taken for air conditioning
+ */
+const MIN_CONTAINED_NAME_LENGTH = 3;
+
+const featureRegistry = new Map<string, FeatureDefinition>();
+const nameLookup = new Map<string, string>();
+let namesByLength: string[] = [];
+
+/**
+ * Normalized feature names expanded to their canonical ids and ancestors,
+ * the least recently used evicted first once MAX_EXPANSION_CACHE_SIZE is reached
+ */
+const expansionCache = new Map<string, string[]>();
+const MAX_EXPANSION_CACHE_SIZE = 1000;
+
+/**
+ * Lower-case, strip punctuation and plurals so "Solar-Panels" and
+ * "solar panel" compare equal
+ */
+function normalizeFeatureText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(stemToken)
+    .join(' ');
+}
+
+/**
+ * Register a feature, replacing any feature with the same id
+ * Its id, label and synonyms all canonicalize to the id.
+ */
+export function registerFeature(definition: FeatureDefinition): void {
+  featureRegistry.set(definition.id, definition);
+  [definition.id, definition.label, ...definition.synonyms].forEach(name => {
+    const key = normalizeFeatureText(name);
+    if (key) nameLookup.set(key, definition.id);
+  });
+  namesByLength = [...nameLookup.keys()].sort((a, b) => b.length - a.length);
+  expansionCache.clear();
+}
+
+FEATURE_VOCABULARY.forEach(registerFeature);
+
+/**
+ * Get a registered feature by id
+ */
+export function getFeatureDefinition(id: string): FeatureDefinition | undefined {
+  return featureRegistry.get(id);
+}
+
+/**
+ * Canonical id of a feature and every broader feature it belongs to
+ * Unrecognized features that mention a known feature ("Garmin chartplotter")
+ * get their own id with the known feature as parent.
+ */
+function expandFeature(feature: string): string[] {
+  const text = normalizeFeatureText(feature);
+  const cached = expansionCache.get(text);
+  if (cached) {
+    // Move to the most recently used position
+    expansionCache.delete(text);
+    expansionCache.set(text, cached);
+    return cached;
+  }
+
+  let id = nameLookup.get(text);
+  let parent: string | undefined;
+
+  if (!id) {
+    id = text.replace(/ /g, '-');
+    const padded = ` ${text} `;
+    const contained = namesByLength.find(name =>
+      name.length >= MIN_CONTAINED_NAME_LENGTH && padded.includes(` ${name} `)
+    );
+    parent = contained ? nameLookup.get(contained) : undefined;
+  } else {
+    parent = featureRegistry.get(id)?.parent;
+  }
+
+  const expansion = id ? [id] : [];
+  while (parent && !expansion.includes(parent)) {
+    expansion.push(parent);
+    parent = featureRegistry.get(parent)?.parent;
+  }
+
+  expansionCache.set(text, expansion);
+  if (expansionCache.size > MAX_EXPANSION_CACHE_SIZE) {
+    expansionCache.delete(expansionCache.keys().next().value!);
+  }
+  return expansion;
+}
+
+/**
+ * Canonicalize a feature name
+ * @param feature Feature as written in a listing, e.g. "A/C"
+ * @returns Canonical id, e.g. 'air-conditioning'; unknown features get an id built from their normalized words
+ */
+export function canonicalizeFeature(feature: string): string {
+  return expandFeature(feature)[0] || '';
+}
+
+/**
+ * Canonicalize a list of features, dropping duplicates and blanks
+ * @param features Features as written in a listing
+ * @returns Distinct canonical ids in order of first appearance
+ */
+export function canonicalizeFeatures(features: string[]): string[] {
+  return [...new Set(features.map(canonicalizeFeature).filter(Boolean))];
+}
+
+/**
+ * Canonicalize features and add every broader feature they belong to
+ * @param features Features as written in a listing
+ * @returns Set of canonical ids including ancestors
+ */
+export function expandFeatures(features: string[]): Set<string> {
+  return new Set(features.flatMap(expandFeature));
+}
+
+/**
+ * Display label of a feature
+ * @returns Vocabulary label for known features, otherwise the feature as given
+ */
+export function getFeatureLabel(feature: string): string {
+  return featureRegistry.get(canonicalizeFeature(feature))?.label || feature;
+}
+
+/**
+ * Calculate the similarity of two feature lists
+ * Jaccard similarity over canonical features and their ancestors, so synonyms
+ * match fully and related features ("bow thruster", "stern thruster") partly
+ * @returns Similarity between 0 and 1; two empty lists are identical
+ */
+export function calculateFeatureSimilarity(features1: string[], features2: string[]): number {
+  return calculateJaccardSimilarity(expandFeatures(features1), expandFeatures(features2));
+}
+
+/**
+ * Features of the first list that the second list also has
+ * A feature counts as shared if the other list has the same canonical feature,
+ * a more specific kind of it, or the broader feature it belongs to.
+ * @returns Features from the first list, as written there
+ */
+export function findSharedFeatures(features1: string[], features2: string[]): string[] {
+  const canonical2 = new Set(canonicalizeFeatures(features2));
+  const expanded2 = expandFeatures(features2);
+  return features1.filter(feature => {
+    const [id, ...ancestors] = expandFeature(feature);
+    return !!id && (expanded2.has(id) || ancestors.some(ancestor => canonical2.has(ancestor)));
+  });
+}
+
+/**
+ * Features of the first list that the second list doesn't have
+ * @returns Features from the first list, as written there
+ */
+export function findUniqueFeatures(features1: string[], features2: string[]): string[] {
+  const shared = new Set(findSharedFeatures(features1, features2));
+  return features1.filter(feature => !shared.has(feature));
+}
+
+/**
+ * Normalize free-form tags for comparison, ignoring case, punctuation and plurals
+ * @returns Distinct normalized tags
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeFeatureText).filter(Boolean))];
+}
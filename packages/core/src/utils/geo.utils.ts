@@ -0,0 +1,105 @@
+/**
+ * Geolocation utilities
+ * Great-circle distance calculations and proximity filtering for boat listings
+ */
+
+import { DistanceUnit, GeoLocation, GeoPoint } from '@igorganapolsky/boats-types';
+import { Boat } from '../types';
+
+/**
+ * Mean radius of the earth in each distance unit
+ */
+const EARTH_RADIUS: Record<DistanceUnit, number> = {
+  km: 6371.0088,
+  mi: 3958.7613,
+  nm: 3440.0695
+};
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Check whether a point has valid latitude and longitude values
+ */
+export function isValidGeoPoint(point: GeoPoint | undefined): point is GeoPoint {
+  return !!point &&
+    Number.isFinite(point.latitude) && Math.abs(point.latitude) <= 90 &&
+    Number.isFinite(point.longitude) && Math.abs(point.longitude) <= 180;
+}
+
+/**
+ * Calculate the great-circle distance between two points using the haversine formula
+ * @param point1 First point
+ * @param point2 Second point
+ * @param unit Unit of the returned distance (default: km)
+ * @returns Distance between the points
+ */
+export function calculateDistance(point1: GeoPoint, point2: GeoPoint, unit: DistanceUnit = 'km'): number {
+  const dLat = toRadians(point2.latitude - point1.latitude);
+  const dLon = toRadians(point2.longitude - point1.longitude);
+  const lat1 = toRadians(point1.latitude);
+  const lat2 = toRadians(point2.latitude);
+
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) ** 2;
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS[unit] * c;
+}
+
+/**
+ * Calculate the distance from a boat to a point
+ * @returns Distance, or undefined if the boat has no valid location
+ */
+export function getBoatDistance(boat: Boat, point: GeoPoint, unit: DistanceUnit = 'km'): number | undefined {
+  return isValidGeoPoint(boat.geoLocation) ? calculateDistance(boat.geoLocation, point, unit) : undefined;
+}
+
+/**
+ * Keep only the boats within a radius of a point
+ * Boats without a location are excluded
+ * @param boats Boats to filter
+ * @param center Center of the search area
+ * @param radius Maximum distance from the center
+ * @param unit Unit of the radius (default: km)
+ */
+export function filterBoatsByRadius(
+  boats: Boat[],
+  center: GeoPoint,
+  radius: number,
+  unit: DistanceUnit = 'km'
+): Boat[] {
+  return boats.filter(boat => {
+    const distance = getBoatDistance(boat, center, unit);
+    return distance !== undefined && distance <= radius;
+  });
+}
+
+/**
+ * Sort boats by distance from a point, nearest first
+ * Boats without a location are placed last in their original order
+ * @param boats Boats to sort
+ * @param point Reference point, typically the user's location
+ * @param unit Unit of the returned distances (default: km)
+ * @returns Boats with their distance from the point
+ */
+export function sortBoatsByDistance(
+  boats: Boat[],
+  point: GeoPoint,
+  unit: DistanceUnit = 'km'
+): Array<{ boat: Boat; distance?: number }> {
+  return boats
+    .map(boat => ({ boat, distance: getBoatDistance(boat, point, unit) }))
+    .sort((a, b) => {
+      if (a.distance === undefined) return b.distance === undefined ? 0 : 1;
+      if (b.distance === undefined) return -1;
+      return a.distance - b.distance;
+    });
+}
+
+/**
+ * Format a structured location for display, e.g. "Bahia Mar, Fort Lauderdale, FL, US"
+ */
+export function formatGeoLocation(location: GeoLocation): string {
+  return [location.marina, location.city, location.region, location.country]
+    .filter(Boolean)
+    .join(', ');
+}
@@ -0,0 +1,485 @@
+/**
+ * HNSW utilities
+ * Approximate nearest-neighbour search over feature vectors with a Hierarchical
+ * Navigable Small World graph, using cosine similarity. Indexes serialize to
+ * plain JSON with vectors packed as base64 so they can be persisted.
+ */
+
+import {
+  arraySchema,
+  booleanSchema,
+  numberSchema,
+  objectSchema,
+  optionalSchema,
+  Schema,
+  stringSchema
+} from './validation.utils';
+import { createRandom } from './random.utils';
+
+/**
+ * Graph construction and search parameters
+ */
+export interface HnswOptions {
+  /** Neighbours kept per node on upper layers; layer 0 keeps twice as many (default: 16) */
+  m?: number;
+  /** Candidate list size while inserting; higher builds a better graph, slower (default: 100) */
+  efConstruction?: number;
+  /** Default candidate list size while searching; higher is more accurate, slower (default: 50) */
+  efSearch?: number;
+  /** Seed for level assignment, so the same inserts build the same graph (default: 42) */
+  seed?: number;
+}
+
+/**
+ * A vector found by a nearest-neighbour query
+ */
+export interface HnswSearchResult {
+  id: string;
+  /** Cosine similarity to the query, between -1 and 1 */
+  similarity: number;
+}
+
+/**
+ * Serialized node of an HNSW graph
+ */
+export interface HnswSnapshotNode {
+  id: string;
+  /** Unit-length vector as base64-encoded little-endian float32 */
+  vector: string;
+  /** Neighbour node positions on each layer, from layer 0 up */
+  neighbors: number[][];
+  deleted?: boolean;
+}
+
+/**
+ * Serialized HNSW graph
+ */
+export interface HnswSnapshot {
+  dimensions: number;
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+  seed: number;
+  /** Position of the entry node, or -1 if the graph is empty */
+  entryPoint: number;
+  nodes: HnswSnapshotNode[];
+}
+
+/**
+ * Schema for serialized HNSW graphs
+ */
+export const hnswSnapshotSchema: Schema<HnswSnapshot> = objectSchema<HnswSnapshot>({
+  dimensions: numberSchema({ min: 0, integer: true }),
+  m: numberSchema({ min: 2, integer: true }),
+  efConstruction: numberSchema({ min: 1, integer: true }),
+  efSearch: numberSchema({ min: 1, integer: true }),
+  seed: numberSchema({ integer: true }),
+  entryPoint: numberSchema({ min: -1, integer: true }),
+  nodes: arraySchema(objectSchema<HnswSnapshotNode>({
+    id: stringSchema(),
+    vector: stringSchema(),
+    neighbors: arraySchema(arraySchema(numberSchema({ min: 0, integer: true }))),
+    deleted: optionalSchema(booleanSchema())
+  }))
+});
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encode a vector as base64 float32, which works the same in browsers, React Native and Node
+ * @param vector Vector to encode
+ * @returns Base64 string
+ */
+export function encodeVector(vector: ArrayLike<number>): string {
+  const bytes = new Uint8Array(Float32Array.from(vector).buffer);
+  let encoded = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+    encoded += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63] +
+      (i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=') +
+      (i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=');
+  }
+  return encoded;
+}
+
+/**
+ * Decode a vector encoded with encodeVector
+ * @param encoded Base64 string
+ * @returns Decoded vector
+ * @throws Error if the string is not a valid encoded vector
+ */
+export function decodeVector(encoded: string): Float32Array {
+  const clean = encoded.replace(/=+$/, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  if (bytes.length % 4 !== 0) {
+    throw new Error('Encoded vector has an invalid length');
+  }
+
+  let byte = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    let chunk = 0;
+    for (let j = 0; j < 4; j++) {
+      const value = i + j < clean.length ? BASE64_ALPHABET.indexOf(clean[i + j]) : 0;
+      if (value < 0) throw new Error('Encoded vector contains invalid characters');
+      chunk = (chunk << 6) | value;
+    }
+    [16, 8, 0].forEach(shift => {
+      if (byte < bytes.length) bytes[byte++] = (chunk >> shift) & 255;
+    });
+  }
+  return new Float32Array(bytes.buffer);
+}
+
+/**
+ * Scale a vector to unit length, so cosine similarity is a dot product
+ */
+function normalizeVector(vector: ArrayLike<number>): Float32Array {
+  const normalized = Float32Array.from(vector);
+  let magnitude = 0;
+  for (let i = 0; i < normalized.length; i++) magnitude += normalized[i] * normalized[i];
+  magnitude = Math.sqrt(magnitude);
+  if (magnitude > 0) {
+    for (let i = 0; i < normalized.length; i++) normalized[i] /= magnitude;
+  }
+  return normalized;
+}
+
+function dot(vector1: Float32Array, vector2: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < vector1.length; i++) sum += vector1[i] * vector2[i];
+  return sum;
+}
+
+/**
+ * Binary heap ordered by a priority, smallest first
+ */
+class PriorityQueue {
+  private readonly items: Array<{ node: number; priority: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): { node: number; priority: number } | undefined {
+    return this.items[0];
+  }
+
+  push(node: number, priority: number): void {
+    const items = this.items;
+    items.push({ node, priority });
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].priority <= items[index].priority) break;
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): { node: number; priority: number } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === index) break;
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+/**
+ * Approximate nearest-neighbour index over fixed-length vectors
+ * Vectors are keyed by id; adding an existing id replaces its vector. Removed
+ * vectors stay in the graph as routing nodes until `rebuild` is called.
+ */
+export class HnswIndex {
+  private readonly m: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly seed: number;
+  private readonly random: () => number;
+  private readonly levelFactor: number;
+  private nodes: HnswNode[] = [];
+  private positions = new Map<string, number>();
+  private entryPoint = -1;
+  private dimensions = 0;
+
+  /**
+   * Create an empty index
+   * @param options Graph construction and search parameters
+   */
+  constructor(options: HnswOptions = {}) {
+    this.m = Math.max(2, options.m ?? 16);
+    this.efConstruction = Math.max(1, options.efConstruction ?? 100);
+    this.efSearch = Math.max(1, options.efSearch ?? 50);
+    this.seed = options.seed ?? 42;
+    this.random = createRandom(this.seed);
+    this.levelFactor = 1 / Math.log(this.m);
+  }
+
+  /**
+   * Restore an index from a snapshot
+   * @param snapshot Snapshot produced by `toJSON`
+   * @throws Error if the snapshot is inconsistent
+   */
+  static fromJSON(snapshot: HnswSnapshot): HnswIndex {
+    const index = new HnswIndex(snapshot);
+    index.dimensions = snapshot.dimensions;
+    index.entryPoint = snapshot.entryPoint;
+    index.nodes = snapshot.nodes.map(node => {
+      const vector = decodeVector(node.vector);
+      if (vector.length !== snapshot.dimensions) {
+        throw new Error(`Vector for "${node.id}" has ${vector.length} dimensions, expected ${snapshot.dimensions}`);
+      }
+      if (node.neighbors.some(layer => layer.some(position => position >= snapshot.nodes.length))) {
+        throw new Error(`Node "${node.id}" links to a node that doesn't exist`);
+      }
+      return { id: node.id, vector, neighbors: node.neighbors, deleted: !!node.deleted };
+    });
+    if (snapshot.entryPoint >= index.nodes.length) {
+      throw new Error('Entry point links to a node that doesn\'t exist');
+    }
+    index.nodes.forEach((node, position) => {
+      if (!node.deleted) index.positions.set(node.id, position);
+    });
+    return index;
+  }
+
+  /**
+   * Number of vectors in the index
+   */
+  get size(): number {
+    return this.positions.size;
+  }
+
+  /**
+   * Check whether a vector is indexed
+   */
+  has(id: string): boolean {
+    return this.positions.has(id);
+  }
+
+  /**
+   * Add a vector, replacing any vector with the same id
+   * @throws Error if the vector's length differs from vectors already indexed
+   */
+  add(id: string, vector: ArrayLike<number>): void {
+    if (this.nodes.length > 0 && vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, expected ${this.dimensions}`);
+    }
+    this.remove(id);
+
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelFactor);
+    const position = this.nodes.length;
+    const node: HnswNode = {
+      id,
+      vector: normalizeVector(vector),
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false
+    };
+    this.nodes.push(node);
+    this.positions.set(id, position);
+
+    if (this.entryPoint < 0) {
+      this.dimensions = vector.length;
+      this.entryPoint = position;
+      return;
+    }
+
+    const topLevel = this.nodes[this.entryPoint].neighbors.length - 1;
+    let entry = this.entryPoint;
+
+    // Descend greedily through layers above the new node's level
+    for (let layer = topLevel; layer > level; layer--) {
+      entry = this.searchLayer(node.vector, [entry], 1, layer)[0].node;
+    }
+
+    // Link the node on each of its layers
+    let entries = [entry];
+    for (let layer = Math.min(level, topLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entries, this.efConstruction, layer);
+      const maxNeighbors = layer === 0 ? this.m * 2 : this.m;
+      node.neighbors[layer] = this.selectNeighbors(candidates, this.m);
+
+      node.neighbors[layer].forEach(neighbor => {
+        const links = this.nodes[neighbor].neighbors[layer];
+        links.push(position);
+        if (links.length > maxNeighbors) {
+          const vector = this.nodes[neighbor].vector;
+          this.nodes[neighbor].neighbors[layer] = this.selectNeighbors(
+            links.map(link => ({ node: link, distance: 1 - dot(vector, this.nodes[link].vector) })),
+            maxNeighbors
+          );
+        }
+      });
+      entries = candidates.map(candidate => candidate.node);
+    }
+
+    if (level > topLevel) {
+      this.entryPoint = position;
+    }
+  }
+
+  /**
+   * Remove a vector
+   * @returns True if the vector was indexed
+   */
+  remove(id: string): boolean {
+    const position = this.positions.get(id);
+    if (position === undefined) return false;
+    this.nodes[position].deleted = true;
+    this.positions.delete(id);
+    return true;
+  }
+
+  /**
+   * Find the indexed vectors most similar to a query vector
+   * @param vector Query vector
+   * @param k Number of results
+   * @param ef Candidate list size; raise for better recall (default: the index's efSearch)
+   * @returns Up to k results, most similar first
+   */
+  search(vector: ArrayLike<number>, k: number = 10, ef: number = this.efSearch): HnswSearchResult[] {
+    if (this.entryPoint < 0 || k <= 0 || this.size === 0) return [];
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, expected ${this.dimensions}`);
+    }
+
+    const query = normalizeVector(vector);
+    let entry = this.entryPoint;
+    for (let layer = this.nodes[entry].neighbors.length - 1; layer > 0; layer--) {
+      entry = this.searchLayer(query, [entry], 1, layer)[0].node;
+    }
+
+    // Removed nodes still route the search, so look a little further to fill k results
+    const deleted = this.nodes.length - this.size;
+    const candidates = this.searchLayer(query, [entry], Math.max(ef, k) + Math.min(deleted, k), 0);
+
+    return candidates
+      .filter(candidate => !this.nodes[candidate.node].deleted)
+      .slice(0, k)
+      .map(candidate => ({ id: this.nodes[candidate.node].id, similarity: Math.min(1, 1 - candidate.distance) }));
+  }
+
+  /**
+   * Rebuild the graph without removed vectors
+   */
+  rebuild(): void {
+    const live = this.nodes.filter(node => !node.deleted);
+    this.nodes = [];
+    this.positions = new Map();
+    this.entryPoint = -1;
+    live.forEach(node => this.add(node.id, node.vector));
+  }
+
+  /**
+   * Serialize the index
+   */
+  toJSON(): HnswSnapshot {
+    return {
+      dimensions: this.dimensions,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      seed: this.seed,
+      entryPoint: this.entryPoint,
+      nodes: this.nodes.map(node => ({
+        id: node.id,
+        vector: encodeVector(node.vector),
+        neighbors: node.neighbors,
+        ...(node.deleted ? { deleted: true } : {})
+      }))
+    };
+  }
+
+  /**
+   * Best-first search of one layer
+   * @returns Up to `ef` closest nodes, closest first
+   */
+  private searchLayer(
+    query: Float32Array,
+    entries: number[],
+    ef: number,
+    layer: number
+  ): Array<{ node: number; distance: number }> {
+    const visited = new Set<number>(entries);
+    const candidates = new PriorityQueue();
+    // Negated distances, so the farthest result is on top
+    const results = new PriorityQueue();
+
+    entries.forEach(entry => {
+      const distance = 1 - dot(query, this.nodes[entry].vector);
+      candidates.push(entry, distance);
+      results.push(entry, -distance);
+    });
+    while (results.size > ef) results.pop();
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      if (closest.priority > -results.peek()!.priority) break;
+
+      for (const neighbor of this.nodes[closest.node].neighbors[layer] || []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const distance = 1 - dot(query, this.nodes[neighbor].vector);
+        if (results.size < ef || distance < -results.peek()!.priority) {
+          candidates.push(neighbor, distance);
+          results.push(neighbor, -distance);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    const found: Array<{ node: number; distance: number }> = [];
+    while (results.size > 0) {
+      const { node, priority } = results.pop()!;
+      found.push({ node, distance: -priority });
+    }
+    return found.reverse();
+  }
+
+  /**
+   * Choose up to `count` neighbours, skipping candidates closer to an already
+   * chosen neighbour than to the node so links spread in different directions
+   */
+  private selectNeighbors(candidates: Array<{ node: number; distance: number }>, count: number): number[] {
+    const sorted = [...candidates].sort((a, b) => a.distance - b.distance);
+    const selected: Array<{ node: number; distance: number }> = [];
+    const skipped: number[] = [];
+
+    for (const candidate of sorted) {
+      if (selected.length >= count) break;
+      const vector = this.nodes[candidate.node].vector;
+      const diverse = selected.every(chosen =>
+        candidate.distance < 1 - dot(vector, this.nodes[chosen.node].vector)
+      );
+      if (diverse) {
+        selected.push(candidate);
+      } else {
+        skipped.push(candidate.node);
+      }
+    }
+
+    // Fill up with the closest skipped candidates to keep the graph well connected
+    return [...selected.map(chosen => chosen.node), ...skipped].slice(0, count);
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Internationalization utilities
+ * Message catalogs with plural forms, and locale-aware formatting of numbers,
+ * dates, money and lists for user-facing text such as boat comparisons
+ */
+
+import { Money } from '@igorganapolsky/boats-types';
+import { formatMoney } from './money.utils';
+import { EN_MESSAGES } from '../i18n/en';
+import { DE_MESSAGES } from '../i18n/de';
+
+/**
+ * Message with a variant per plural category, selected by the `count` parameter
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/**
+ * Message template; `{name}` inserts a parameter as is and `{name, number}` formats it for the locale
+ */
+export type Message = string | PluralMessage;
+
+/**
+ * Messages of one locale by key
+ */
+export type MessageCatalog = Record<string, Message>;
+
+/**
+ * Parameters inserted into a message
+ */
+export type MessageParams = Record<string, string | number | undefined>;
+
+/**
+ * Locale whose messages are used when a message is missing in the requested locale
+ */
+export const DEFAULT_MESSAGE_LOCALE = 'en';
+
+const catalogRegistry = new Map<string, MessageCatalog>([
+  ['en', EN_MESSAGES],
+  ['de', DE_MESSAGES]
+]);
+
+/**
+ * Register messages for a locale, adding to or replacing its existing messages
+ * @param locale BCP 47 language tag, e.g. 'fr' or 'de-CH'
+ * @param messages Messages by key
+ */
+export function registerMessages(locale: string, messages: MessageCatalog): void {
+  const key = locale.toLowerCase();
+  catalogRegistry.set(key, { ...catalogRegistry.get(key), ...messages });
+}
+
+/**
+ * Get the locales that have registered messages
+ */
+export function getMessageLocales(): string[] {
+  return [...catalogRegistry.keys()];
+}
+
+/**
+ * Canonicalize a locale for Intl, accepting POSIX-style tags such as 'de_DE'
+ * @param locale Locale as given by the caller or the platform
+ * @returns BCP 47 language tag, e.g. 'de-DE', or undefined (the runtime locale) if the locale is invalid
+ */
+export function canonicalizeLocale(locale?: string): string | undefined {
+  if (!locale) return undefined;
+  try {
+    return Intl.getCanonicalLocales(locale.replace(/_/g, '-'))[0];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Locales to look messages up in, most specific first
+ * e.g. 'de-AT' → ['de-at', 'de', 'en']
+ */
+function getLocaleChain(locale?: string): string[] {
+  const chain: string[] = [];
+  const parts = (locale || DEFAULT_MESSAGE_LOCALE).toLowerCase().split(/[-_]/);
+  for (let length = parts.length; length > 0; length--) {
+    chain.push(parts.slice(0, length).join('-'));
+  }
+  if (!chain.includes(DEFAULT_MESSAGE_LOCALE)) chain.push(DEFAULT_MESSAGE_LOCALE);
+  return chain;
+}
+
+/**
+ * Translates messages and formats values for one locale
+ */
+export interface Translator {
+  /** Canonical requested locale; undefined formats values for the runtime locale */
+  locale?: string;
+  /**
+   * Translate a message
+   * @returns The message with its parameters inserted, or the key when no catalog has it
+   */
+  t(key: string, params?: MessageParams): string;
+  /** Whether any catalog in the locale chain has a message */
+  has(key: string): boolean;
+  formatNumber(value: number, options?: Intl.NumberFormatOptions): string;
+  /** Format a date or ISO 8601 timestamp (default: medium date style) */
+  formatDate(date: Date | string, options?: Intl.DateTimeFormatOptions): string;
+  formatMoney(money: Money | undefined, maximumFractionDigits?: number): string;
+  /** Join items as a sentence, e.g. "fishing, cruising and diving" */
+  formatList(items: string[]): string;
+}
+
+/**
+ * Create a translator for a locale
+ * Messages fall back from the regional locale to its language and then to English.
+ * @param requestedLocale BCP 47 language tag such as 'de-DE', or a POSIX-style 'de_DE' (default: English messages, runtime number formatting)
+ * @returns Translator for the locale
+ */
+export function createTranslator(requestedLocale?: string): Translator {
+  // Messages are looked up for the requested locale even when Intl can't format for it
+  const chain = getLocaleChain(requestedLocale);
+  const locale = canonicalizeLocale(requestedLocale);
+  let pluralRules: Intl.PluralRules | undefined;
+
+  const lookup = (key: string): Message | undefined => {
+    for (const candidate of chain) {
+      const message = catalogRegistry.get(candidate)?.[key];
+      if (message !== undefined) return message;
+    }
+    return undefined;
+  };
+
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+    new Intl.NumberFormat(locale, options).format(value);
+
+  const t = (key: string, params: MessageParams = {}): string => {
+    const message = lookup(key);
+    if (message === undefined) return key;
+
+    let template: string;
+    if (typeof message === 'string') {
+      template = message;
+    } else {
+      // Plural forms are chosen by the count parameter
+      pluralRules = pluralRules || new Intl.PluralRules(locale);
+      const count = Number(params.count);
+      template = (isNaN(count) ? undefined : message[pluralRules.select(count)]) || message.other;
+    }
+
+    return template.replace(/\{(\w+)(?:,\s*(number))?\}/g, (placeholder, name: string, style?: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return style === 'number' && typeof value === 'number' ? formatNumber(value) : `${value}`;
+    });
+  };
+
+  return {
+    locale,
+    t,
+    has: key => lookup(key) !== undefined,
+    formatNumber,
+    formatDate: (date, options = { dateStyle: 'medium' }) =>
+      new Intl.DateTimeFormat(locale, options).format(typeof date === 'string' ? new Date(date) : date),
+    formatMoney: (money, maximumFractionDigits) =>
+      money ? formatMoney(money, locale, maximumFractionDigits) : t('common.notAvailable'),
+    formatList: items => {
+      if (items.length <= 1) return items[0] || '';
+      return t('list.and', {
+        head: items.slice(0, -1).join(t('list.separator')),
+        last: items[items.length - 1]
+      });
+    }
+  };
+}
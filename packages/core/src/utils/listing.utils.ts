@@ -0,0 +1,131 @@
+/**
+ * Listing lifecycle utilities
+ * Helpers for listing status transitions, days on market and price movement
+ */
+
+import { ListingStatus, PriceChange } from '@igorganapolsky/boats-types';
+import { Boat } from '../types';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Allowed status transitions for a listing
+ */
+export const LISTING_STATUS_TRANSITIONS: Record<ListingStatus, ListingStatus[]> = {
+  draft: ['active'],
+  active: ['pending', 'sold', 'expired'],
+  pending: ['active', 'sold', 'expired'],
+  sold: [],
+  expired: ['active']
+};
+
+/**
+ * Check whether a listing may move from one status to another
+ */
+export function canTransitionListing(from: ListingStatus, to: ListingStatus): boolean {
+  return LISTING_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether a boat is currently on the market (active or pending)
+ * Boats without a status are treated as active
+ */
+export function isListingOnMarket(boat: Boat): boolean {
+  const status = boat.status || 'active';
+  return status === 'active' || status === 'pending';
+}
+
+/**
+ * Parse an ISO timestamp, returning undefined for missing or invalid values
+ */
+function parseTimestamp(timestamp?: string): number | undefined {
+  if (!timestamp) return undefined;
+  const time = Date.parse(timestamp);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Calculate how many days a boat has been on the market
+ * Counts from when the listing went live until it sold, or until now
+ * @param boat Boat listing
+ * @param now Reference date (default: current date)
+ * @returns Whole days on market, or undefined if the listing date is unknown
+ */
+export function getDaysOnMarket(boat: Boat, now: Date = new Date()): number | undefined {
+  const start = parseTimestamp(boat.listedAt) ?? parseTimestamp(boat.createdAt);
+  if (start === undefined) return undefined;
+  const end = parseTimestamp(boat.soldAt) ?? now.getTime();
+  return Math.max(0, Math.floor((end - start) / MS_PER_DAY));
+}
+
+/**
+ * Get the price changes of a boat in chronological order
+ */
+function getSortedPriceHistory(boat: Boat): PriceChange[] {
+  return [...(boat.priceHistory || [])]
+    .filter(change => parseTimestamp(change.changedAt) !== undefined)
+    .sort((a, b) => parseTimestamp(a.changedAt)! - parseTimestamp(b.changedAt)!);
+}
+
+/**
+ * Get the original asking price of a boat
+ * @returns The first recorded price, falling back to the current price
+ */
+export function getOriginalPrice(boat: Boat): number | undefined {
+  const history = getSortedPriceHistory(boat);
+  return history.length > 0 ? history[0].price : boat.price;
+}
+
+/**
+ * Get the most recent price change of a boat
+ * @returns The change with the previous price, or undefined if the price never changed
+ */
+export function getLastPriceChange(boat: Boat): { previousPrice: number; change: PriceChange } | undefined {
+  const history = getSortedPriceHistory(boat);
+  if (history.length < 2) return undefined;
+  return {
+    previousPrice: history[history.length - 2].price,
+    change: history[history.length - 1]
+  };
+}
+
+/**
+ * Calculate how far the price has dropped from the original asking price
+ * @returns Percentage drop (negative if the price went up), or undefined if unknown
+ */
+export function getPriceDropPercentage(boat: Boat): number | undefined {
+  const original = getOriginalPrice(boat);
+  const history = getSortedPriceHistory(boat);
+  const current = boat.price ?? (history.length > 0 ? history[history.length - 1].price : undefined);
+  if (!original || current === undefined) return undefined;
+  return ((original - current) / original) * 100;
+}
+
+/**
+ * Options for recently reduced detection
+ */
+export interface RecentlyReducedOptions {
+  /** How recent the reduction must be, in days (default: 14) */
+  withinDays?: number;
+  /** Minimum reduction to count, as a percentage of the previous price (default: 1) */
+  minDropPercent?: number;
+  /** Reference date (default: current date) */
+  now?: Date;
+}
+
+/**
+ * Check whether the price of a boat was reduced recently
+ * @param boat Boat listing
+ * @param options Detection thresholds
+ * @returns True if the last price change was a reduction within the window
+ */
+export function isRecentlyReduced(boat: Boat, options: RecentlyReducedOptions = {}): boolean {
+  const { withinDays = 14, minDropPercent = 1, now = new Date() } = options;
+  const last = getLastPriceChange(boat);
+  if (!last || last.previousPrice <= 0) return false;
+
+  const dropPercent = ((last.previousPrice - last.change.price) / last.previousPrice) * 100;
+  const daysAgo = (now.getTime() - parseTimestamp(last.change.changedAt)!) / MS_PER_DAY;
+
+  return dropPercent >= minDropPercent && daysAgo >= 0 && daysAgo <= withinDays;
+}
@@ -0,0 +1,260 @@
+/**
+ * Money utilities
+ * Currency-aware formatting, comparison and offline conversion of prices
+ * using a pluggable exchange rate table
+ */
+
+import { CurrencyCode, ExchangeRateTable, Money } from '@igorganapolsky/boats-types';
+import { Boat } from '../types';
+import { assertSchema, numberSchema, objectSchema, optionalSchema, recordSchema, Schema, stringSchema } from './validation.utils';
+import { fetchWithTimeout } from './network.utils';
+
+/**
+ * Currency assumed for prices that don't specify one
+ */
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+/**
+ * Approximate rates bundled for offline use.
+ * Replace them with current rates via `setExchangeRates` or `loadExchangeRates`.
+ */
+export const DEFAULT_EXCHANGE_RATES: ExchangeRateTable = {
+  base: 'USD',
+  asOf: '2025-01-02',
+  rates: {
+    USD: 1,
+    EUR: 0.96,
+    GBP: 0.80,
+    CAD: 1.44,
+    AUD: 1.61,
+    NZD: 1.78,
+    CHF: 0.91,
+    SEK: 11.03,
+    NOK: 11.35,
+    DKK: 7.18,
+    JPY: 157.2,
+    MXN: 20.54
+  }
+};
+
+/**
+ * Currency symbols that show up in listing data instead of ISO codes
+ */
+const CURRENCY_SYMBOLS: Record<string, CurrencyCode> = {
+  '$': 'USD',
+  'US$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  'C$': 'CAD',
+  'A$': 'AUD',
+  '¥': 'JPY'
+};
+
+/**
+ * Schema for exchange rate tables loaded from untrusted sources
+ */
+export const exchangeRateTableSchema: Schema<ExchangeRateTable> = objectSchema<ExchangeRateTable>({
+  base: stringSchema(),
+  rates: recordSchema(numberSchema({ min: 0 })),
+  asOf: optionalSchema(stringSchema())
+});
+
+let activeExchangeRates: ExchangeRateTable = DEFAULT_EXCHANGE_RATES;
+
+/**
+ * Get the exchange rate table used by default for conversions
+ */
+export function getExchangeRates(): ExchangeRateTable {
+  return activeExchangeRates;
+}
+
+/**
+ * Replace the exchange rate table used by default for conversions
+ */
+export function setExchangeRates(table: ExchangeRateTable): void {
+  activeExchangeRates = {
+    ...table,
+    base: normalizeCurrencyCode(table.base),
+    rates: Object.fromEntries(
+      Object.entries(table.rates).map(([code, rate]) => [normalizeCurrencyCode(code), rate])
+    )
+  };
+}
+
+/**
+ * Parse an exchange rate table, e.g. the contents of a bundled rates.json file
+ * @param data JSON string or already parsed value
+ * @returns The validated table
+ * @throws ValidationError if the data is not a valid exchange rate table
+ */
+export function parseExchangeRateTable(data: unknown): ExchangeRateTable {
+  const value = typeof data === 'string' ? JSON.parse(data) : data;
+  return assertSchema(exchangeRateTableSchema, value, 'exchangeRates');
+}
+
+/**
+ * Load an exchange rate table from a URL (including local asset URLs)
+ * and use it for subsequent conversions
+ * @param url Location of the rates JSON file
+ * @returns The loaded table
+ */
+export async function loadExchangeRates(url: string): Promise<ExchangeRateTable> {
+  const data = await fetchWithTimeout<unknown>(url);
+  const table = parseExchangeRateTable(data);
+  setExchangeRates(table);
+  return getExchangeRates();
+}
+
+/**
+ * Normalize a currency code or symbol to an upper-case ISO code
+ * @example normalizeCurrencyCode('€') // 'EUR'
+ */
+export function normalizeCurrencyCode(currency: string | undefined): CurrencyCode {
+  if (!currency) return DEFAULT_CURRENCY;
+  const trimmed = currency.trim();
+  return CURRENCY_SYMBOLS[trimmed] || trimmed.toUpperCase();
+}
+
+/**
+ * Create a money value
+ */
+export function createMoney(amount: number, currency: CurrencyCode = DEFAULT_CURRENCY): Money {
+  return { amount, currency: normalizeCurrencyCode(currency) };
+}
+
+/**
+ * Get the asking price of a boat as a money value
+ * @returns The price, or undefined if the boat has no price
+ */
+export function getBoatPrice(boat: Boat): Money | undefined {
+  return boat.price !== undefined ? createMoney(boat.price, boat.currency) : undefined;
+}
+
+/**
+ * Get the rate for a currency relative to the table's base currency
+ */
+function getRate(currency: CurrencyCode, table: ExchangeRateTable): number | undefined {
+  if (currency === table.base) return 1;
+  const rate = table.rates[currency];
+  return rate > 0 ? rate : undefined;
+}
+
+/**
+ * Convert money to another currency
+ * @param money Money to convert
+ * @param to Target currency
+ * @param table Exchange rates to use (default: the active table)
+ * @returns The converted money, or undefined if either currency has no rate
+ */
+export function convertMoney(
+  money: Money,
+  to: CurrencyCode,
+  table: ExchangeRateTable = activeExchangeRates
+): Money | undefined {
+  const from = normalizeCurrencyCode(money.currency);
+  const target = normalizeCurrencyCode(to);
+  if (from === target) return { amount: money.amount, currency: target };
+
+  const fromRate = getRate(from, table);
+  const toRate = getRate(target, table);
+  if (fromRate === undefined || toRate === undefined) return undefined;
+
+  return { amount: (money.amount / fromRate) * toRate, currency: target };
+}
+
+/**
+ * Get the price of a boat in a given currency
+ * @returns The converted price, or undefined if the boat has no price or it can't be converted
+ */
+export function getBoatPriceIn(
+  boat: Boat,
+  currency: CurrencyCode,
+  table: ExchangeRateTable = activeExchangeRates
+): Money | undefined {
+  const price = getBoatPrice(boat);
+  return price ? convertMoney(price, currency, table) : undefined;
+}
+
+/**
+ * Compare two amounts of money, converting to a common currency if needed
+ * @returns Negative if a < b, positive if a > b, 0 if equal, or undefined if they can't be compared
+ */
+export function compareMoney(
+  a: Money,
+  b: Money,
+  table: ExchangeRateTable = activeExchangeRates
+): number | undefined {
+  const converted = convertMoney(b, a.currency, table);
+  return converted ? a.amount - converted.amount : undefined;
+}
+
+/**
+ * Sort boats by price in a common currency
+ * Boats without a convertible price are placed last in their original order
+ * @param boats Boats to sort
+ * @param currency Currency to compare prices in
+ * @param direction Sort direction (default: 'asc')
+ * @param table Exchange rates to use (default: the active table)
+ */
+export function sortBoatsByPrice(
+  boats: Boat[],
+  currency: CurrencyCode,
+  direction: 'asc' | 'desc' = 'asc',
+  table: ExchangeRateTable = activeExchangeRates
+): Boat[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return boats
+    .map(boat => ({ boat, price: getBoatPriceIn(boat, currency, table)?.amount }))
+    .sort((a, b) => {
+      if (a.price === undefined) return b.price === undefined ? 0 : 1;
+      if (b.price === undefined) return -1;
+      return (a.price - b.price) * sign;
+    })
+    .map(({ boat }) => boat);
+}
+
+/**
+ * Keep only the boats whose price falls within a range given in a common currency
+ * Boats without a convertible price are excluded
+ * @param boats Boats to filter
+ * @param range Minimum and maximum price, either of which may be null
+ * @param currency Currency of the range
+ * @param table Exchange rates to use (default: the active table)
+ */
+export function filterBoatsByPrice(
+  boats: Boat[],
+  range: [number | null, number | null],
+  currency: CurrencyCode,
+  table: ExchangeRateTable = activeExchangeRates
+): Boat[] {
+  const [min, max] = range;
+  return boats.filter(boat => {
+    const price = getBoatPriceIn(boat, currency, table)?.amount;
+    if (price === undefined) return false;
+    return (min === null || price >= min) && (max === null || price <= max);
+  });
+}
+
+/**
+ * Format money for display using the locale's currency conventions
+ * @param money Money to format
+ * @param locale Optional locale, e.g. 'en-US' or 'de-DE'
+ * @param maximumFractionDigits Decimal places to show (default: 0)
+ * @returns Formatted amount such as "€550,000", or 'N/A' when missing
+ */
+export function formatMoney(money: Money | undefined, locale?: string, maximumFractionDigits: number = 0): string {
+  if (!money) return 'N/A';
+  const currency = normalizeCurrencyCode(money.currency);
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits
+    }).format(money.amount);
+  } catch {
+    // Unknown currency codes are rejected by Intl
+    const amount = new Intl.NumberFormat(locale, { maximumFractionDigits }).format(money.amount);
+    return `${amount} ${currency}`;
+  }
+}
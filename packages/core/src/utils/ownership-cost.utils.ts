@@ -0,0 +1,289 @@
+/**
+ * Ownership cost utilities
+ * Estimates the annual and multi-year cost of owning a boat (fuel, insurance,
+ * storage, maintenance, registration and depreciation) from a pluggable rate table
+ */
+
+import {
+  CurrencyCode,
+  EngineFuelType,
+  OwnershipCostCategory,
+  OwnershipCostEstimate,
+  OwnershipCostYear,
+  FuelRate,
+  OwnershipRateTable,
+  RegistrationBracket,
+  StorageType
+} from '@igorganapolsky/boats-types';
+import { Boat } from '../types';
+import { convertMoney, createMoney, getBoatPrice, getBoatPriceIn, normalizeCurrencyCode } from './money.utils';
+import { getEngineCount, getEngineFuelType, getTotalHorsepower } from './propulsion.utils';
+import { getBoatLength } from './units.utils';
+import {
+  arraySchema,
+  assertSchema,
+  numberSchema,
+  objectSchema,
+  optionalSchema,
+  recordSchema,
+  Schema,
+  stringSchema
+} from './validation.utils';
+import { fetchWithTimeout } from './network.utils';
+
+/**
+ * Options for estimating the cost of owning a boat
+ */
+export interface OwnershipCostOptions {
+  /** Length of the ownership period in years (default: 5) */
+  years?: number;
+  /** Engine hours per year (default: the rate table's) */
+  hoursPerYear?: number;
+  /** Where the boat is kept (default: 'slip') */
+  storage?: StorageType;
+  /** Currency of the estimate (default: the boat's currency) */
+  currency?: CurrencyCode;
+  /** Rates to use (default: the active table) */
+  rates?: OwnershipRateTable;
+}
+
+/**
+ * Cost categories in the order they are reported
+ */
+export const OWNERSHIP_COST_CATEGORIES: OwnershipCostCategory[] = [
+  'fuel',
+  'insurance',
+  'storage',
+  'maintenance',
+  'registration',
+  'depreciation'
+];
+
+/**
+ * Approximate US rates bundled for offline use.
+ * Replace them with local rates via `setOwnershipRates` or `loadOwnershipRates`.
+ */
+export const DEFAULT_OWNERSHIP_RATES: OwnershipRateTable = {
+  currency: 'USD',
+  asOf: '2025-01-02',
+  hoursPerYear: 75,
+  throttleLoad: 0.5,
+  fuel: {
+    gasoline: { consumptionPerHpHour: 0.1, unitPrice: 4.5 },
+    diesel: { consumptionPerHpHour: 0.055, unitPrice: 4.8 },
+    hybrid: { consumptionPerHpHour: 0.07, unitPrice: 4.5 },
+    electric: { consumptionPerHpHour: 0.75, unitPrice: 0.17 }
+  },
+  insurance: { rateOfValue: 0.015, minimumPremium: 300 },
+  storage: {
+    slip: { perFootPerYear: 150, minimumPerYear: 1200 },
+    mooring: { perFootPerYear: 60, minimumPerYear: 600 },
+    dryStack: { perFootPerYear: 110, minimumPerYear: 1500 },
+    trailer: { perFootPerYear: 0, minimumPerYear: 600 }
+  },
+  maintenance: { rateOfValue: 0.03, perEngineHour: 3 },
+  registration: [
+    { maxLength: 16, amount: 50 },
+    { maxLength: 26, amount: 100 },
+    { maxLength: 40, amount: 200 },
+    { amount: 350 }
+  ],
+  depreciation: { firstYearRate: 0.2, annualRate: 0.07 }
+};
+
+/**
+ * Fuel type assumed for engines that don't state one
+ */
+const DEFAULT_FUEL_TYPE: EngineFuelType = 'gasoline';
+
+/**
+ * Ownership period used when none (or an invalid one) is given, in years
+ */
+const DEFAULT_OWNERSHIP_YEARS = 5;
+
+const rateSchema = numberSchema({ min: 0 });
+const shareSchema = numberSchema({ min: 0, max: 1 });
+const fuelRateSchema = objectSchema({ consumptionPerHpHour: rateSchema, unitPrice: rateSchema });
+const storageRateSchema = objectSchema({ perFootPerYear: rateSchema, minimumPerYear: rateSchema });
+
+/**
+ * Schema for ownership rate tables loaded from untrusted sources
+ */
+export const ownershipRateTableSchema: Schema<OwnershipRateTable> = objectSchema<OwnershipRateTable>({
+  currency: stringSchema(),
+  asOf: optionalSchema(stringSchema()),
+  hoursPerYear: rateSchema,
+  throttleLoad: shareSchema,
+  fuel: recordSchema(fuelRateSchema),
+  insurance: objectSchema({ rateOfValue: shareSchema, minimumPremium: rateSchema }),
+  storage: objectSchema<OwnershipRateTable['storage']>({
+    slip: storageRateSchema,
+    mooring: storageRateSchema,
+    dryStack: storageRateSchema,
+    trailer: storageRateSchema
+  }),
+  maintenance: objectSchema({ rateOfValue: shareSchema, perEngineHour: rateSchema }),
+  registration: arraySchema(objectSchema({ maxLength: optionalSchema(rateSchema), amount: rateSchema })),
+  depreciation: objectSchema({ firstYearRate: shareSchema, annualRate: shareSchema })
+});
+
+let activeOwnershipRates: OwnershipRateTable = DEFAULT_OWNERSHIP_RATES;
+
+/**
+ * Get the rate table used by default for cost of ownership estimates
+ */
+export function getOwnershipRates(): OwnershipRateTable {
+  return activeOwnershipRates;
+}
+
+/**
+ * Replace the rate table used by default for cost of ownership estimates
+ */
+export function setOwnershipRates(table: OwnershipRateTable): void {
+  activeOwnershipRates = {
+    ...table,
+    currency: normalizeCurrencyCode(table.currency),
+    registration: sortRegistrationBrackets(table.registration)
+  };
+}
+
+/**
+ * Sort registration brackets by length, open-ended bracket last
+ */
+function sortRegistrationBrackets(brackets: RegistrationBracket[]): RegistrationBracket[] {
+  return [...brackets].sort((a, b) => (a.maxLength ?? Infinity) - (b.maxLength ?? Infinity));
+}
+
+/**
+ * Parse an ownership rate table, e.g. the contents of a bundled ownership-rates.json file
+ * @param data JSON string or already parsed value
+ * @returns The validated table
+ * @throws ValidationError if the data is not a valid ownership rate table
+ */
+export function parseOwnershipRateTable(data: unknown): OwnershipRateTable {
+  const value = typeof data === 'string' ? JSON.parse(data) : data;
+  return assertSchema(ownershipRateTableSchema, value, 'ownershipRates');
+}
+
+/**
+ * Load an ownership rate table from a URL (including local asset URLs)
+ * and use it for subsequent estimates
+ * @param url Location of the rates JSON file
+ * @returns The loaded table
+ */
+export async function loadOwnershipRates(url: string): Promise<OwnershipRateTable> {
+  const data = await fetchWithTimeout<unknown>(url);
+  const table = parseOwnershipRateTable(data);
+  setOwnershipRates(table);
+  return getOwnershipRates();
+}
+
+/**
+ * Get the fuel rate a boat's running costs are estimated with
+ * Engines that don't state a fuel type are assumed to run on gasoline.
+ * @returns The rate, or undefined if the table has none for the boat's fuel type
+ */
+function getOwnershipFuelRate(boat: Boat, rates: OwnershipRateTable): FuelRate | undefined {
+  const listed = (getEngineFuelType(boat) || boat.fuelType?.toLowerCase()) as EngineFuelType | undefined;
+  return rates.fuel[listed || DEFAULT_FUEL_TYPE];
+}
+
+/**
+ * Get a usage option, falling back to the default when it is missing or not a usable number
+ */
+function getUsageOption(value: number | undefined, fallback: number): number {
+  return value !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Estimate the annual and multi-year cost of owning a boat
+ * Fuel scales with horsepower and engine hours, insurance with the boat's value
+ * as it depreciates, storage and registration with length, and maintenance with
+ * the purchase price and engine hours. Categories whose data the listing lacks
+ * are left out and reported as missing, as is fuel when the rate table has no
+ * rate for the boat's fuel type.
+ * @param boat Boat to estimate
+ * @param options Ownership period, usage, storage, currency and rates
+ * @returns Cost estimate, or undefined if no cost could be estimated or the rates can't be converted to the currency
+ */
+export function estimateOwnershipCost(
+  boat: Boat,
+  options: OwnershipCostOptions = {}
+): OwnershipCostEstimate | undefined {
+  const rates = options.rates || activeOwnershipRates;
+  const years = Math.max(1, Math.round(getUsageOption(options.years, DEFAULT_OWNERSHIP_YEARS)));
+  const hoursPerYear = getUsageOption(options.hoursPerYear, rates.hoursPerYear);
+  const storage = options.storage || 'slip';
+  const currency = normalizeCurrencyCode(options.currency || getBoatPrice(boat)?.currency || rates.currency);
+
+  // Rate table amounts are converted with a single factor
+  const scale = convertMoney(createMoney(1, rates.currency), currency)?.amount;
+  if (scale === undefined) return undefined;
+
+  const purchasePrice = getBoatPriceIn(boat, currency);
+  const length = getBoatLength(boat, 'length', 'ft')?.value;
+  const horsepower = getTotalHorsepower(boat);
+
+  // Costs that are the same every year
+  const fixed: Partial<Record<OwnershipCostCategory, number>> = {};
+  const fuel = horsepower ? getOwnershipFuelRate(boat, rates) : undefined;
+  if (horsepower && fuel) {
+    fixed.fuel = horsepower * fuel.consumptionPerHpHour * rates.throttleLoad * hoursPerYear * fuel.unitPrice * scale;
+  }
+  if (length) {
+    const storageRate = rates.storage[storage];
+    fixed.storage = Math.max(storageRate.perFootPerYear * length, storageRate.minimumPerYear) * scale;
+    const bracket = sortRegistrationBrackets(rates.registration).find(entry => entry.maxLength === undefined || length <= entry.maxLength);
+    if (bracket) fixed.registration = bracket.amount * scale;
+  }
+  if (purchasePrice) {
+    const engines = getEngineCount(boat) || (horsepower ? 1 : 0);
+    fixed.maintenance = purchasePrice.amount * rates.maintenance.rateOfValue +
+      engines * hoursPerYear * rates.maintenance.perEngineHour * scale;
+  }
+
+  // Insurance and depreciation follow the boat's value year by year
+  const yearly: OwnershipCostYear[] = [];
+  let value = purchasePrice?.amount;
+  for (let year = 1; year <= years; year++) {
+    const costs: Partial<Record<OwnershipCostCategory, number>> = { ...fixed };
+    if (value !== undefined) {
+      costs.insurance = Math.max(value * rates.insurance.rateOfValue, rates.insurance.minimumPremium * scale);
+      const rate = year === 1 && boat.condition === 'new'
+        ? rates.depreciation.firstYearRate
+        : rates.depreciation.annualRate;
+      costs.depreciation = value * rate;
+      value -= costs.depreciation;
+    }
+    const rounded = Object.fromEntries(
+      Object.entries(costs).map(([category, amount]) => [category, Math.round(amount!)])
+    ) as Partial<Record<OwnershipCostCategory, number>>;
+    yearly.push({
+      year,
+      costs: rounded,
+      total: Object.values(rounded).reduce((sum, amount) => sum + amount!, 0),
+      ...(value !== undefined ? { value: Math.round(value) } : {})
+    });
+  }
+
+  const included = OWNERSHIP_COST_CATEGORIES.filter(category => yearly[0].costs[category] !== undefined);
+  if (included.length === 0) return undefined;
+  const total = yearly.reduce((sum, entry) => sum + entry.total, 0);
+
+  return {
+    currency,
+    years,
+    ...(purchasePrice ? { purchasePrice } : {}),
+    ...(value !== undefined ? { resaleValue: createMoney(Math.round(value), currency) } : {}),
+    breakdown: included.map(category => ({
+      category,
+      firstYear: createMoney(yearly[0].costs[category]!, currency),
+      total: createMoney(yearly.reduce((sum, entry) => sum + entry.costs[category]!, 0), currency)
+    })),
+    yearly,
+    annualAverage: createMoney(Math.round(total / years), currency),
+    total: createMoney(total, currency),
+    missing: OWNERSHIP_COST_CATEGORIES.filter(category => !included.includes(category)),
+    assumptions: { hoursPerYear, storage }
+  };
+}
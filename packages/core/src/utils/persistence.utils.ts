@@ -0,0 +1,244 @@
+/**
+ * Persistence utilities
+ * Versioned, storage-agnostic persistence for state slices, with migrations
+ * between schema versions and safe fallbacks when stored data is corrupt
+ */
+
+import {
+  ImageAnalysisResult,
+  PersistedEnvelope,
+  PersistedStateResult,
+  StorageAdapter,
+  UserPreferences
+} from '@igorganapolsky/boats-types';
+import {
+  arraySchema,
+  formatValidationIssues,
+  imageAnalysisResultSchema,
+  isImageAnalysisResult,
+  Schema,
+  userPreferencesSchema
+} from './validation.utils';
+import { detectBoatType, normalizeBoatType } from './boat-type.utils';
+import { DEFAULT_CURRENCY } from './money.utils';
+
+/**
+ * Upgrades data from the previous schema version to the next one
+ */
+export type Migration = (data: unknown) => unknown;
+
+/**
+ * Describes how a state slice is persisted
+ */
+export interface PersistConfig<T> {
+  /** Storage key */
+  key: string;
+  /** Current schema version, starting at 1 */
+  version: number;
+  /** Schema the data must match after migration */
+  schema: Schema<T>;
+  /** Upgrades keyed by the version they produce: `migrations[2]` turns version 1 data into version 2 */
+  migrations?: Record<number, Migration>;
+  /** Value used when nothing usable is stored */
+  defaultValue: () => T;
+}
+
+/**
+ * Loads and saves a single state slice
+ */
+export interface PersistedStore<T> {
+  load(): Promise<PersistedStateResult<T>>;
+  save(value: T): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Check whether stored JSON is a versioned envelope
+ */
+function isEnvelope(value: unknown): value is PersistedEnvelope<unknown> {
+  return typeof value === 'object' && value !== null &&
+    Number.isInteger((value as PersistedEnvelope<unknown>).version) &&
+    'data' in value;
+}
+
+/**
+ * Serialize a state slice into a versioned envelope
+ * @param config Persistence configuration of the slice
+ * @param value Value to store
+ * @param now Save time (default: current date)
+ * @returns JSON string to store
+ */
+export function serializeState<T>(config: PersistConfig<T>, value: T, now: Date = new Date()): string {
+  const envelope: PersistedEnvelope<T> = {
+    version: config.version,
+    savedAt: now.toISOString(),
+    data: value
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Run the migrations needed to bring data up to the current version
+ * @param config Persistence configuration of the slice
+ * @param data Stored data
+ * @param fromVersion Version the data was written with
+ * @returns Data in the current version's shape (not yet validated)
+ * @throws Error if a migration is missing or fails
+ */
+export function migrateState<T>(config: PersistConfig<T>, data: unknown, fromVersion: number): unknown {
+  let migrated = data;
+  for (let version = fromVersion + 1; version <= config.version; version++) {
+    const migration = config.migrations?.[version];
+    if (!migration) {
+      throw new Error(`No migration for "${config.key}" from version ${version - 1} to ${version}`);
+    }
+    migrated = migration(migrated);
+  }
+  return migrated;
+}
+
+/**
+ * Deserialize a stored state slice, migrating and validating it
+ * Never throws: corrupt, unsupported or invalid data falls back to the default value.
+ * Data stored before versioning (not wrapped in an envelope) is treated as version 1.
+ * @param config Persistence configuration of the slice
+ * @param raw Stored JSON string, or null if nothing is stored
+ */
+export function deserializeState<T>(config: PersistConfig<T>, raw: string | null): PersistedStateResult<T> {
+  if (raw === null) {
+    return { value: config.defaultValue(), source: 'default' };
+  }
+
+  let storedVersion: number | undefined;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    const envelope = isEnvelope(parsed) ? parsed : { version: 1, data: parsed };
+    storedVersion = envelope.version;
+
+    if (storedVersion > config.version) {
+      throw new Error(`Stored version ${storedVersion} is newer than supported version ${config.version}`);
+    }
+
+    const data = migrateState(config, envelope.data, storedVersion);
+    const issues = config.schema.check(data, config.key);
+    if (issues.length > 0) {
+      throw new Error(`Invalid ${config.key}: ${formatValidationIssues(issues)}`);
+    }
+
+    return {
+      value: data as T,
+      source: storedVersion === config.version ? 'stored' : 'migrated',
+      storedVersion
+    };
+  } catch (error) {
+    return {
+      value: config.defaultValue(),
+      source: 'recovered',
+      storedVersion,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Create a store that persists a state slice in the given storage
+ * @param config Persistence configuration of the slice
+ * @param storage Storage backend, e.g. localStorage or AsyncStorage
+ * @returns Store for loading, saving and clearing the slice
+ */
+export function createPersistedStore<T>(config: PersistConfig<T>, storage: StorageAdapter): PersistedStore<T> {
+  return {
+    async load() {
+      let raw: string | null;
+      try {
+        raw = await storage.getItem(config.key);
+      } catch (error) {
+        return {
+          value: config.defaultValue(),
+          source: 'recovered',
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+      return deserializeState(config, raw);
+    },
+    async save(value: T) {
+      await storage.setItem(config.key, serializeState(config, value));
+    },
+    async clear() {
+      await storage.removeItem(config.key);
+    }
+  };
+}
+
+/**
+ * Preferences for users who have not chosen any
+ */
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  theme: 'system',
+  notifications: true,
+  analyticsConsent: false,
+  advancedMode: false,
+  measurementUnit: 'imperial',
+  currency: DEFAULT_CURRENCY
+};
+
+/**
+ * Persistence of UserPreferences
+ * v2 added measurementUnit and currency
+ */
+export const USER_PREFERENCES_PERSIST_CONFIG: PersistConfig<UserPreferences> = {
+  key: 'boats:userPreferences',
+  version: 2,
+  schema: userPreferencesSchema,
+  migrations: {
+    2: data => ({ ...DEFAULT_USER_PREFERENCES, ...(data as object) })
+  },
+  defaultValue: () => ({ ...DEFAULT_USER_PREFERENCES })
+};
+
+/**
+ * Upgrade a version 1 analysis result, whose boatType was free-form text
+ */
+function migrateAnalysisResultV2(entry: unknown): unknown {
+  if (typeof entry !== 'object' || entry === null) return entry;
+  const result = entry as Record<string, unknown>;
+  const boatType = typeof result.boatType === 'string'
+    ? normalizeBoatType(result.boatType) ?? detectBoatType(result.boatType)
+    : undefined;
+  return {
+    ...result,
+    boatType,
+    features: Array.isArray(result.features) ? result.features : [],
+    description: typeof result.description === 'string' ? result.description : '',
+    suitableActivities: Array.isArray(result.suitableActivities) ? result.suitableActivities : []
+  };
+}
+
+/**
+ * Persistence of AnalysisState.history
+ * v2 replaced free-form boatType strings with canonical boat types;
+ * entries that still can't be read are dropped rather than discarding the whole history
+ */
+export const ANALYSIS_HISTORY_PERSIST_CONFIG: PersistConfig<ImageAnalysisResult[]> = {
+  key: 'boats:analysisHistory',
+  version: 2,
+  schema: arraySchema(imageAnalysisResultSchema),
+  migrations: {
+    2: data => (Array.isArray(data) ? data.map(migrateAnalysisResultV2).filter(isImageAnalysisResult) : [])
+  },
+  defaultValue: () => []
+};
+
+/**
+ * Create a store for the user's preferences
+ */
+export function createUserPreferencesStore(storage: StorageAdapter): PersistedStore<UserPreferences> {
+  return createPersistedStore(USER_PREFERENCES_PERSIST_CONFIG, storage);
+}
+
+/**
+ * Create a store for the image analysis history
+ */
+export function createAnalysisHistoryStore(storage: StorageAdapter): PersistedStore<ImageAnalysisResult[]> {
+  return createPersistedStore(ANALYSIS_HISTORY_PERSIST_CONFIG, storage);
+}
@@ -0,0 +1,216 @@
+/**
+ * Propulsion utilities
+ * Helpers for reading, summarizing and comparing the engines of a boat
+ */
+
+import { BoatPropulsion, DriveType, Engine, EngineFuelType } from '@igorganapolsky/boats-types';
+import { Boat } from '../types';
+import { createTranslator, Translator } from './i18n.utils';
+
+/**
+ * Drive types that share an inboard engine installation
+ */
+const INBOARD_FAMILY: DriveType[] = ['inboard', 'sterndrive', 'pod'];
+
+/**
+ * Words used in listings to describe the number of engines
+ */
+const ENGINE_COUNT_WORDS: Record<string, number> = {
+  single: 1,
+  twin: 2,
+  dual: 2,
+  triple: 3,
+  quad: 4
+};
+
+/**
+ * Parse a free-form engine description such as "Twin Diesel" or
+ * "Triple Mercury 300hp outboards" into a structured propulsion model
+ * @param description Engine description from a listing
+ * @returns Structured propulsion, or undefined if nothing could be recognized
+ */
+export function parseEngineDescription(description: string): BoatPropulsion | undefined {
+  const text = description.toLowerCase();
+
+  const countWord = Object.keys(ENGINE_COUNT_WORDS).find(word => new RegExp(`\\b${word}\\b`).test(text));
+  const engineCount = countWord ? ENGINE_COUNT_WORDS[countWord] : 1;
+
+  let driveType: DriveType | undefined;
+  if (/\bout-?boards?\b/.test(text)) driveType = 'outboard';
+  else if (/\bstern-?drives?\b|\bi\/o\b/.test(text)) driveType = 'sterndrive';
+  else if (/\bpods?\b|\bips\b|\bzeus\b/.test(text)) driveType = 'pod';
+  else if (/\bjet\b/.test(text)) driveType = 'jet';
+  else if (/\bin-?boards?\b/.test(text)) driveType = 'inboard';
+
+  let fuelType: EngineFuelType | undefined;
+  if (/\bdiesel\b/.test(text)) fuelType = 'diesel';
+  else if (/\bhybrid\b/.test(text)) fuelType = 'hybrid';
+  else if (/\belectric\b/.test(text)) fuelType = 'electric';
+  else if (/\bgas(oline)?\b|\bpetrol\b/.test(text)) fuelType = 'gasoline';
+
+  const horsepowerMatch = text.match(/(\d{2,4})\s*-?\s*(?:hp|horsepower)\b/);
+  const horsepower = horsepowerMatch ? parseInt(horsepowerMatch[1], 10) : undefined;
+
+  if (!countWord && !driveType && !fuelType && horsepower === undefined) {
+    return undefined;
+  }
+
+  const engine: Engine = {};
+  if (driveType) engine.driveType = driveType;
+  if (fuelType) engine.fuelType = fuelType;
+  if (horsepower !== undefined) engine.horsepower = horsepower;
+
+  return { engines: Array.from({ length: engineCount }, () => ({ ...engine })) };
+}
+
+/**
+ * Get the propulsion of a boat, falling back to the legacy engineType description
+ * @param boat Boat to read from
+ * @returns Structured propulsion, or undefined if the boat does not describe its engines
+ */
+export function getBoatPropulsion(boat: Boat): BoatPropulsion | undefined {
+  if (boat.propulsion && boat.propulsion.engines.length > 0) {
+    return boat.propulsion;
+  }
+  return boat.engineType ? parseEngineDescription(boat.engineType) : undefined;
+}
+
+/**
+ * Get the number of engines on a boat
+ */
+export function getEngineCount(boat: Boat): number | undefined {
+  return getBoatPropulsion(boat)?.engines.length;
+}
+
+/**
+ * Get the combined horsepower of all engines on a boat
+ * @returns Total horsepower, or undefined if no engine reports horsepower
+ */
+export function getTotalHorsepower(boat: Boat): number | undefined {
+  const engines = getBoatPropulsion(boat)?.engines || [];
+  const rated = engines.filter(engine => engine.horsepower !== undefined);
+  if (rated.length === 0) return undefined;
+  // Assume unrated engines in a multi-engine installation match the rated ones
+  const averageHorsepower = rated.reduce((sum, engine) => sum + (engine.horsepower || 0), 0) / rated.length;
+  return Math.round(averageHorsepower * engines.length);
+}
+
+/**
+ * Get the engine hours of a boat
+ * Uses the highest hours across engines, since the most used engine drives maintenance
+ * @returns Engine hours, or undefined if no engine reports hours
+ */
+export function getEngineHours(boat: Boat): number | undefined {
+  const hours = (getBoatPropulsion(boat)?.engines || [])
+    .map(engine => engine.hours)
+    .filter((h): h is number => h !== undefined);
+  return hours.length > 0 ? Math.max(...hours) : undefined;
+}
+
+/**
+ * Get the drive type of a boat, if all engines share one
+ */
+export function getDriveType(boat: Boat): DriveType | undefined {
+  const driveTypes = new Set(
+    (getBoatPropulsion(boat)?.engines || [])
+      .map(engine => engine.driveType)
+      .filter((d): d is DriveType => d !== undefined)
+  );
+  return driveTypes.size === 1 ? [...driveTypes][0] : undefined;
+}
+
+/**
+ * Get the engine fuel type of a boat, if all engines share one
+ */
+export function getEngineFuelType(boat: Boat): EngineFuelType | undefined {
+  const fuelTypes = new Set(
+    (getBoatPropulsion(boat)?.engines || [])
+      .map(engine => engine.fuelType)
+      .filter((f): f is EngineFuelType => f !== undefined)
+  );
+  return fuelTypes.size === 1 ? [...fuelTypes][0] : undefined;
+}
+
+/**
+ * Score how similar two drive types are
+ * @returns 1 for the same drive type, 0.5 for related inboard installations, 0 otherwise
+ */
+export function calculateDriveTypeSimilarity(driveType1: DriveType, driveType2: DriveType): number {
+  if (driveType1 === driveType2) return 1;
+  if (INBOARD_FAMILY.includes(driveType1) && INBOARD_FAMILY.includes(driveType2)) return 0.5;
+  return 0;
+}
+
+/**
+ * Calculate similarity between the propulsion systems of two boats
+ * Compares total horsepower, engine hours, drive type and engine count
+ * @param boat1 First boat
+ * @param boat2 Second boat
+ * @returns Similarity score between 0 and 1, or null if propulsion can't be compared
+ */
+export function calculatePropulsionSimilarity(boat1: Boat, boat2: Boat): number | null {
+  let comparableAttributes = 0;
+  let totalScore = 0;
+
+  const horsepower1 = getTotalHorsepower(boat1);
+  const horsepower2 = getTotalHorsepower(boat2);
+  if (horsepower1 && horsepower2) {
+    totalScore += Math.min(horsepower1, horsepower2) / Math.max(horsepower1, horsepower2);
+    comparableAttributes++;
+  }
+
+  const hours1 = getEngineHours(boat1);
+  const hours2 = getEngineHours(boat2);
+  if (hours1 !== undefined && hours2 !== undefined) {
+    // Consider engines within 1000 hours of each other to be comparable
+    totalScore += Math.max(0, 1 - Math.abs(hours1 - hours2) / 1000);
+    comparableAttributes++;
+  }
+
+  const driveType1 = getDriveType(boat1);
+  const driveType2 = getDriveType(boat2);
+  if (driveType1 && driveType2) {
+    totalScore += calculateDriveTypeSimilarity(driveType1, driveType2);
+    comparableAttributes++;
+  }
+
+  const count1 = getEngineCount(boat1);
+  const count2 = getEngineCount(boat2);
+  if (count1 && count2) {
+    totalScore += Math.min(count1, count2) / Math.max(count1, count2);
+    comparableAttributes++;
+  }
+
+  return comparableAttributes > 0 ? totalScore / comparableAttributes : null;
+}
+
+/**
+ * Format the propulsion of a boat for display, e.g. "2 × Mercury Verado (600 hp total)"
+ * @param boat Boat to describe
+ * @param i18n Translator for the fuel type, drive type and power (default: English)
+ * @returns Formatted description, or 'N/A' when the boat does not describe its engines
+ */
+export function formatPropulsion(boat: Boat, i18n: Translator = createTranslator()): string {
+  const propulsion = getBoatPropulsion(boat);
+  if (!propulsion) return i18n.t('common.notAvailable');
+
+  const first = propulsion.engines[0];
+  const parts: string[] = [];
+  const makeModel = [first.make, first.model].filter(Boolean).join(' ');
+  if (makeModel) parts.push(makeModel);
+  const driveType = getDriveType(boat);
+  const fuelType = getEngineFuelType(boat);
+  if (fuelType) parts.push(i18n.t(`fuelType.${fuelType}`));
+  if (driveType) parts.push(i18n.t(`driveType.${driveType}`));
+
+  const count = propulsion.engines.length;
+  let description = `${count} × ${parts.length > 0 ? parts.join(' ') : i18n.t('propulsion.engine')}`;
+
+  const horsepower = getTotalHorsepower(boat);
+  if (horsepower) {
+    const power = i18n.t('attribute.horsepower.value', { value: horsepower });
+    description += ` (${count > 1 ? i18n.t('propulsion.totalHorsepower', { horsepower: power }) : power})`;
+  }
+
+  return description;
+}
@@ -0,0 +1,20 @@
+/**
+ * Random number utilities
+ * Seeded pseudo-random numbers, for results that must be reproducible
+ * (index construction, benchmarks and tests)
+ */
+
+/**
+ * Create a small seeded PRNG (mulberry32)
+ * @param seed Seed; the same seed always yields the same sequence
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
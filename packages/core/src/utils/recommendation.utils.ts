@@ -0,0 +1,453 @@
+/**
+ * Recommendation utilities
+ * Ranks boats against structured buyer requirements (crew size, activities,
+ * budget, trailerability, water type and experience) and explains the fit
+ */
+
+import {
+  BoatActivity,
+  BoatRecommendation,
+  BoatType,
+  BuyerRequirements,
+  ExperienceLevel,
+  RequirementCriterion,
+  RequirementFit,
+  WaterType
+} from '@igorganapolsky/boats-types';
+import { Boat } from '../types';
+import { combineWeightedScores } from './boat-matching.utils';
+import { getBoatType, getBoatTypeLabel } from './boat-type.utils';
+import { expandFeatures, normalizeTags } from './feature.utils';
+import { createMoney, getBoatPriceIn } from './money.utils';
+import { formatLength, getBoatLength, getBoatWeight } from './units.utils';
+import { createTranslator, Translator } from './i18n.utils';
+
+/**
+ * Options for recommending boats
+ */
+export interface RecommendBoatsOptions {
+  /** Maximum number of recommendations (default: 10) */
+  limit?: number;
+  /** Minimum overall fit (0-1) to be recommended (default: 0) */
+  minScore?: number;
+  /** Weight of each requirement, overriding the defaults */
+  weights?: Partial<Record<RequirementCriterion, number>>;
+  /** Locale of the fit explanations (default: English) */
+  locale?: string;
+}
+
+/**
+ * Activities recognized in buyer requirements and image analysis
+ */
+export const BOAT_ACTIVITIES: BoatActivity[] = [
+  'fishing', 'sailing', 'cruising', 'racing', 'watersports',
+  'diving', 'water skiing', 'wakeboarding', 'day trips',
+  'offshore', 'coastal', 'recreational', 'sport', 'touring',
+  'overnight', 'leisure', 'family', 'professional'
+];
+
+/**
+ * Boat types and canonical features that suit each activity
+ */
+const ACTIVITY_PROFILES: Record<BoatActivity, { types: BoatType[]; features: string[] }> = {
+  'fishing': {
+    types: ['center-console', 'bass-boat', 'jon-boat', 'walkaround', 'sport-fisherman'],
+    features: ['livewell', 'rod-holders', 'fishfinder', 'outriggers', 'trolling-motor']
+  },
+  'sailing': {
+    types: ['daysailer', 'cruising-sailboat', 'racing-sailboat', 'sailing-catamaran', 'trimaran'],
+    features: []
+  },
+  'cruising': {
+    types: ['express-cruiser', 'trawler', 'motor-yacht', 'power-catamaran', 'cruising-sailboat', 'sailing-catamaran'],
+    features: ['galley', 'generator', 'air-conditioning', 'refrigerator', 'autopilot']
+  },
+  'racing': {
+    types: ['racing-sailboat', 'trimaran'],
+    features: []
+  },
+  'watersports': {
+    types: ['ski-wake', 'bowrider', 'deck-boat', 'runabout', 'personal-watercraft'],
+    features: ['wakeboard-tower', 'ballast-system', 'swim-platform']
+  },
+  'diving': {
+    types: ['center-console', 'walkaround', 'deck-boat', 'power-catamaran'],
+    features: ['swim-ladder', 'swim-platform', 'shower']
+  },
+  'water skiing': {
+    types: ['ski-wake', 'runabout', 'bowrider'],
+    features: ['wakeboard-tower']
+  },
+  'wakeboarding': {
+    types: ['ski-wake'],
+    features: ['wakeboard-tower', 'ballast-system']
+  },
+  'day trips': {
+    types: ['bowrider', 'deck-boat', 'pontoon', 'runabout', 'center-console', 'daysailer'],
+    features: ['sun-shade', 'swim-platform']
+  },
+  'offshore': {
+    types: ['sport-fisherman', 'center-console', 'motor-yacht', 'trawler', 'cruising-sailboat', 'sailing-catamaran', 'power-catamaran'],
+    features: ['radar', 'autopilot', 'vhf-radio']
+  },
+  'coastal': {
+    types: ['center-console', 'walkaround', 'express-cruiser', 'trawler', 'cruising-sailboat', 'bowrider'],
+    features: ['chartplotter', 'vhf-radio']
+  },
+  'recreational': {
+    types: ['bowrider', 'deck-boat', 'pontoon', 'runabout', 'personal-watercraft', 'daysailer'],
+    features: []
+  },
+  'sport': {
+    types: ['runabout', 'ski-wake', 'personal-watercraft', 'racing-sailboat'],
+    features: []
+  },
+  'touring': {
+    types: ['trawler', 'express-cruiser', 'motor-yacht', 'cruising-sailboat'],
+    features: ['autopilot', 'chartplotter']
+  },
+  'overnight': {
+    types: ['express-cruiser', 'walkaround', 'trawler', 'motor-yacht', 'cruising-sailboat', 'sailing-catamaran', 'power-catamaran'],
+    features: ['galley', 'toilet']
+  },
+  'leisure': {
+    types: ['pontoon', 'deck-boat', 'bowrider', 'daysailer', 'power-catamaran'],
+    features: ['sun-shade', 'stereo']
+  },
+  'family': {
+    types: ['pontoon', 'deck-boat', 'bowrider', 'power-catamaran', 'sailing-catamaran', 'express-cruiser'],
+    features: ['swim-platform', 'sun-shade', 'toilet']
+  },
+  'professional': {
+    types: ['jon-boat', 'center-console', 'sport-fisherman', 'trawler'],
+    features: []
+  }
+};
+
+/**
+ * Default weight of each requirement
+ */
+const REQUIREMENT_WEIGHTS: Record<RequirementCriterion, number> = {
+  budget: 0.3,
+  activities: 0.25,
+  crew: 0.15,
+  trailerable: 0.1,
+  waterType: 0.1,
+  experience: 0.1
+};
+
+/**
+ * Widest boat towable on US roads without an oversize permit, in feet
+ */
+const MAX_TRAILER_BEAM_FT = 8.5;
+
+/**
+ * Heaviest boat a typical tow vehicle can pull, in pounds
+ */
+const MAX_TRAILER_WEIGHT_LB = 10000;
+
+/**
+ * Types that are built to be trailered
+ */
+const TRAILER_TYPES: BoatType[] = ['personal-watercraft', 'jon-boat', 'bass-boat'];
+
+/**
+ * Types mostly used on lakes and rivers
+ */
+const FRESHWATER_TYPES: BoatType[] = ['bass-boat', 'jon-boat', 'pontoon', 'ski-wake'];
+
+/**
+ * Types mostly used on the sea
+ */
+const SALTWATER_TYPES: BoatType[] = [
+  'sport-fisherman', 'trawler', 'motor-yacht', 'cruising-sailboat', 'sailing-catamaran', 'power-catamaran'
+];
+
+/**
+ * Longest boat that is comfortable to handle at each experience level, in feet
+ */
+const COMFORTABLE_LENGTH_FT: Record<ExperienceLevel, number> = {
+  beginner: 26,
+  intermediate: 40,
+  expert: Infinity
+};
+
+/**
+ * Types that take skill to handle, and the highest fit they get below expert level
+ */
+const DEMANDING_TYPES: Partial<Record<BoatType, number>> = {
+  'racing-sailboat': 0.4,
+  'trimaran': 0.4,
+  'motor-yacht': 0.6
+};
+
+/**
+ * Typical beam as a share of length, used when a listing has no beam
+ */
+const TYPICAL_BEAM_RATIO = 0.33;
+
+/**
+ * Types with open decks that seat more people than their size suggests
+ */
+const OPEN_DECK_TYPES: BoatType[] = ['pontoon', 'deck-boat', 'power-catamaran'];
+
+/**
+ * Scores one requirement for a boat
+ * @returns Undefined when the buyer didn't state the requirement
+ */
+type RequirementScorer = (
+  boat: Boat,
+  requirements: BuyerRequirements,
+  i18n: Translator
+) => { score: number | null; reason: string } | undefined;
+
+/**
+ * Estimate how many people a boat can take out for the day
+ * Uses the US Coast Guard rule of thumb of length × beam / 15, which is meant
+ * for boats under 20 ft, scaled down for longer boats.
+ * @returns Estimated capacity, or undefined if the boat's length is unknown
+ */
+export function estimatePassengerCapacity(boat: Boat): number | undefined {
+  const length = getBoatLength(boat, 'length', 'ft')?.value;
+  if (!length) return undefined;
+  const beam = getBoatLength(boat, 'beam', 'ft')?.value || length * TYPICAL_BEAM_RATIO;
+  const type = getBoatType(boat);
+  const factor = type && OPEN_DECK_TYPES.includes(type) ? 1.25 : 1;
+  return Math.max(1, Math.floor((length * beam / (15 * Math.max(1, length / 20))) * factor));
+}
+
+/**
+ * Score how well a boat suits an activity
+ * Listing tags naming the activity count as a full match; otherwise the boat
+ * type counts fully and matching features partly.
+ * @param boat Boat to score
+ * @param activity Activity, ideally from `BOAT_ACTIVITIES`
+ * @returns Suitability between 0 and 1, or null if the boat has no type, tags or features to judge by
+ */
+export function calculateActivitySuitability(boat: Boat, activity: string): number | null {
+  const [normalized] = normalizeTags([activity]);
+  if (normalized && normalizeTags(boat.categoryTags || []).includes(normalized)) return 1;
+
+  const profile = ACTIVITY_PROFILES[activity.toLowerCase().trim() as BoatActivity];
+  const type = getBoatType(boat);
+  const hasFeatures = !!boat.features && boat.features.length > 0;
+  if (!profile) return type || hasFeatures || boat.categoryTags ? 0 : null;
+  if (!type && !hasFeatures) return null;
+
+  const typeScore = type && profile.types.includes(type) ? 1 : 0;
+  let featureScore = 0;
+  if (hasFeatures && profile.features.length > 0) {
+    const features = expandFeatures(boat.features);
+    const matched = profile.features.filter(feature => features.has(feature)).length;
+    // Two matching features are enough to show the boat is set up for the activity
+    featureScore = Math.min(1, matched / Math.min(2, profile.features.length)) * 0.8;
+  }
+  return Math.max(typeScore, featureScore);
+}
+
+/**
+ * Name of an activity in the translator's language
+ * Activities outside the vocabulary are shown as given.
+ */
+function translateActivity(activity: string, i18n: Translator): string {
+  const key = `activity.${activity.toLowerCase()}`;
+  return i18n.has(key) ? i18n.t(key) : activity;
+}
+
+/**
+ * How each requirement is scored
+ */
+const REQUIREMENT_SCORERS: Record<RequirementCriterion, RequirementScorer> = {
+  // Estimated capacity, or berths when the buyer plans to stay aboard
+  crew: (boat, { crewSize, activities }, i18n) => {
+    if (!crewSize) return undefined;
+    const overnight = (activities || []).some(activity => activity.toLowerCase() === 'overnight');
+    const berths = overnight ? boat.berths : undefined;
+    const capacity = berths || estimatePassengerCapacity(boat);
+    if (!capacity) return { score: null, reason: i18n.t('requirement.crew.unknown') };
+    const params = {
+      capacity: i18n.t(berths ? 'requirement.crew.berths' : 'requirement.crew.room', { count: capacity }),
+      crew: crewSize
+    };
+    return capacity >= crewSize
+      ? { score: 1, reason: i18n.t('requirement.crew.enough', params) }
+      : { score: capacity / crewSize, reason: i18n.t('requirement.crew.tooSmall', params) };
+  },
+
+  // Average suitability over the intended activities
+  activities: (boat, { activities }, i18n) => {
+    if (!activities || activities.length === 0) return undefined;
+    const scored = activities.map(activity => ({ activity, score: calculateActivitySuitability(boat, activity) }));
+    const known = scored.filter((entry): entry is { activity: string; score: number } => entry.score !== null);
+    if (known.length === 0) return { score: null, reason: i18n.t('requirement.activities.unknown') };
+
+    const describe = (entries: typeof known): string =>
+      i18n.formatList(entries.map(entry => translateActivity(entry.activity, i18n)));
+    const suited = known.filter(entry => entry.score >= 0.5);
+    const unsuited = known.filter(entry => entry.score < 0.5);
+    const score = known.reduce((sum, entry) => sum + entry.score, 0) / known.length;
+    const key = unsuited.length === 0 ? 'suited' : suited.length === 0 ? 'unsuited' : 'mixed';
+    return { score, reason: i18n.t(`requirement.activities.${key}`, { suited: describe(suited), unsuited: describe(unsuited) }) };
+  },
+
+  // Within the range scores fully; the score falls to 0 at 25% over budget
+  budget: (boat, { budget }, i18n) => {
+    if (!budget || (budget.min === undefined && budget.max === undefined)) return undefined;
+    const price = getBoatPriceIn(boat, budget.currency);
+    if (!price?.amount) return { score: null, reason: i18n.t('requirement.budget.unknown') };
+    const formatted = i18n.formatMoney(price);
+    if (budget.max !== undefined && price.amount > budget.max) {
+      const over = (price.amount - budget.max) / budget.max;
+      return {
+        score: Math.max(0, 1 - over / 0.25),
+        reason: i18n.t('requirement.budget.over', {
+          price: formatted,
+          percent: Math.round(over * 100),
+          budget: i18n.formatMoney(createMoney(budget.max, budget.currency))
+        })
+      };
+    }
+    if (budget.min !== undefined && price.amount < budget.min) {
+      return { score: 0.8, reason: i18n.t('requirement.budget.below', { price: formatted }) };
+    }
+    return { score: 1, reason: i18n.t('requirement.budget.within', { price: formatted }) };
+  },
+
+  // Beam decides whether a boat can be towed; length is a rougher guide
+  trailerable: (boat, { trailerable }, i18n) => {
+    if (!trailerable) return undefined;
+    const type = getBoatType(boat);
+    if (type && TRAILER_TYPES.includes(type)) {
+      return { score: 1, reason: i18n.t('requirement.trailerable.type', { type: getBoatTypeLabel(type) }) };
+    }
+
+    const beam = getBoatLength(boat, 'beam', 'ft');
+    const weight = getBoatWeight(boat, 'lb')?.value;
+    if (beam) {
+      const params = { beam: formatLength(beam, 'imperial', i18n.locale), weight: weight && Math.round(weight) };
+      if (beam.value > MAX_TRAILER_BEAM_FT) {
+        return { score: 0, reason: i18n.t('requirement.trailerable.tooWide', params) };
+      }
+      return weight && weight > MAX_TRAILER_WEIGHT_LB
+        ? { score: 0.5, reason: i18n.t('requirement.trailerable.heavy', params) }
+        : { score: 1, reason: i18n.t('requirement.trailerable.ok', params) };
+    }
+
+    const length = getBoatLength(boat, 'length', 'ft');
+    if (!length) return { score: null, reason: i18n.t('requirement.trailerable.unknown') };
+    const params = { length: formatLength(length, 'imperial', i18n.locale) };
+    if (length.value <= 22) return { score: 0.8, reason: i18n.t('requirement.trailerable.probably', params) };
+    if (length.value <= 28) return { score: 0.5, reason: i18n.t('requirement.trailerable.maybe', params) };
+    return { score: 0.1, reason: i18n.t('requirement.trailerable.unlikely', params) };
+  },
+
+  // Listings that name a water type are trusted over the boat type
+  waterType: (boat, { waterType }, i18n) => {
+    if (!waterType) return undefined;
+    const other: WaterType = waterType === 'salt' ? 'fresh' : 'salt';
+    const text = normalizeTags([...(boat.categoryTags || []), boat.description || '']).join(' ');
+    const mentions = (water: WaterType): boolean => text.includes(`${water}water`) || text.includes(`${water} water`);
+    const listed = (water: WaterType): string => i18n.t('requirement.waterType.listed', { water: i18n.t(`water.${water}`) });
+    if (mentions(waterType)) return { score: 1, reason: listed(waterType) };
+    if (mentions(other)) return { score: 0.5, reason: listed(other) };
+
+    const type = getBoatType(boat);
+    if (!type) return { score: null, reason: i18n.t('requirement.waterType.unknown') };
+    const params = { type: getBoatTypeLabel(type), water: i18n.t(`water.${waterType}`) };
+    if (waterType === 'salt' && FRESHWATER_TYPES.includes(type)) {
+      return { score: 0.4, reason: i18n.t('requirement.waterType.mostlyFresh', params) };
+    }
+    if (waterType === 'fresh' && SALTWATER_TYPES.includes(type)) {
+      return { score: 0.7, reason: i18n.t('requirement.waterType.mostlySalt', params) };
+    }
+    return { score: 1, reason: i18n.t('requirement.waterType.suits', params) };
+  },
+
+  // Larger and demanding boats are harder for less experienced skippers
+  experience: (boat, { experience }, i18n) => {
+    if (!experience) return undefined;
+    const length = getBoatLength(boat, 'length', 'ft');
+    const type = getBoatType(boat);
+    if (!length && !type) return { score: null, reason: i18n.t('requirement.experience.unknown') };
+    if (experience === 'expert') return { score: 1, reason: i18n.t('requirement.experience.expert') };
+
+    const comfortable = COMFORTABLE_LENGTH_FT[experience];
+    const skipper = i18n.t(`skipper.${experience}`);
+    let score = 1;
+    let reason = i18n.t('requirement.experience.manageable', { skipper });
+    if (length && length.value > comfortable) {
+      score = Math.max(0, 1 - (length.value - comfortable) / comfortable);
+      // Thrusters make docking a large boat much easier
+      if (boat.features && expandFeatures(boat.features).has('thruster')) score = Math.min(1, score + 0.15);
+      reason = i18n.t('requirement.experience.large', { skipper, length: formatLength(length, 'imperial', i18n.locale) });
+    }
+    const cap = type ? DEMANDING_TYPES[type] : undefined;
+    if (cap !== undefined) {
+      // Intermediate skippers get more leeway, but the cap never raises a score
+      const limit = experience === 'beginner' ? cap : cap + 0.3;
+      if (score > limit) {
+        score = limit;
+        reason = i18n.t('requirement.experience.demanding', { type: getBoatTypeLabel(type!) });
+      }
+    }
+    return { score, reason };
+  }
+};
+
+/**
+ * Explain how well a boat meets buyer requirements
+ * Requirements the listing lacks data for are reported with `applied: false`
+ * @param boat Boat to score
+ * @param requirements Buyer requirements
+ * @param weights Weight of each requirement, overriding the defaults
+ * @param locale Locale of the explanations (default: English)
+ * @returns The overall fit with a per-requirement breakdown
+ */
+export function explainRequirementFit(
+  boat: Boat,
+  requirements: BuyerRequirements,
+  weights: Partial<Record<RequirementCriterion, number>> = {},
+  locale?: string
+): BoatRecommendation {
+  const i18n = createTranslator(locale);
+  const scored = (Object.keys(REQUIREMENT_SCORERS) as RequirementCriterion[])
+    .map(criterion => ({
+      criterion,
+      weight: weights[criterion] ?? REQUIREMENT_WEIGHTS[criterion],
+      result: REQUIREMENT_SCORERS[criterion](boat, requirements, i18n)
+    }))
+    .filter(entry => entry.result && entry.weight > 0)
+    .map(({ criterion, weight, result }) => ({ criterion, weight, score: result!.score, reason: result!.reason }));
+  const { score, contributions } = combineWeightedScores(scored);
+
+  const fits: RequirementFit[] = scored.map(({ criterion, weight, score: fit, reason }, index) => ({
+    criterion,
+    score: fit,
+    weight,
+    applied: fit !== null,
+    contribution: contributions[index],
+    reason
+  }));
+
+  return { boat, score, fits };
+}
+
+/**
+ * Rank boats by how well they meet buyer requirements
+ * @param requirements Buyer requirements
+ * @param boats Boats to choose from
+ * @param options Number of results, minimum fit, requirement weights and locale
+ * @returns Recommendations with fit explanations, best fit first
+ */
+export function recommendBoats(
+  requirements: BuyerRequirements,
+  boats: Boat[],
+  options: RecommendBoatsOptions = {}
+): BoatRecommendation[] {
+  const { limit = 10, minScore = 0, weights, locale } = options;
+  return boats
+    .map(boat => explainRequirementFit(boat, requirements, weights, locale))
+    .filter(recommendation => recommendation.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,371 @@
+/**
+ * Search utilities
+ * Client-side full-text search over an in-memory boat collection, for offline
+ * and mobile use. Text is tokenized and lightly stemmed, the last query term
+ * matches as a prefix, and results are ranked with BM25F across boosted fields.
+ */
+
+import { Boat } from '../types';
+
+/**
+ * Boat fields covered by full-text search
+ */
+export type BoatSearchField = 'name' | 'manufacturer' | 'model' | 'description' | 'features';
+
+/**
+ * Relative importance of a match in each field
+ */
+export type BoatSearchBoosts = Partial<Record<BoatSearchField, number>>;
+
+/**
+ * Field boosts used when none are given
+ */
+export const DEFAULT_SEARCH_BOOSTS: Record<BoatSearchField, number> = {
+  name: 3,
+  manufacturer: 2,
+  model: 2.5,
+  features: 1.5,
+  description: 1
+};
+
+/**
+ * Options for a full-text search
+ */
+export interface BoatSearchOptions {
+  /** Maximum number of results (default: 20) */
+  limit?: number;
+  /** Match the last query term as a prefix, for search-as-you-type (default: true) */
+  prefix?: boolean;
+  /** Only return boats matching every query term (default: false) */
+  matchAll?: boolean;
+  /** Field boosts, merged over the defaults */
+  boosts?: BoatSearchBoosts;
+}
+
+/**
+ * A boat matched by full-text search
+ */
+export interface BoatSearchResult {
+  boat: Boat;
+  /** BM25F relevance; only comparable between results of the same query */
+  score: number;
+  /** Indexed terms that matched, after stemming and prefix expansion */
+  matchedTerms: string[];
+}
+
+/**
+ * BM25 term frequency saturation
+ */
+const BM25_K1 = 1.2;
+
+/**
+ * BM25 field length normalization
+ */
+const BM25_B = 0.75;
+
+/**
+ * Weight of a prefix expansion relative to an exact term match
+ */
+const PREFIX_MATCH_WEIGHT = 0.5;
+
+/**
+ * Shortest query term expanded as a prefix
+ */
+const MIN_PREFIX_LENGTH = 2;
+
+/**
+ * Words too common to help ranking
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'to', 'with'
+]);
+
+const SEARCH_FIELDS = Object.keys(DEFAULT_SEARCH_BOOSTS) as BoatSearchField[];
+
+/**
+ * Text indexed for each field
+ */
+const FIELD_TEXT: Record<BoatSearchField, (boat: Boat) => string> = {
+  name: boat => boat.name || '',
+  manufacturer: boat => boat.manufacturer || '',
+  model: boat => boat.model || '',
+  description: boat => boat.description || '',
+  features: boat => (boat.features || []).join(' ')
+};
+
+/**
+ * Reduce a lowercase word to its stem with a few English suffix rules
+ * Deliberately light: "engines" and "engine", "fishing" and "fish" meet,
+ * while make and model names are left alone.
+ * @param token Lowercase word
+ * @returns Stem of the word
+ */
+export function stemToken(token: string): string {
+  if (token.length <= 3 || /\d/.test(token)) return token;
+
+  let stem = token;
+  if (stem.endsWith('ies') && stem.length > 4) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else if (stem.endsWith('sses')) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith('ing') && stem.length > 5) {
+    stem = stem.slice(0, -3);
+  } else if (stem.endsWith('ed') && !stem.endsWith('eed') && stem.length > 4) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  // "running" -> "runn" -> "run", "equipped" -> "equipp" -> "equip"
+  if (stem !== token && /([^aeioulsz])\1$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  return stem;
+}
+
+/**
+ * Split text into lowercase words without accents or stop words
+ * Hyphenated and slashed names are split, so "Grady-White" yields "grady" and "white".
+ * @param text Text to tokenize
+ * @returns Words in order of appearance
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !STOP_WORDS.has(token));
+}
+
+/**
+ * Tokenize and stem text for indexing or querying
+ * @param text Text to analyze
+ * @returns Stemmed terms in order of appearance
+ */
+export function analyzeSearchText(text: string): string[] {
+  return tokenize(text).map(stemToken);
+}
+
+interface SearchDocument {
+  boat: Boat;
+  /** Insertion order, used to break ties between equal scores */
+  sequence: number;
+  /** Number of terms in each field */
+  lengths: Record<BoatSearchField, number>;
+  /** Distinct terms in the document, for removal */
+  terms: Set<string>;
+}
+
+/**
+ * Zero count for every search field
+ */
+function createFieldCounts(): Record<BoatSearchField, number> {
+  return { name: 0, manufacturer: 0, model: 0, description: 0, features: 0 };
+}
+
+/**
+ * Occurrences of a term in each field of a document
+ */
+type FieldFrequencies = Partial<Record<BoatSearchField, number>>;
+
+/**
+ * Inverted index over a boat collection for full-text search
+ * Boats are keyed by id; adding a boat with an existing id replaces it
+ */
+export class BoatSearchIndex {
+  private readonly documents = new Map<string, SearchDocument>();
+  private readonly postings = new Map<string, Map<string, FieldFrequencies>>();
+  private readonly totalLengths = createFieldCounts();
+  private nextSequence = 0;
+
+  /**
+   * Build a search index over a boat collection
+   * @param boats Boats to index
+   */
+  constructor(boats: Boat[] = []) {
+    boats.forEach(boat => this.add(boat));
+  }
+
+  /**
+   * Number of boats in the index
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Add a boat to the index, replacing any boat with the same id
+   */
+  add(boat: Boat): void {
+    this.remove(boat.id);
+
+    const document: SearchDocument = {
+      boat,
+      sequence: this.nextSequence++,
+      lengths: createFieldCounts(),
+      terms: new Set()
+    };
+
+    SEARCH_FIELDS.forEach(field => {
+      const terms = analyzeSearchText(FIELD_TEXT[field](boat));
+      document.lengths[field] = terms.length;
+      this.totalLengths[field] += terms.length;
+
+      terms.forEach(term => {
+        if (!this.postings.has(term)) {
+          this.postings.set(term, new Map());
+        }
+        const posting = this.postings.get(term)!;
+        const frequencies = posting.get(boat.id) || {};
+        frequencies[field] = (frequencies[field] || 0) + 1;
+        posting.set(boat.id, frequencies);
+        document.terms.add(term);
+      });
+    });
+
+    this.documents.set(boat.id, document);
+  }
+
+  /**
+   * Remove a boat from the index
+   * @returns True if the boat was indexed
+   */
+  remove(id: string): boolean {
+    const document = this.documents.get(id);
+    if (!document) return false;
+
+    document.terms.forEach(term => {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+    SEARCH_FIELDS.forEach(field => {
+      this.totalLengths[field] -= document.lengths[field];
+    });
+    this.documents.delete(id);
+    return true;
+  }
+
+  /**
+   * Check whether a boat is indexed
+   */
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /**
+   * Search the indexed boats
+   * @param query Free-text query, e.g. "whaler montauk"
+   * @param options Result limit, prefix matching, match mode and field boosts
+   * @returns Matching boats, most relevant first
+   */
+  search(query: string, options: BoatSearchOptions = {}): BoatSearchResult[] {
+    const { limit = 20, prefix = true, matchAll = false } = options;
+    const boosts = { ...DEFAULT_SEARCH_BOOSTS, ...options.boosts };
+    const queryTokens = [...new Set(tokenize(query))];
+    if (queryTokens.length === 0 || limit <= 0) return [];
+
+    const scores = new Map<string, { score: number; matchedTerms: Set<string>; matchedTokens: number }>();
+
+    queryTokens.forEach((token, index) => {
+      const expansions = this.expandToken(token, prefix && index === queryTokens.length - 1);
+      const matchedBy = new Set<string>();
+
+      expansions.forEach((weight, term) => {
+        const posting = this.postings.get(term)!;
+        const idf = this.getInverseDocumentFrequency(posting.size);
+
+        posting.forEach((frequencies, id) => {
+          const weightedFrequency = this.getWeightedFrequency(this.documents.get(id)!, frequencies, boosts);
+          if (weightedFrequency <= 0) return;
+
+          const result = scores.get(id) || { score: 0, matchedTerms: new Set<string>(), matchedTokens: 0 };
+          result.score += weight * idf * weightedFrequency / (BM25_K1 + weightedFrequency);
+          result.matchedTerms.add(term);
+          if (!matchedBy.has(id)) {
+            matchedBy.add(id);
+            result.matchedTokens++;
+          }
+          scores.set(id, result);
+        });
+      });
+    });
+
+    return [...scores.entries()]
+      .filter(([, result]) => !matchAll || result.matchedTokens === queryTokens.length)
+      .map(([id, result]) => ({ document: this.documents.get(id)!, ...result }))
+      .sort((a, b) => b.score - a.score || a.document.sequence - b.document.sequence)
+      .slice(0, limit)
+      .map(({ document, score, matchedTerms }) => ({
+        boat: document.boat,
+        score,
+        matchedTerms: [...matchedTerms]
+      }));
+  }
+
+  /**
+   * Indexed terms matching a query token, with the weight of each match
+   */
+  private expandToken(token: string, asPrefix: boolean): Map<string, number> {
+    const stem = stemToken(token);
+    const expansions = new Map<string, number>();
+    if (this.postings.has(stem)) {
+      expansions.set(stem, 1);
+    }
+
+    if (asPrefix && token.length >= MIN_PREFIX_LENGTH) {
+      // Match on the shorter of the word and its stem, so "sailing" also finds "sailboat"
+      const prefix = stem.length < token.length ? stem : token;
+      this.postings.forEach((_, term) => {
+        if (term !== stem && term.startsWith(prefix)) {
+          expansions.set(term, PREFIX_MATCH_WEIGHT);
+        }
+      });
+    }
+
+    return expansions;
+  }
+
+  /**
+   * BM25 inverse document frequency of a term found in `documentCount` boats
+   */
+  private getInverseDocumentFrequency(documentCount: number): number {
+    return Math.log(1 + (this.documents.size - documentCount + 0.5) / (documentCount + 0.5));
+  }
+
+  /**
+   * Boosted, length-normalized term frequency across fields (BM25F)
+   */
+  private getWeightedFrequency(
+    document: SearchDocument,
+    frequencies: FieldFrequencies,
+    boosts: Record<BoatSearchField, number>
+  ): number {
+    return SEARCH_FIELDS.reduce((total, field) => {
+      const frequency = frequencies[field];
+      const boost = boosts[field];
+      if (!frequency || boost <= 0) return total;
+
+      const averageLength = this.totalLengths[field] / this.documents.size;
+      const normalization = 1 - BM25_B + BM25_B * (document.lengths[field] / averageLength);
+      return total + (boost * frequency) / normalization;
+    }, 0);
+  }
+}
+
+/**
+ * Search a boat collection without keeping an index
+ * Build a BoatSearchIndex instead when searching the same boats repeatedly.
+ * @param query Free-text query, e.g. "whaler montauk"
+ * @param boats Boats to search
+ * @param options Result limit, prefix matching, match mode and field boosts
+ * @returns Matching boats, most relevant first
+ */
+export function searchBoats(query: string, boats: Boat[], options: BoatSearchOptions = {}): BoatSearchResult[] {
+  return new BoatSearchIndex(boats).search(query, options);
+}
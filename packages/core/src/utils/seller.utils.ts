@@ -0,0 +1,96 @@
+/**
+ * Seller utilities
+ * Helpers for sellers and dealers, including the privacy rules that decide
+ * who may see a seller's contact details
+ */
+
+import { ContactChannel, ContactVisibility, Dealer, Seller, UserProfile } from '@igorganapolsky/boats-types';
+import { Boat } from '../types';
+import { isListingOnMarket } from './listing.utils';
+
+/**
+ * Check whether a seller is a dealer
+ */
+export function isDealer(seller: Seller): seller is Dealer {
+  return seller.type === 'dealer';
+}
+
+/**
+ * Check whether a seller's identity has been verified
+ */
+export function isVerifiedSeller(seller: Seller): boolean {
+  return seller.verificationStatus === 'verified';
+}
+
+/**
+ * Get who may see a seller's contact channels
+ * Dealers advertise publicly by default, private sellers only to signed-in users
+ */
+export function getContactVisibility(seller: Seller): ContactVisibility {
+  return seller.contactVisibility || (isDealer(seller) ? 'public' : 'authenticated');
+}
+
+/**
+ * Check whether a user manages a seller
+ * @param seller Seller to check
+ * @param viewer Signed-in user, or null for anonymous visitors
+ */
+export function isSellerOwner(seller: Seller, viewer: UserProfile | null): boolean {
+  if (!viewer) return false;
+  if (seller.userId && seller.userId === viewer.id) return true;
+  return isDealer(seller) && viewer.role === 'dealer' && viewer.dealerId === seller.id;
+}
+
+/**
+ * Check whether a user may see a seller's contact channels
+ * Owners and admins always can; everyone else is subject to the seller's visibility setting
+ * @param seller Seller whose contact details would be shown
+ * @param viewer Signed-in user, or null for anonymous visitors
+ */
+export function canViewSellerContact(seller: Seller, viewer: UserProfile | null): boolean {
+  if (viewer?.role === 'admin' || isSellerOwner(seller, viewer)) return true;
+
+  switch (getContactVisibility(seller)) {
+    case 'public':
+      return true;
+    case 'authenticated':
+      return viewer !== null;
+    case 'hidden':
+      return false;
+  }
+}
+
+/**
+ * Remove contact channels the viewer is not allowed to see
+ * Defence in depth only: the server must already leave out contact channels the
+ * authenticated user may not see, since anything it sends can be read by the caller.
+ * @param seller Seller as returned by the API
+ * @param viewer Signed-in user, or null for anonymous visitors
+ * @returns The seller, without contact channels if the viewer may not see them
+ */
+export function redactSellerContact<T extends Seller>(seller: T, viewer: UserProfile | null): T {
+  if (canViewSellerContact(seller, viewer)) return seller;
+  const { contactChannels, ...rest } = seller;
+  return rest as T;
+}
+
+/**
+ * Get the preferred contact channel of a seller
+ * @returns The channel marked preferred, or the first channel
+ */
+export function getPreferredContactChannel(seller: Seller): ContactChannel | undefined {
+  const channels = seller.contactChannels || [];
+  return channels.find(channel => channel.preferred) || channels[0];
+}
+
+/**
+ * Keep only the inventory listings a user may see
+ * Dealers and admins see their whole inventory, everyone else only boats on the market
+ * @param dealer Dealer owning the inventory
+ * @param boats Boats in the dealer's inventory
+ * @param viewer Signed-in user, or null for anonymous visitors
+ */
+export function filterVisibleInventory(dealer: Dealer, boats: Boat[], viewer: UserProfile | null): Boat[] {
+  if (viewer?.role === 'admin' || isSellerOwner(dealer, viewer)) return boats;
+  return boats.filter(isListingOnMarket);
+}
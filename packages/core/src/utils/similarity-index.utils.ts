@@ -0,0 +1,377 @@
+/**
+ * Similarity index utilities
+ * A prebuilt index over a boat collection for top-k similar boat queries.
+ * Boats are blocked by canonical type and each candidate's score is bounded
+ * using cheap attributes first, so the expensive string comparisons only run
+ * for boats that can still make the results. Results are identical to
+ * `findSimilarBoats` over the same collection.
+ */
+
+import { BoatType, SimilarityComponent } from '@igorganapolsky/boats-types';
+import { Boat } from '../types';
+import {
+  calculateBoatSimilarity,
+  explainBoatSimilarity,
+  FindSimilarBoatsOptions,
+  SimilarBoatMatch
+} from './boat-matching.utils';
+import { calculateBoatTypeSimilarity, getBoatType } from './boat-type.utils';
+import { getBoatDistance } from './geo.utils';
+import { expandFeatures } from './feature.utils';
+import { calculatePropulsionSimilarity, getBoatPropulsion } from './propulsion.utils';
+import { getBoatLength, getBoatWeight } from './units.utils';
+import { getBoatPriceIn } from './money.utils';
+import { resolveSimilarityProfile, SimilarityProfile } from './similarity-profile.utils';
+
+/**
+ * Slack for floating point differences between bounds and exact scores
+ */
+const BOUND_EPSILON = 1e-9;
+
+/**
+ * Block for boats without a canonical type
+ */
+const UNTYPED_BLOCK = 'untyped';
+
+type BlockKey = BoatType | typeof UNTYPED_BLOCK;
+
+/**
+ * Attributes precomputed for bounding scores without touching the boat
+ */
+interface BoatSignature {
+  year?: number;
+  /** Length, beam and draft in feet and weight in pounds, as compared by dimension similarity */
+  dimensions: Array<number | undefined>;
+  /** Price in US dollars, undefined if the boat has no price or it can't be converted */
+  priceUsd?: number;
+  hasPrice: boolean;
+  boatType?: BoatType;
+  hasCategoryTags: boolean;
+  features?: Set<string>;
+  hasManufacturer: boolean;
+  hasModel: boolean;
+  hasPropulsion: boolean;
+}
+
+interface IndexEntry {
+  /** Boat as added to the index */
+  boat: Boat;
+  /** Copy with derived attributes resolved once, scoring identically to `boat` */
+  prepared: Boat;
+  signature: BoatSignature;
+  /** Insertion order, used to break ties like a stable sort over the original array */
+  sequence: number;
+  block: BlockKey;
+}
+
+/**
+ * Counters describing the work done by the last query
+ */
+export interface SimilarityIndexQueryStats {
+  /** Boats considered after location filtering */
+  candidates: number;
+  /** Boats skipped because their whole block could not make the results */
+  blockPruned: number;
+  /** Boats skipped because their attribute upper bound could not make the results */
+  boundPruned: number;
+  /** Boats scored with the full similarity calculation */
+  scored: number;
+}
+
+/**
+ * Resolve derived attributes once so repeated scoring doesn't redo them
+ * Scores computed on the prepared copy are identical to the original
+ */
+function prepareBoat(boat: Boat): Boat {
+  const propulsion = getBoatPropulsion(boat);
+  return {
+    ...boat,
+    propulsion,
+    engineType: propulsion ? boat.engineType : undefined,
+    boatType: getBoatType(boat)
+  };
+}
+
+/**
+ * Precompute the attributes used to bound scores
+ * @param prepared Boat returned by prepareBoat
+ */
+function createSignature(prepared: Boat): BoatSignature {
+  return {
+    year: prepared.year,
+    dimensions: [
+      getBoatLength(prepared, 'length', 'ft')?.value,
+      getBoatLength(prepared, 'beam', 'ft')?.value,
+      getBoatLength(prepared, 'draft', 'ft')?.value,
+      getBoatWeight(prepared, 'lb')?.value
+    ],
+    priceUsd: getBoatPriceIn(prepared, 'USD')?.amount,
+    hasPrice: !!prepared.price,
+    boatType: prepared.boatType,
+    hasCategoryTags: !!prepared.categoryTags,
+    features: prepared.features ? expandFeatures(prepared.features) : undefined,
+    hasManufacturer: !!prepared.manufacturer,
+    hasModel: !!prepared.model,
+    hasPropulsion: !!prepared.propulsion
+  };
+}
+
+/**
+ * Upper bound on a single component's score from two signatures
+ * Mirrors the scorers in boat-matching.utils: exact where the signature allows,
+ * otherwise a perfect score for components that may apply
+ * @returns Score bound, or null if the component certainly doesn't apply
+ */
+function boundComponent(
+  component: SimilarityComponent,
+  sig1: BoatSignature,
+  sig2: BoatSignature,
+  propulsionScore?: number | null
+): number | null {
+  switch (component) {
+    case 'manufacturer':
+      return sig1.hasManufacturer && sig2.hasManufacturer ? 1 : null;
+    case 'model':
+      return sig1.hasModel && sig2.hasModel ? 1 : null;
+    case 'year':
+      return sig1.year && sig2.year ? Math.max(0, 1 - Math.abs(sig1.year - sig2.year) / 5) : null;
+    case 'dimensions': {
+      let comparable = 0;
+      let total = 0;
+      sig1.dimensions.forEach((value1, index) => {
+        const value2 = sig2.dimensions[index];
+        if (value1 && value2) {
+          total += Math.min(value1, value2) / Math.max(value1, value2);
+          comparable++;
+        }
+      });
+      return comparable > 0 ? total / comparable : null;
+    }
+    case 'propulsion':
+      if (propulsionScore !== undefined) return propulsionScore;
+      return sig1.hasPropulsion && sig2.hasPropulsion ? 1 : null;
+    case 'features': {
+      if (!sig1.features || !sig2.features) return null;
+      if (sig1.features.size === 0 && sig2.features.size === 0) return 1;
+      let shared = 0;
+      sig1.features.forEach(feature => {
+        if (sig2.features!.has(feature)) shared++;
+      });
+      return shared / (sig1.features.size + sig2.features.size - shared);
+    }
+    case 'category':
+      if (sig1.boatType && sig2.boatType) return calculateBoatTypeSimilarity(sig1.boatType, sig2.boatType);
+      return sig1.hasCategoryTags && sig2.hasCategoryTags ? 1 : null;
+    case 'price':
+      if (!sig1.hasPrice || !sig2.hasPrice) return null;
+      return sig1.priceUsd && sig2.priceUsd
+        ? Math.min(sig1.priceUsd, sig2.priceUsd) / Math.max(sig1.priceUsd, sig2.priceUsd)
+        : 1;
+  }
+}
+
+/**
+ * Upper bound on the overall score of two boats from their signatures
+ * Treating uncertain components as perfect matches can only raise the weighted average
+ */
+function getSignatureBound(
+  sig1: BoatSignature,
+  sig2: BoatSignature,
+  weighted: Array<{ component: SimilarityComponent; weight: number }>,
+  propulsionScore?: number | null
+): number {
+  let bestScore = 0;
+  let appliedWeight = 0;
+
+  weighted.forEach(({ component, weight }) => {
+    const score = boundComponent(component, sig1, sig2, propulsionScore);
+    if (score !== null) {
+      bestScore += score * weight;
+      appliedWeight += weight;
+    }
+  });
+
+  return appliedWeight > 0 ? bestScore / appliedWeight : 0;
+}
+
+/**
+ * Compare matches like findSimilarBoats: higher score first, then insertion order
+ */
+function compareMatches(
+  a: { score: number; entry: IndexEntry },
+  b: { score: number; entry: IndexEntry }
+): number {
+  return b.score - a.score || a.entry.sequence - b.entry.sequence;
+}
+
+/**
+ * Index over a boat collection for fast similar boat queries
+ * Boats are keyed by id; adding a boat with an existing id replaces it
+ */
+export class BoatSimilarityIndex {
+  private readonly entries = new Map<string, IndexEntry>();
+  private readonly blocks = new Map<BlockKey, Set<string>>();
+  private nextSequence = 0;
+  private stats: SimilarityIndexQueryStats = { candidates: 0, blockPruned: 0, boundPruned: 0, scored: 0 };
+
+  /**
+   * Build an index over a boat collection
+   * @param boats Boats to index, in the order brute-force results would list ties
+   */
+  constructor(boats: Boat[] = []) {
+    boats.forEach(boat => this.add(boat));
+  }
+
+  /**
+   * Number of boats in the index
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Work done by the most recent query
+   */
+  get lastQueryStats(): SimilarityIndexQueryStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Add a boat to the index, replacing any boat with the same id
+   */
+  add(boat: Boat): void {
+    this.remove(boat.id);
+
+    const prepared = prepareBoat(boat);
+    const block: BlockKey = prepared.boatType || UNTYPED_BLOCK;
+    this.entries.set(boat.id, {
+      boat,
+      prepared,
+      signature: createSignature(prepared),
+      sequence: this.nextSequence++,
+      block
+    });
+
+    if (!this.blocks.has(block)) {
+      this.blocks.set(block, new Set());
+    }
+    this.blocks.get(block)!.add(boat.id);
+  }
+
+  /**
+   * Remove a boat from the index
+   * @returns True if the boat was indexed
+   */
+  remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+
+    this.entries.delete(id);
+    const block = this.blocks.get(entry.block)!;
+    block.delete(id);
+    if (block.size === 0) {
+      this.blocks.delete(entry.block);
+    }
+    return true;
+  }
+
+  /**
+   * Check whether a boat is indexed
+   */
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /**
+   * Find the boats most similar to a reference boat
+   * Same parameters and results as `findSimilarBoats` over the indexed boats
+   * @param referenceBoat The boat to find similar matches for
+   * @param similarityThreshold Minimum similarity score (0-1) to consider as a match
+   * @param limit Maximum number of similar boats to return
+   * @param options Optional proximity restriction, similarity profile and explanations
+   * @returns Array of similar boats with their similarity scores and optional breakdowns
+   */
+  findSimilar(
+    referenceBoat: Boat,
+    similarityThreshold: number = 0.7,
+    limit: number = 10,
+    options: FindSimilarBoatsOptions = {}
+  ): SimilarBoatMatch[] {
+    const profile = resolveSimilarityProfile(options.profile);
+    const reference = prepareBoat(referenceBoat);
+    const referenceSignature = createSignature(reference);
+    const boundsPropulsion = (profile.weights.propulsion || 0) > 0;
+    const weighted = (Object.keys(profile.weights) as SimilarityComponent[])
+      .filter(component => (profile.weights[component] || 0) > 0)
+      .map(component => ({ component, weight: profile.weights[component]! }));
+
+    this.stats = { candidates: 0, blockPruned: 0, boundPruned: 0, scored: 0 };
+    const top: Array<{ score: number; entry: IndexEntry }> = [];
+    const cutoff = (): number =>
+      top.length >= limit ? Math.max(similarityThreshold, top[top.length - 1].score) : similarityThreshold;
+
+    if (limit <= 0) return [];
+
+    // Visit the most promising blocks first so the cutoff rises quickly
+    const blocks = [...this.blocks.entries()]
+      .map(([key, ids]) => ({ ids, bound: this.getBlockBound(reference, key, profile) }))
+      .sort((a, b) => b.bound - a.bound);
+
+    blocks.forEach(({ ids, bound }) => {
+      ids.forEach(id => {
+        const entry = this.entries.get(id)!;
+        if (entry.boat.id === referenceBoat.id) return; // Exclude the reference boat itself
+        if (options.near) {
+          const distance = getBoatDistance(entry.boat, options.near, options.distanceUnit);
+          if (distance === undefined || distance > (options.radius ?? 100)) return;
+        }
+        this.stats.candidates++;
+
+        if (bound + BOUND_EPSILON < cutoff()) {
+          this.stats.blockPruned++;
+          return;
+        }
+
+        // Bound with precomputed attributes first, then with exact engine similarity
+        if (getSignatureBound(referenceSignature, entry.signature, weighted) + BOUND_EPSILON < cutoff()) {
+          this.stats.boundPruned++;
+          return;
+        }
+        if (boundsPropulsion && referenceSignature.hasPropulsion && entry.signature.hasPropulsion) {
+          const propulsionScore = calculatePropulsionSimilarity(reference, entry.prepared);
+          if (getSignatureBound(referenceSignature, entry.signature, weighted, propulsionScore) + BOUND_EPSILON < cutoff()) {
+            this.stats.boundPruned++;
+            return;
+          }
+        }
+
+        this.stats.scored++;
+        const score = calculateBoatSimilarity(reference, entry.prepared, profile);
+        if (score < similarityThreshold) return;
+
+        top.push({ score, entry });
+        top.sort(compareMatches);
+        if (top.length > limit) top.pop();
+      });
+    });
+
+    return top.map(({ score, entry }) => ({
+      boat: entry.boat,
+      similarityScore: score,
+      ...(options.explain ? { breakdown: explainBoatSimilarity(referenceBoat, entry.boat, profile) } : {})
+    }));
+  }
+
+  /**
+   * Upper bound on the score of any boat in a block
+   * Only the category component is known for the whole block; everything else may score 1
+   */
+  private getBlockBound(reference: Boat, block: BlockKey, profile: SimilarityProfile): number {
+    const categoryWeight = profile.weights.category || 0;
+    if (!reference.boatType || block === UNTYPED_BLOCK || categoryWeight <= 0) return 1;
+
+    const totalWeight = Object.values(profile.weights).reduce((sum, weight) => sum + Math.max(0, weight || 0), 0);
+    const categoryScore = calculateBoatTypeSimilarity(reference.boatType, block);
+    return 1 - (categoryWeight * (1 - categoryScore)) / totalWeight;
+  }
+}
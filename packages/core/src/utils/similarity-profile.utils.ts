@@ -0,0 +1,130 @@
+/**
+ * Similarity profile utilities
+ * Named weight sets for boat similarity, so each product surface can tune
+ * which attributes matter without forking the matching code
+ */
+
+import { SimilarityComponent } from '@igorganapolsky/boats-types';
+import { StringSimilarityMetric } from './similarity.utils';
+
+/**
+ * Relative weight of each attribute; omitted attributes are ignored
+ */
+export type SimilarityWeights = Partial<Record<SimilarityComponent, number>>;
+
+/**
+ * A named set of similarity weights
+ */
+export interface SimilarityProfile {
+  name: string;
+  description?: string;
+  weights: SimilarityWeights;
+  /** Algorithm for comparing manufacturer and model names (default: 'levenshtein') */
+  stringMetric?: StringSimilarityMetric;
+}
+
+/**
+ * A registered profile name, a profile, or bare weights
+ */
+export type SimilarityProfileInput = string | SimilarityProfile | SimilarityWeights;
+
+/**
+ * Balanced weights used when no profile is given
+ */
+export const DEFAULT_SIMILARITY_PROFILE: SimilarityProfile = {
+  name: 'default',
+  description: 'Balanced match on make, model, size, engines, features and type',
+  weights: {
+    manufacturer: 0.15,
+    model: 0.20,
+    year: 0.05,
+    dimensions: 0.15,
+    propulsion: 0.10,
+    features: 0.20,
+    category: 0.15
+  }
+};
+
+/**
+ * Profiles available out of the box
+ */
+const BUILT_IN_PROFILES: SimilarityProfile[] = [
+  DEFAULT_SIMILARITY_PROFILE,
+  {
+    name: 'visual-lookalike',
+    description: 'Boats that look alike: same type, size and visible features',
+    weights: {
+      category: 0.30,
+      dimensions: 0.25,
+      features: 0.25,
+      manufacturer: 0.10,
+      model: 0.10
+    }
+  },
+  {
+    name: 'same-use-case',
+    description: 'Boats suited to the same activities, regardless of brand',
+    weights: {
+      category: 0.35,
+      features: 0.25,
+      dimensions: 0.20,
+      propulsion: 0.20
+    }
+  },
+  {
+    name: 'same-budget',
+    description: 'Alternatives at a similar price and age',
+    weights: {
+      price: 0.45,
+      year: 0.20,
+      dimensions: 0.15,
+      category: 0.20
+    }
+  }
+];
+
+const profileRegistry = new Map<string, SimilarityProfile>(
+  BUILT_IN_PROFILES.map(profile => [profile.name, profile])
+);
+
+/**
+ * Register a similarity profile, replacing any profile with the same name
+ */
+export function registerSimilarityProfile(profile: SimilarityProfile): void {
+  profileRegistry.set(profile.name, profile);
+}
+
+/**
+ * Get a registered similarity profile by name
+ */
+export function getSimilarityProfile(name: string): SimilarityProfile | undefined {
+  return profileRegistry.get(name);
+}
+
+/**
+ * List all registered similarity profiles
+ */
+export function listSimilarityProfiles(): SimilarityProfile[] {
+  return [...profileRegistry.values()];
+}
+
+/**
+ * Resolve a profile input to a profile
+ * @param input Profile name, profile or bare weights (default: the default profile)
+ * @throws Error if a profile name is not registered
+ */
+export function resolveSimilarityProfile(input?: SimilarityProfileInput): SimilarityProfile {
+  if (input === undefined) return DEFAULT_SIMILARITY_PROFILE;
+
+  if (typeof input === 'string') {
+    const profile = profileRegistry.get(input);
+    if (!profile) {
+      throw new Error(`Unknown similarity profile: ${input}`);
+    }
+    return profile;
+  }
+
+  return 'weights' in input && typeof input.weights === 'object'
+    ? input as SimilarityProfile
+    : { name: 'custom', weights: input as SimilarityWeights };
+}
@@ -88,68 +88,342 @@ export function calculateJaccardSimilarity<T>(set1: Set<T> | T[], set2: Set<T> |
 }
 
 /**
- * Calculate string similarity based on Levenshtein distance
+ * String similarity algorithms
+ * - levenshtein: edits (insert, delete, substitute) relative to the longer string
+ * - damerau-levenshtein: like levenshtein, but swapping adjacent characters is one edit
+ * - jaro-winkler: matching characters and transpositions, favouring a shared prefix
+ * - token-set: word overlap regardless of order, e.g. "Sundancer 320" vs "320 Sundancer"
+ * - ngram: Dice coefficient of character bigrams
+ */
+export type StringSimilarityMetric =
+  | 'levenshtein'
+  | 'damerau-levenshtein'
+  | 'jaro-winkler'
+  | 'token-set'
+  | 'ngram';
+
+/**
+ * Options for string similarity
+ */
+export interface StringSimilarityOptions {
+  /** Algorithm to use (default: 'levenshtein') */
+  metric?: StringSimilarityMetric;
+  /**
+   * Scores below this value may be reported as 0, letting the comparison stop
+   * as soon as the threshold can't be reached (default: 0)
+   */
+  threshold?: number;
+}
+
+/**
+ * Calculate string similarity, ignoring case
  * @param str1 First string
  * @param str2 Second string
+ * @param options Algorithm and early-exit threshold (default: Levenshtein, no threshold)
  * @returns A similarity score between 0 and 1, where 1 indicates identical strings
  */
-export function calculateStringSimilarity(str1: string, str2: string): number {
+export function calculateStringSimilarity(
+  str1: string,
+  str2: string,
+  options: StringSimilarityOptions = {}
+): number {
+  const { metric = 'levenshtein', threshold = 0 } = options;
   if (str1 === str2) return 1;
-  
-  // Convert to lowercase for case-insensitive comparison
+
+  switch (metric) {
+    case 'damerau-levenshtein':
+      return calculateDamerauLevenshteinSimilarity(str1, str2, threshold);
+    case 'jaro-winkler':
+      return calculateJaroWinklerSimilarity(str1, str2, threshold);
+    case 'token-set':
+      return calculateTokenSetSimilarity(str1, str2, threshold);
+    case 'ngram':
+      return calculateNGramSimilarity(str1, str2, 2, threshold);
+    default:
+      return calculateLevenshteinSimilarity(str1, str2, threshold);
+  }
+}
+
+/**
+ * Maximum edit distance that still reaches a similarity threshold
+ */
+function getMaxDistance(maxLength: number, threshold: number): number {
+  return threshold > 0 ? Math.floor((1 - threshold) * maxLength + 1e-9) : maxLength;
+}
+
+/**
+ * Calculate similarity as 1 - Levenshtein distance / length of the longer string
+ * @param str1 First string
+ * @param str2 Second string
+ * @param threshold Scores below this value may be reported as 0 (default: 0)
+ * @returns A similarity score between 0 and 1
+ */
+export function calculateLevenshteinSimilarity(str1: string, str2: string, threshold: number = 0): number {
   const s1 = str1.toLowerCase();
   const s2 = str2.toLowerCase();
-  
-  // Calculate Levenshtein distance
-  const distance = levenshteinDistance(s1, s2);
-  
-  // Calculate similarity as 1 - normalized distance
   const maxLength = Math.max(s1.length, s2.length);
   if (maxLength === 0) return 1; // Both empty strings
-  
-  return 1 - distance / maxLength;
+
+  const distance = levenshteinDistance(s1, s2, getMaxDistance(maxLength, threshold));
+  return distance === undefined ? 0 : 1 - distance / maxLength;
+}
+
+/**
+ * Calculate similarity as 1 - Damerau-Levenshtein distance / length of the longer string
+ * @param str1 First string
+ * @param str2 Second string
+ * @param threshold Scores below this value may be reported as 0 (default: 0)
+ * @returns A similarity score between 0 and 1
+ */
+export function calculateDamerauLevenshteinSimilarity(
+  str1: string,
+  str2: string,
+  threshold: number = 0
+): number {
+  const s1 = str1.toLowerCase();
+  const s2 = str2.toLowerCase();
+  const maxLength = Math.max(s1.length, s2.length);
+  if (maxLength === 0) return 1;
+
+  const distance = damerauLevenshteinDistance(s1, s2, getMaxDistance(maxLength, threshold));
+  return distance === undefined ? 0 : 1 - distance / maxLength;
 }
 
 /**
  * Calculate Levenshtein distance between two strings
+ * Keeps two rows sized to the shorter string and stops once every path exceeds `maxDistance`
  * @param str1 First string
  * @param str2 Second string
- * @returns Edit distance (lower means more similar)
+ * @param maxDistance Largest distance of interest (default: unbounded)
+ * @returns Edit distance (lower means more similar), or undefined if it exceeds `maxDistance`
  */
-function levenshteinDistance(str1: string, str2: string): number {
-  const m = str1.length;
-  const n = str2.length;
-  
-  // Create a matrix of size (m+1) x (n+1)
-  const dp: number[][] = Array(m + 1)
-    .fill(null)
-    .map(() => Array(n + 1).fill(0));
-  
-  // Initialize first row and first column
-  for (let i = 0; i <= m; i++) {
-    dp[i][0] = i;
+export function levenshteinDistance(
+  str1: string,
+  str2: string,
+  maxDistance: number = Infinity
+): number | undefined {
+  // Iterate over the longer string so the rows are sized to the shorter one
+  const [long, short] = str1.length >= str2.length ? [str1, str2] : [str2, str1];
+  if (long.length - short.length > maxDistance) return undefined;
+
+  let previous = Array.from({ length: short.length + 1 }, (_, j) => j);
+  let current = new Array<number>(short.length + 1);
+
+  for (let i = 1; i <= long.length; i++) {
+    current[0] = i;
+    let rowMinimum = i;
+    for (let j = 1; j <= short.length; j++) {
+      current[j] = long[i - 1] === short[j - 1]
+        ? previous[j - 1]
+        : Math.min(
+          previous[j] + 1, // Deletion
+          current[j - 1] + 1, // Insertion
+          previous[j - 1] + 1 // Substitution
+        );
+      rowMinimum = Math.min(rowMinimum, current[j]);
+    }
+    if (rowMinimum > maxDistance) return undefined;
+    [previous, current] = [current, previous];
   }
-  
-  for (let j = 0; j <= n; j++) {
-    dp[0][j] = j;
+
+  return previous[short.length] <= maxDistance ? previous[short.length] : undefined;
+}
+
+/**
+ * Calculate Damerau-Levenshtein (optimal string alignment) distance between two strings
+ * Keeps three rows sized to the shorter string and stops once every path exceeds `maxDistance`
+ * @param str1 First string
+ * @param str2 Second string
+ * @param maxDistance Largest distance of interest (default: unbounded)
+ * @returns Edit distance counting adjacent swaps as one edit, or undefined if it exceeds `maxDistance`
+ */
+export function damerauLevenshteinDistance(
+  str1: string,
+  str2: string,
+  maxDistance: number = Infinity
+): number | undefined {
+  const [long, short] = str1.length >= str2.length ? [str1, str2] : [str2, str1];
+  if (long.length - short.length > maxDistance) return undefined;
+
+  let beforePrevious = new Array<number>(short.length + 1).fill(0);
+  let previous = Array.from({ length: short.length + 1 }, (_, j) => j);
+  let current = new Array<number>(short.length + 1);
+
+  for (let i = 1; i <= long.length; i++) {
+    current[0] = i;
+    let rowMinimum = i;
+    for (let j = 1; j <= short.length; j++) {
+      const cost = long[i - 1] === short[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1, // Deletion
+        current[j - 1] + 1, // Insertion
+        previous[j - 1] + cost // Substitution
+      );
+      if (i > 1 && j > 1 && long[i - 1] === short[j - 2] && long[i - 2] === short[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1); // Transposition
+      }
+      rowMinimum = Math.min(rowMinimum, current[j]);
+    }
+    if (rowMinimum > maxDistance) return undefined;
+    [beforePrevious, previous, current] = [previous, current, beforePrevious];
   }
-  
-  // Fill the matrix
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (str1[i - 1] === str2[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1];
-      } else {
-        dp[i][j] = Math.min(
-          dp[i - 1][j] + 1, // Deletion
-          dp[i][j - 1] + 1, // Insertion
-          dp[i - 1][j - 1] + 1 // Substitution
-        );
+
+  return previous[short.length] <= maxDistance ? previous[short.length] : undefined;
+}
+
+/**
+ * Largest Jaro-Winkler prefix scale; above it four shared leading characters
+ * would push scores past 1
+ */
+const MAX_PREFIX_SCALE = 0.25;
+
+/**
+ * Calculate Jaro-Winkler similarity between two strings
+ * The prefix boost only applies to pairs with a Jaro similarity above 0.7.
+ * Only the positions of matched characters are stored, at most one per character of the shorter string
+ * @param str1 First string
+ * @param str2 Second string
+ * @param threshold Scores below this value may be reported as 0 (default: 0)
+ * @param prefixScale Boost per shared leading character, up to four, clamped to 0-0.25 (default: 0.1)
+ * @returns A similarity score between 0 and 1
+ */
+export function calculateJaroWinklerSimilarity(
+  str1: string,
+  str2: string,
+  threshold: number = 0,
+  prefixScale: number = 0.1
+): number {
+  const [long, short] = str1.length >= str2.length
+    ? [str1.toLowerCase(), str2.toLowerCase()]
+    : [str2.toLowerCase(), str1.toLowerCase()];
+  if (long.length === 0) return 1;
+  if (short.length === 0) return 0;
+  const scale = Math.min(MAX_PREFIX_SCALE, Math.max(0, prefixScale || 0));
+
+  // Even if every character of the shorter string matched, with a full prefix boost
+  const bestJaro = (2 + short.length / long.length) / 3;
+  if (bestJaro + 4 * scale * (1 - bestJaro) < threshold) return 0;
+
+  const window = Math.max(0, Math.floor(long.length / 2) - 1);
+  const matchedInLong = new Set<number>();
+  const shortMatches: string[] = [];
+
+  for (let i = 0; i < short.length; i++) {
+    const end = Math.min(long.length - 1, i + window);
+    for (let j = Math.max(0, i - window); j <= end; j++) {
+      if (!matchedInLong.has(j) && short[i] === long[j]) {
+        matchedInLong.add(j);
+        shortMatches.push(short[i]);
+        break;
       }
     }
   }
-  
-  return dp[m][n];
+
+  const matches = shortMatches.length;
+  if (matches === 0) return 0;
+
+  // Count matched characters that appear in a different order
+  const longPositions = [...matchedInLong].sort((a, b) => a - b);
+  let outOfOrder = 0;
+  shortMatches.forEach((char, index) => {
+    if (char !== long[longPositions[index]]) outOfOrder++;
+  });
+
+  const jaro = (matches / short.length + matches / long.length + (matches - outOfOrder / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, short.length) && short[prefix] === long[prefix]) {
+    prefix++;
+  }
+
+  return jaro > 0.7 ? jaro + prefix * scale * (1 - jaro) : jaro;
+}
+
+/**
+ * Split text into distinct lower-case words
+ */
+function toTokenSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean));
+}
+
+/**
+ * Calculate token-set similarity between two strings
+ * Compares the shared words with each string's full word set (sorted, so word order
+ * doesn't matter) and keeps the best Levenshtein similarity
+ * @param str1 First string
+ * @param str2 Second string
+ * @param threshold Scores below this value may be reported as 0 (default: 0)
+ * @returns A similarity score between 0 and 1
+ */
+export function calculateTokenSetSimilarity(str1: string, str2: string, threshold: number = 0): number {
+  const tokens1 = toTokenSet(str1);
+  const tokens2 = toTokenSet(str2);
+  if (tokens1.size === 0 && tokens2.size === 0) return 1;
+
+  const shared = [...tokens1].filter(token => tokens2.has(token)).sort();
+  const rest1 = [...tokens1].filter(token => !tokens2.has(token)).sort();
+  const rest2 = [...tokens2].filter(token => !tokens1.has(token)).sort();
+
+  const sharedText = shared.join(' ');
+  const combined1 = [...shared, ...rest1].join(' ');
+  const combined2 = [...shared, ...rest2].join(' ');
+
+  // One word set contains the other
+  if (shared.length > 0 && (rest1.length === 0 || rest2.length === 0)) return 1;
+
+  let best = 0;
+  [[sharedText, combined1], [sharedText, combined2], [combined1, combined2]].forEach(([a, b]) => {
+    if (a || b) {
+      best = Math.max(best, calculateLevenshteinSimilarity(a, b, Math.max(threshold, best)));
+    }
+  });
+  return best;
+}
+
+/**
+ * Calculate n-gram similarity (Dice coefficient) between two strings
+ * Only the n-grams of the shorter string are stored; the longer string is streamed
+ * @param str1 First string
+ * @param str2 Second string
+ * @param n Gram size (default: 2)
+ * @param threshold Scores below this value may be reported as 0 (default: 0)
+ * @returns A similarity score between 0 and 1
+ */
+export function calculateNGramSimilarity(
+  str1: string,
+  str2: string,
+  n: number = 2,
+  threshold: number = 0
+): number {
+  const [long, short] = str1.length >= str2.length
+    ? [str1.toLowerCase(), str2.toLowerCase()]
+    : [str2.toLowerCase(), str1.toLowerCase()];
+  if (long === short) return 1;
+
+  // Strings shorter than a gram can only match exactly
+  if (short.length < n) return 0;
+
+  const shortCount = short.length - n + 1;
+  const longCount = long.length - n + 1;
+  if ((2 * shortCount) / (shortCount + longCount) < threshold) return 0;
+
+  const grams = new Map<string, number>();
+  for (let i = 0; i < shortCount; i++) {
+    const gram = short.slice(i, i + n);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+
+  let shared = 0;
+  for (let i = 0; i < longCount; i++) {
+    const gram = long.slice(i, i + n);
+    const remaining = grams.get(gram);
+    if (remaining) {
+      grams.set(gram, remaining - 1);
+      shared++;
+    }
+  }
+
+  return (2 * shared) / (shortCount + longCount);
 }
 
 /**
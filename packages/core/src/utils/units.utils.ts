@@ -0,0 +1,199 @@
+/**
+ * Measurement unit utilities
+ * Conversion and formatting helpers for lengths, weights and volumes that
+ * honor the user's imperial/metric preference
+ */
+
+import {
+  Length,
+  LengthUnit,
+  MeasurementUnit,
+  MeasurementUnits,
+  Quantity,
+  Volume,
+  VolumeUnit,
+  Weight,
+  WeightUnit
+} from '@igorganapolsky/boats-types';
+import { Boat } from '../types';
+
+/**
+ * Conversion factors to the imperial base unit of each measurement kind
+ */
+const FEET_PER_METER = 3.28084;
+const POUNDS_PER_KILOGRAM = 2.20462;
+const GALLONS_PER_LITER = 0.264172;
+
+/**
+ * Units used by each measurement system
+ */
+export const MEASUREMENT_UNITS: Record<MeasurementUnit, MeasurementUnits> = {
+  imperial: { length: 'ft', weight: 'lb', volume: 'gal', distance: 'mi' },
+  metric: { length: 'm', weight: 'kg', volume: 'l', distance: 'km' }
+};
+
+/**
+ * Display suffix for each unit
+ */
+const UNIT_LABELS: Record<LengthUnit | WeightUnit | VolumeUnit, string> = {
+  ft: 'ft',
+  m: 'm',
+  lb: 'lbs',
+  kg: 'kg',
+  gal: 'gal',
+  l: 'L'
+};
+
+/**
+ * Boat fields that hold a length measurement
+ */
+export type BoatLengthField = 'length' | 'beam' | 'draft';
+
+/**
+ * Boat fields that hold a volume measurement
+ */
+export type BoatVolumeField = 'fuelCapacity' | 'waterCapacity';
+
+/**
+ * Create a length quantity
+ */
+export function createLength(value: number, unit: LengthUnit = 'ft'): Length {
+  return { value, unit };
+}
+
+/**
+ * Create a weight quantity
+ */
+export function createWeight(value: number, unit: WeightUnit = 'lb'): Weight {
+  return { value, unit };
+}
+
+/**
+ * Create a volume quantity
+ */
+export function createVolume(value: number, unit: VolumeUnit = 'gal'): Volume {
+  return { value, unit };
+}
+
+/**
+ * Convert a length to the target unit
+ */
+export function convertLength(length: Length, to: LengthUnit): Length {
+  if (length.unit === to) return length;
+  const value = to === 'ft' ? length.value * FEET_PER_METER : length.value / FEET_PER_METER;
+  return { value, unit: to };
+}
+
+/**
+ * Convert a weight to the target unit
+ */
+export function convertWeight(weight: Weight, to: WeightUnit): Weight {
+  if (weight.unit === to) return weight;
+  const value = to === 'lb' ? weight.value * POUNDS_PER_KILOGRAM : weight.value / POUNDS_PER_KILOGRAM;
+  return { value, unit: to };
+}
+
+/**
+ * Convert a volume to the target unit
+ */
+export function convertVolume(volume: Volume, to: VolumeUnit): Volume {
+  if (volume.unit === to) return volume;
+  const value = to === 'gal' ? volume.value * GALLONS_PER_LITER : volume.value / GALLONS_PER_LITER;
+  return { value, unit: to };
+}
+
+/**
+ * Convert a bare length value between measurement systems
+ * Useful for converting user input such as search filter ranges
+ */
+export function convertLengthValue(value: number, from: MeasurementUnit, to: MeasurementUnit): number {
+  return convertLength(createLength(value, MEASUREMENT_UNITS[from].length), MEASUREMENT_UNITS[to].length).value;
+}
+
+/**
+ * Get a length measurement of a boat as a tagged quantity
+ * @param boat Boat to read from
+ * @param field Which length field to read
+ * @param to Optional unit to convert the result to
+ * @returns The measurement, or undefined if the boat does not specify it
+ */
+export function getBoatLength(boat: Boat, field: BoatLengthField = 'length', to?: LengthUnit): Length | undefined {
+  const value = boat[field];
+  if (!value) return undefined;
+  const length = createLength(value, MEASUREMENT_UNITS[boat.measurementUnit || 'imperial'].length);
+  return to ? convertLength(length, to) : length;
+}
+
+/**
+ * Get the weight of a boat as a tagged quantity
+ * @param boat Boat to read from
+ * @param to Optional unit to convert the result to
+ * @returns The weight, or undefined if the boat does not specify it
+ */
+export function getBoatWeight(boat: Boat, to?: WeightUnit): Weight | undefined {
+  if (!boat.weight) return undefined;
+  const weight = createWeight(boat.weight, MEASUREMENT_UNITS[boat.measurementUnit || 'imperial'].weight);
+  return to ? convertWeight(weight, to) : weight;
+}
+
+/**
+ * Get a volume measurement of a boat as a tagged quantity
+ * @param boat Boat to read from
+ * @param field Which volume field to read
+ * @param to Optional unit to convert the result to
+ * @returns The volume, or undefined if the boat does not specify it
+ */
+export function getBoatVolume(boat: Boat, field: BoatVolumeField = 'fuelCapacity', to?: VolumeUnit): Volume | undefined {
+  const value = boat[field];
+  if (!value) return undefined;
+  const volume = createVolume(value, MEASUREMENT_UNITS[boat.measurementUnit || 'imperial'].volume);
+  return to ? convertVolume(volume, to) : volume;
+}
+
+/**
+ * Format a quantity with its unit label
+ */
+function formatQuantity<U extends LengthUnit | WeightUnit | VolumeUnit>(
+  quantity: Quantity<U>,
+  maximumFractionDigits: number,
+  locale?: string
+): string {
+  const formatted = new Intl.NumberFormat(locale, { maximumFractionDigits }).format(quantity.value);
+  return `${formatted} ${UNIT_LABELS[quantity.unit]}`;
+}
+
+/**
+ * Format a length in the user's preferred measurement system
+ * @param length Length to format
+ * @param system Measurement system to display in
+ * @param locale Optional locale for number formatting
+ * @returns Formatted length string, or 'N/A' when missing
+ */
+export function formatLength(length: Length | undefined, system: MeasurementUnit = 'imperial', locale?: string): string {
+  if (!length) return 'N/A';
+  return formatQuantity(convertLength(length, MEASUREMENT_UNITS[system].length), 1, locale);
+}
+
+/**
+ * Format a weight in the user's preferred measurement system
+ * @param weight Weight to format
+ * @param system Measurement system to display in
+ * @param locale Optional locale for number formatting
+ * @returns Formatted weight string, or 'N/A' when missing
+ */
+export function formatWeight(weight: Weight | undefined, system: MeasurementUnit = 'imperial', locale?: string): string {
+  if (!weight) return 'N/A';
+  return formatQuantity(convertWeight(weight, MEASUREMENT_UNITS[system].weight), 0, locale);
+}
+
+/**
+ * Format a volume in the user's preferred measurement system
+ * @param volume Volume to format
+ * @param system Measurement system to display in
+ * @param locale Optional locale for number formatting
+ * @returns Formatted volume string, or 'N/A' when missing
+ */
+export function formatVolume(volume: Volume | undefined, system: MeasurementUnit = 'imperial', locale?: string): string {
+  if (!volume) return 'N/A';
+  return formatQuantity(convertVolume(volume, MEASUREMENT_UNITS[system].volume), 0, locale);
+}
@@ -0,0 +1,769 @@
+/**
+ * Runtime validation utilities for boat domain types
+ * These utilities check untrusted data (API payloads, persisted state) against
+ * the shapes declared in the types package and report every mismatch by path
+ */
+
+import {
+  BoatPropulsion,
+  BoatType,
+  Comparable,
+  ComparisonBlock,
+  ComparisonDocument,
+  ComparisonList,
+  ComparisonParagraph,
+  ComparisonSection,
+  ComparisonTable,
+  ContactChannel,
+  Dealer,
+  Engine,
+  FairPriceEstimate,
+  GeoLocation,
+  Money,
+  MultiBoatComparisonResult,
+  OwnershipCostEstimate,
+  OwnershipCostItem,
+  OwnershipCostYear,
+  PaginationMeta,
+  PriceAssessment,
+  PriceChange,
+  PrivateSeller,
+  Seller,
+  SimilarityBreakdown,
+  SimilarityComponentScore,
+  SpecMatrixRow,
+  UserPreferences,
+  ValuationAdjustment
+} from '@igorganapolsky/boats-types';
+import { Boat, BoatComparisonResult, ImageAnalysisResult } from '../types';
+import { BOAT_TYPES } from './boat-type.utils';
+
+/**
+ * A single validation problem found at a specific path in the value
+ */
+export interface ValidationIssue {
+  /** Path to the offending value, e.g. `boat.features[2]` */
+  path: string;
+  /** Human readable description of the problem */
+  message: string;
+}
+
+/**
+ * Result of validating a value against a schema
+ */
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; issues: ValidationIssue[] };
+
+/**
+ * A runtime schema describing values of type T
+ */
+export interface Schema<T> {
+  /**
+   * Check a value and return all issues found (an empty array means the value is valid)
+   * @param value Value to check
+   * @param path Path used as the prefix for reported issues
+   */
+  check(value: unknown, path: string): ValidationIssue[];
+  /** Marker property carrying the static type; never set at runtime */
+  readonly _type?: T;
+}
+
+/**
+ * Static type described by a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Error thrown by the assert helpers, carrying every issue found
+ */
+export type ValidationError = Error & { issues: ValidationIssue[] };
+
+/**
+ * Create a structured validation error with the list of issues
+ */
+export const createValidationError = (
+  message: string,
+  issues: ValidationIssue[]
+): ValidationError => {
+  const error = new Error(message) as ValidationError;
+  error.name = 'ValidationError';
+  error.issues = issues;
+  return error;
+};
+
+/**
+ * Check whether an error was produced by a failed validation
+ */
+export function isValidationError(error: unknown): error is ValidationError {
+  return error instanceof Error && Array.isArray((error as ValidationError).issues);
+}
+
+/**
+ * Describe the runtime type of a value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+  return typeof value;
+}
+
+function issue(path: string, message: string): ValidationIssue[] {
+  return [{ path, message }];
+}
+
+/**
+ * Schema for string values
+ */
+export function stringSchema(): Schema<string> {
+  return {
+    check: (value, path) =>
+      typeof value === 'string' ? [] : issue(path, `Expected string, received ${describe(value)}`)
+  };
+}
+
+/**
+ * Schema for finite number values, optionally bounded
+ */
+export function numberSchema(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  return {
+    check: (value, path) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return issue(path, `Expected finite number, received ${describe(value)}`);
+      }
+      if (options.integer && !Number.isInteger(value)) {
+        return issue(path, `Expected integer, received ${value}`);
+      }
+      if (options.min !== undefined && value < options.min) {
+        return issue(path, `Expected number >= ${options.min}, received ${value}`);
+      }
+      if (options.max !== undefined && value > options.max) {
+        return issue(path, `Expected number <= ${options.max}, received ${value}`);
+      }
+      return [];
+    }
+  };
+}
+
+/**
+ * Schema for boolean values
+ */
+export function booleanSchema(): Schema<boolean> {
+  return {
+    check: (value, path) =>
+      typeof value === 'boolean' ? [] : issue(path, `Expected boolean, received ${describe(value)}`)
+  };
+}
+
+/**
+ * Schema for one of a fixed set of literal values
+ */
+export function literalSchema<T extends string | number | boolean>(...allowed: T[]): Schema<T> {
+  return {
+    check: (value, path) =>
+      allowed.includes(value as T)
+        ? []
+        : issue(path, `Expected one of ${allowed.map(a => JSON.stringify(a)).join(', ')}, received ${JSON.stringify(value)}`)
+  };
+}
+
+/**
+ * Schema for arrays whose items all match the item schema
+ */
+export function arraySchema<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    check: (value, path) => {
+      if (!Array.isArray(value)) {
+        return issue(path, `Expected array, received ${describe(value)}`);
+      }
+      const issues: ValidationIssue[] = [];
+      value.forEach((entry, index) => {
+        issues.push(...item.check(entry, `${path}[${index}]`));
+      });
+      return issues;
+    }
+  };
+}
+
+/**
+ * Schema for objects used as dictionaries, whose values all match the value schema
+ */
+export function recordSchema<T>(valueSchema: Schema<T>): Schema<Record<string, T>> {
+  return {
+    check: (value, path) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return issue(path, `Expected object, received ${describe(value)}`);
+      }
+      const issues: ValidationIssue[] = [];
+      Object.entries(value as Record<string, unknown>).forEach(([key, entry]) => {
+        issues.push(...valueSchema.check(entry, `${path}.${key}`));
+      });
+      return issues;
+    }
+  };
+}
+
+/**
+ * Schema for values that may be undefined (missing properties)
+ */
+export function optionalSchema<T>(inner: Schema<T>): Schema<T | undefined> {
+  return {
+    check: (value, path) => (value === undefined ? [] : inner.check(value, path))
+  };
+}
+
+/**
+ * Schema for values that may be null
+ */
+export function nullableSchema<T>(inner: Schema<T>): Schema<T | null> {
+  return {
+    check: (value, path) => (value === null ? [] : inner.check(value, path))
+  };
+}
+
+/**
+ * Schema for plain objects with a known set of properties
+ * Unknown properties are allowed so that newer API versions stay compatible
+ */
+export function objectSchema<T extends object>(
+  shape: { [K in keyof T]-?: Schema<T[K]> }
+): Schema<T> {
+  return {
+    check: (value, path) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return issue(path, `Expected object, received ${describe(value)}`);
+      }
+      const record = value as Record<string, unknown>;
+      const issues: ValidationIssue[] = [];
+      (Object.keys(shape) as Array<keyof T & string>).forEach(key => {
+        const propertySchema = shape[key] as Schema<unknown>;
+        issues.push(...propertySchema.check(record[key], `${path}.${key}`));
+      });
+      return issues;
+    }
+  };
+}
+
+/**
+ * Validate a value against a schema
+ * @param schema Schema to validate against
+ * @param value Untrusted value
+ * @param path Root name used in issue paths
+ * @returns The typed value when valid, or every issue found
+ */
+export function validate<T>(schema: Schema<T>, value: unknown, path: string = 'value'): ValidationResult<T> {
+  const issues = schema.check(value, path);
+  return issues.length === 0
+    ? { valid: true, value: value as T }
+    : { valid: false, issues };
+}
+
+/**
+ * Format validation issues as a single readable message
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues.map(i => `${i.path}: ${i.message}`).join('; ');
+}
+
+/**
+ * Validate a value and throw a ValidationError if it does not match
+ * @param schema Schema to validate against
+ * @param value Untrusted value
+ * @param path Root name used in issue paths
+ * @returns The value typed as T
+ */
+export function assertSchema<T>(schema: Schema<T>, value: unknown, path: string = 'value'): T {
+  const result = validate(schema, value, path);
+  if (!result.valid) {
+    throw createValidationError(
+      `Invalid ${path}: ${formatValidationIssues(result.issues)}`,
+      result.issues
+    );
+  }
+  return result.value;
+}
+
+// Domain schemas
+
+const optionalString = optionalSchema(stringSchema());
+const optionalNonNegative = optionalSchema(numberSchema({ min: 0 }));
+const optionalCount = optionalSchema(numberSchema({ min: 0, integer: true }));
+const stringList = arraySchema(stringSchema());
+
+/**
+ * Schema for a single engine
+ */
+export const engineSchema: Schema<Engine> = objectSchema<Engine>({
+  make: optionalString,
+  model: optionalString,
+  horsepower: optionalNonNegative,
+  hours: optionalNonNegative,
+  fuelType: optionalSchema(literalSchema('gasoline', 'diesel', 'electric', 'hybrid')),
+  driveType: optionalSchema(literalSchema('outboard', 'inboard', 'sterndrive', 'pod', 'jet'))
+});
+
+/**
+ * Schema for a boat's propulsion system
+ */
+export const boatPropulsionSchema: Schema<BoatPropulsion> = objectSchema<BoatPropulsion>({
+  engines: arraySchema(engineSchema)
+});
+
+/**
+ * Schema for a recorded price change
+ */
+export const priceChangeSchema: Schema<PriceChange> = objectSchema<PriceChange>({
+  price: numberSchema({ min: 0 }),
+  currency: optionalString,
+  changedAt: stringSchema()
+});
+
+/**
+ * Schema for a structured boat location
+ */
+export const geoLocationSchema: Schema<GeoLocation> = objectSchema<GeoLocation>({
+  latitude: numberSchema({ min: -90, max: 90 }),
+  longitude: numberSchema({ min: -180, max: 180 }),
+  city: optionalString,
+  region: optionalString,
+  country: optionalString,
+  postalCode: optionalString,
+  marina: optionalString
+});
+
+/**
+ * Schema for a seller contact channel
+ */
+export const contactChannelSchema: Schema<ContactChannel> = objectSchema<ContactChannel>({
+  type: literalSchema('email', 'phone', 'sms', 'whatsapp', 'website'),
+  value: stringSchema(),
+  preferred: optionalSchema(booleanSchema())
+});
+
+const sellerBaseShape = {
+  id: stringSchema(),
+  displayName: stringSchema(),
+  userId: optionalString,
+  location: optionalSchema(geoLocationSchema),
+  verificationStatus: literalSchema('unverified', 'pending', 'verified', 'rejected'),
+  contactChannels: optionalSchema(arraySchema(contactChannelSchema)),
+  contactVisibility: optionalSchema(literalSchema('public', 'authenticated', 'hidden')),
+  createdAt: optionalString
+};
+
+/**
+ * Schema for private sellers
+ */
+export const privateSellerSchema: Schema<PrivateSeller> = objectSchema<PrivateSeller>({
+  ...sellerBaseShape,
+  type: literalSchema('private')
+});
+
+/**
+ * Schema for dealers
+ */
+export const dealerSchema: Schema<Dealer> = objectSchema<Dealer>({
+  ...sellerBaseShape,
+  type: literalSchema('dealer'),
+  companyName: stringSchema(),
+  websiteUrl: optionalString,
+  logoUrl: optionalString,
+  licenseNumber: optionalString,
+  inventoryIds: stringList
+});
+
+/**
+ * Schema for any seller, dispatching on its `type`
+ */
+export const sellerSchema: Schema<Seller> = {
+  check: (value, path) => {
+    const type = typeof value === 'object' && value !== null ? (value as { type?: unknown }).type : undefined;
+    if (type === 'dealer') return dealerSchema.check(value, path);
+    if (type === 'private') return privateSellerSchema.check(value, path);
+    return issue(`${path}.type`, `Expected one of "private", "dealer", received ${JSON.stringify(type)}`);
+  }
+};
+
+/**
+ * Schema for canonical boat type identifiers
+ */
+export const boatTypeSchema: Schema<BoatType> = literalSchema(...BOAT_TYPES);
+
+/**
+ * Schema for the Boat model
+ */
+export const boatSchema: Schema<Boat> = objectSchema<Boat>({
+  id: stringSchema(),
+  name: stringSchema(),
+  manufacturer: optionalString,
+  model: optionalString,
+  year: optionalSchema(numberSchema({ min: 1800, max: 2200, integer: true })),
+  length: optionalNonNegative,
+  beam: optionalNonNegative,
+  draft: optionalNonNegative,
+  weight: optionalNonNegative,
+  fuelCapacity: optionalNonNegative,
+  waterCapacity: optionalNonNegative,
+  measurementUnit: optionalSchema(literalSchema('imperial', 'metric')),
+  engineType: optionalString,
+  propulsion: optionalSchema(boatPropulsionSchema),
+  hullType: optionalString,
+  fuelType: optionalString,
+  cabins: optionalCount,
+  berths: optionalCount,
+  features: stringList,
+  imageUrls: stringList,
+  primaryImageUrl: optionalString,
+  videoUrls: optionalSchema(stringList),
+  description: optionalString,
+  price: optionalNonNegative,
+  currency: optionalString,
+  condition: optionalSchema(literalSchema('new', 'used')),
+  boatType: optionalSchema(boatTypeSchema),
+  location: optionalString,
+  geoLocation: optionalSchema(geoLocationSchema),
+  sellerId: optionalString,
+  categoryTags: optionalSchema(stringList),
+  status: optionalSchema(literalSchema('draft', 'active', 'pending', 'sold', 'expired')),
+  createdAt: optionalString,
+  updatedAt: optionalString,
+  listedAt: optionalString,
+  soldAt: optionalString,
+  priceHistory: optionalSchema(arraySchema(priceChangeSchema))
+});
+
+/**
+ * Schema for image analysis results
+ */
+export const imageAnalysisResultSchema: Schema<ImageAnalysisResult> = objectSchema<ImageAnalysisResult>({
+  boatType: optionalSchema(boatTypeSchema),
+  manufacturer: optionalString,
+  model: optionalString,
+  estimatedSize: optionalString,
+  features: stringList,
+  description: stringSchema(),
+  suitableActivities: stringList,
+  confidenceScore: optionalSchema(numberSchema({ min: 0, max: 1 }))
+});
+
+/**
+ * Schema for a single component of a similarity breakdown
+ */
+export const similarityComponentScoreSchema: Schema<SimilarityComponentScore> = objectSchema<SimilarityComponentScore>({
+  component: literalSchema('manufacturer', 'model', 'year', 'dimensions', 'propulsion', 'features', 'category', 'price'),
+  score: nullableSchema(numberSchema({ min: 0, max: 1 })),
+  weight: numberSchema({ min: 0 }),
+  applied: booleanSchema(),
+  contribution: numberSchema({ min: 0, max: 1 }),
+  reason: stringSchema()
+});
+
+/**
+ * Schema for similarity breakdowns
+ */
+export const similarityBreakdownSchema: Schema<SimilarityBreakdown> = objectSchema<SimilarityBreakdown>({
+  score: numberSchema({ min: 0, max: 1 }),
+  profile: stringSchema(),
+  components: arraySchema(similarityComponentScoreSchema)
+});
+
+/**
+ * Schema for monetary amounts
+ */
+export const moneySchema: Schema<Money> = objectSchema<Money>({
+  amount: numberSchema(),
+  currency: stringSchema()
+});
+
+/**
+ * Schema for valuation adjustments
+ */
+export const valuationAdjustmentSchema: Schema<ValuationAdjustment> = objectSchema<ValuationAdjustment>({
+  factor: literalSchema('year', 'length', 'engineHours', 'condition'),
+  amount: numberSchema(),
+  reason: stringSchema()
+});
+
+/**
+ * Schema for comparables used in a valuation
+ */
+export const comparableSchema: Schema<Comparable> = objectSchema<Comparable>({
+  boat: boatSchema,
+  similarity: numberSchema({ min: 0, max: 1 }),
+  askingPrice: moneySchema,
+  adjustedPrice: moneySchema,
+  adjustments: arraySchema(valuationAdjustmentSchema)
+});
+
+/**
+ * Schema for fair price estimates
+ */
+export const fairPriceEstimateSchema: Schema<FairPriceEstimate> = objectSchema<FairPriceEstimate>({
+  estimate: moneySchema,
+  low: moneySchema,
+  high: moneySchema,
+  confidence: literalSchema('low', 'medium', 'high'),
+  confidenceScore: numberSchema({ min: 0, max: 1 }),
+  comparables: arraySchema(comparableSchema)
+});
+
+/**
+ * Schema for price assessments
+ */
+export const priceAssessmentSchema: Schema<PriceAssessment> = objectSchema<PriceAssessment>({
+  rating: literalSchema('underpriced', 'fair', 'overpriced'),
+  askingPrice: moneySchema,
+  differencePercent: numberSchema(),
+  valuation: fairPriceEstimateSchema
+});
+
+const ownershipCostCategorySchema = literalSchema(
+  'fuel', 'insurance', 'storage', 'maintenance', 'registration', 'depreciation'
+);
+
+/**
+ * Schema for cost categories of an ownership cost estimate
+ */
+export const ownershipCostItemSchema: Schema<OwnershipCostItem> = objectSchema<OwnershipCostItem>({
+  category: ownershipCostCategorySchema,
+  firstYear: moneySchema,
+  total: moneySchema
+});
+
+/**
+ * Schema for single years of an ownership cost estimate
+ */
+export const ownershipCostYearSchema: Schema<OwnershipCostYear> = objectSchema<OwnershipCostYear>({
+  year: numberSchema({ min: 1, integer: true }),
+  costs: recordSchema(numberSchema()),
+  total: numberSchema(),
+  value: optionalSchema(numberSchema())
+});
+
+/**
+ * Schema for ownership cost estimates
+ */
+export const ownershipCostEstimateSchema: Schema<OwnershipCostEstimate> = objectSchema<OwnershipCostEstimate>({
+  currency: stringSchema(),
+  years: numberSchema({ min: 1, integer: true }),
+  purchasePrice: optionalSchema(moneySchema),
+  resaleValue: optionalSchema(moneySchema),
+  breakdown: arraySchema(ownershipCostItemSchema),
+  yearly: arraySchema(ownershipCostYearSchema),
+  annualAverage: moneySchema,
+  total: moneySchema,
+  missing: arraySchema(ownershipCostCategorySchema),
+  assumptions: objectSchema<OwnershipCostEstimate['assumptions']>({
+    hoursPerYear: numberSchema({ min: 0 }),
+    storage: literalSchema('slip', 'mooring', 'dryStack', 'trailer')
+  })
+});
+
+/**
+ * Schema for boat comparison results
+ */
+export const boatComparisonResultSchema: Schema<BoatComparisonResult> = objectSchema<BoatComparisonResult>({
+  boat1: boatSchema,
+  boat2: boatSchema,
+  similarities: stringList,
+  differences: stringList,
+  recommendation: optionalString,
+  similarityScore: optionalSchema(numberSchema({ min: 0, max: 100 })),
+  similarityBreakdown: optionalSchema(similarityBreakdownSchema),
+  priceAssessments: optionalSchema(objectSchema<NonNullable<BoatComparisonResult['priceAssessments']>>({
+    boat1: optionalSchema(priceAssessmentSchema),
+    boat2: optionalSchema(priceAssessmentSchema)
+  })),
+  ownershipCosts: optionalSchema(objectSchema<NonNullable<BoatComparisonResult['ownershipCosts']>>({
+    boat1: optionalSchema(ownershipCostEstimateSchema),
+    boat2: optionalSchema(ownershipCostEstimateSchema)
+  })),
+  comparisonText: optionalString
+});
+
+/**
+ * Schema for rows of a multi-boat spec matrix
+ */
+export const specMatrixRowSchema: Schema<SpecMatrixRow> = objectSchema<SpecMatrixRow>({
+  attribute: stringSchema(),
+  label: stringSchema(),
+  values: stringList,
+  preference: optionalSchema(literalSchema('higher', 'lower')),
+  best: arraySchema(numberSchema({ min: 0, integer: true }))
+});
+
+/**
+ * Schema for multi-boat comparison results
+ */
+export const multiBoatComparisonResultSchema: Schema<MultiBoatComparisonResult> = objectSchema<MultiBoatComparisonResult>({
+  boats: arraySchema(boatSchema),
+  specMatrix: arraySchema(specMatrixRowSchema),
+  similarityMatrix: arraySchema(arraySchema(numberSchema({ min: 0, max: 100 }))),
+  commonFeatures: stringList,
+  priceAssessments: optionalSchema(arraySchema(nullableSchema(priceAssessmentSchema))),
+  ownershipCosts: optionalSchema(arraySchema(nullableSchema(ownershipCostEstimateSchema))),
+  narrative: stringSchema(),
+  recommendation: optionalString,
+  pairComparison: optionalSchema(boatComparisonResultSchema),
+  comparisonText: optionalString
+});
+
+/**
+ * Schema for paragraphs of a comparison document
+ */
+export const comparisonParagraphSchema: Schema<ComparisonParagraph> = objectSchema<ComparisonParagraph>({
+  type: literalSchema('paragraph'),
+  text: stringSchema()
+});
+
+/**
+ * Schema for lists of a comparison document
+ */
+export const comparisonListSchema: Schema<ComparisonList> = objectSchema<ComparisonList>({
+  type: literalSchema('list'),
+  items: stringList
+});
+
+/**
+ * Schema for tables of a comparison document
+ */
+export const comparisonTableSchema: Schema<ComparisonTable> = objectSchema<ComparisonTable>({
+  type: literalSchema('table'),
+  id: optionalString,
+  headers: stringList,
+  rows: arraySchema(stringList),
+  highlights: optionalSchema(arraySchema(arraySchema(numberSchema({ min: 0, integer: true }))))
+});
+
+/**
+ * Schema for any comparison document block, dispatching on its `type`
+ */
+export const comparisonBlockSchema: Schema<ComparisonBlock> = {
+  check: (value, path) => {
+    const type = typeof value === 'object' && value !== null ? (value as { type?: unknown }).type : undefined;
+    if (type === 'paragraph') return comparisonParagraphSchema.check(value, path);
+    if (type === 'list') return comparisonListSchema.check(value, path);
+    if (type === 'table') return comparisonTableSchema.check(value, path);
+    return issue(`${path}.type`, `Expected one of "paragraph", "list", "table", received ${JSON.stringify(type)}`);
+  }
+};
+
+/**
+ * Schema for sections of a comparison document
+ */
+export const comparisonSectionSchema: Schema<ComparisonSection> = objectSchema<ComparisonSection>({
+  heading: stringSchema(),
+  blocks: arraySchema(comparisonBlockSchema)
+});
+
+/**
+ * Schema for comparison documents, e.g. as rendered in the 'json' format
+ */
+export const comparisonDocumentSchema: Schema<ComparisonDocument> = objectSchema<ComparisonDocument>({
+  version: numberSchema({ min: 1, integer: true }),
+  title: stringSchema(),
+  locale: optionalString,
+  sections: arraySchema(comparisonSectionSchema)
+});
+
+/**
+ * Schema for pagination metadata of list responses
+ */
+export const paginationMetaSchema: Schema<PaginationMeta> = objectSchema<PaginationMeta>({
+  page: optionalCount,
+  pageSize: optionalCount,
+  total: optionalCount
+});
+
+/**
+ * Schema for persisted user preferences
+ */
+export const userPreferencesSchema: Schema<UserPreferences> = objectSchema<UserPreferences>({
+  theme: literalSchema('light', 'dark', 'system'),
+  notifications: booleanSchema(),
+  analyticsConsent: booleanSchema(),
+  advancedMode: booleanSchema(),
+  measurementUnit: literalSchema('imperial', 'metric'),
+  currency: stringSchema()
+});
+
+// Type guards and assertions
+
+/**
+ * Check whether a value is a valid Boat
+ */
+export function isBoat(value: unknown): value is Boat {
+  return boatSchema.check(value, 'boat').length === 0;
+}
+
+/**
+ * Validate a Boat and report every issue found
+ */
+export function validateBoat(value: unknown, path: string = 'boat'): ValidationResult<Boat> {
+  return validate(boatSchema, value, path);
+}
+
+/**
+ * Assert that a value is a valid Boat
+ * @throws ValidationError listing every issue found
+ */
+export function assertBoat(value: unknown, path: string = 'boat'): asserts value is Boat {
+  assertSchema(boatSchema, value, path);
+}
+
+/**
+ * Check whether a value is a valid ImageAnalysisResult
+ */
+export function isImageAnalysisResult(value: unknown): value is ImageAnalysisResult {
+  return imageAnalysisResultSchema.check(value, 'analysis').length === 0;
+}
+
+/**
+ * Validate an ImageAnalysisResult and report every issue found
+ */
+export function validateImageAnalysisResult(
+  value: unknown,
+  path: string = 'analysis'
+): ValidationResult<ImageAnalysisResult> {
+  return validate(imageAnalysisResultSchema, value, path);
+}
+
+/**
+ * Assert that a value is a valid ImageAnalysisResult
+ * @throws ValidationError listing every issue found
+ */
+export function assertImageAnalysisResult(
+  value: unknown,
+  path: string = 'analysis'
+): asserts value is ImageAnalysisResult {
+  assertSchema(imageAnalysisResultSchema, value, path);
+}
+
+/**
+ * Check whether a value is a valid BoatComparisonResult
+ */
+export function isBoatComparisonResult(value: unknown): value is BoatComparisonResult {
+  return boatComparisonResultSchema.check(value, 'comparison').length === 0;
+}
+
+/**
+ * Validate a BoatComparisonResult and report every issue found
+ */
+export function validateBoatComparisonResult(
+  value: unknown,
+  path: string = 'comparison'
+): ValidationResult<BoatComparisonResult> {
+  return validate(boatComparisonResultSchema, value, path);
+}
+
+/**
+ * Assert that a value is a valid BoatComparisonResult
+ * @throws ValidationError listing every issue found
+ */
+export function assertBoatComparisonResult(
+  value: unknown,
+  path: string = 'comparison'
+): asserts value is BoatComparisonResult {
+  assertSchema(boatComparisonResultSchema, value, path);
+}
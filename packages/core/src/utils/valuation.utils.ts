@@ -0,0 +1,272 @@
+/**
+ * Valuation utilities
+ * Estimates a boat's fair market price from comparable listings, adjusting
+ * each comparable for differences in year, length, engine hours and condition
+ */
+
+import {
+  Comparable,
+  CurrencyCode,
+  FairPriceEstimate,
+  PriceAssessment,
+  PriceRating,
+  ValuationAdjustment,
+  ValuationConfidence
+} from '@igorganapolsky/boats-types';
+import { Boat } from '../types';
+import { findSimilarBoats } from './boat-matching.utils';
+import { createMoney, getBoatPrice, getBoatPriceIn } from './money.utils';
+import { getEngineHours } from './propulsion.utils';
+import { getBoatLength } from './units.utils';
+import { SimilarityProfile } from './similarity-profile.utils';
+
+/**
+ * Options for estimating a fair price
+ */
+export interface FairPriceOptions {
+  /** Currency of the estimate (default: the boat's currency) */
+  currency?: CurrencyCode;
+  /** Maximum number of comparables used (default: 8) */
+  maxComparables?: number;
+  /** Minimum similarity (0-1) for a listing to count as a comparable (default: 0.6) */
+  minSimilarity?: number;
+}
+
+/**
+ * Similarity used to pick comparables: the boat itself, not its price
+ */
+export const VALUATION_SIMILARITY_PROFILE: SimilarityProfile = {
+  name: 'valuation',
+  description: 'Comparable boats for pricing: same make, model, type, size and engines',
+  weights: {
+    manufacturer: 0.20,
+    model: 0.25,
+    year: 0.10,
+    dimensions: 0.15,
+    propulsion: 0.10,
+    category: 0.20
+  }
+};
+
+/**
+ * Price change per year of age difference (newer boats are worth more)
+ */
+const YEAR_RATE = 0.06;
+
+/**
+ * Price elasticity to length: price grows roughly with the square of length
+ */
+const LENGTH_EXPONENT = 2;
+
+/**
+ * Price change per 100 engine hours of difference
+ */
+const ENGINE_HOURS_RATE = 0.015;
+
+/**
+ * Premium of a new boat over a used one
+ */
+const NEW_CONDITION_PREMIUM = 0.15;
+
+/**
+ * Largest total adjustment, as a share of the comparable's price
+ */
+const MAX_ADJUSTMENT = 0.5;
+
+/**
+ * Smallest half-width of the fair price range, as a share of the estimate
+ */
+const MIN_RANGE = 0.05;
+
+/**
+ * Price factors that turn a comparable into an equivalent of the valued boat
+ * Each factor multiplies the comparable's price; 1 means no adjustment
+ */
+function getAdjustmentFactors(
+  boat: Boat,
+  comparable: Boat
+): Array<{ factor: ValuationAdjustment['factor']; multiplier: number; reason: string }> {
+  const factors: Array<{ factor: ValuationAdjustment['factor']; multiplier: number; reason: string }> = [];
+
+  if (boat.year && comparable.year && boat.year !== comparable.year) {
+    const years = boat.year - comparable.year;
+    factors.push({
+      factor: 'year',
+      multiplier: Math.pow(1 + YEAR_RATE, years),
+      reason: `${Math.abs(years)} ${Math.abs(years) === 1 ? 'year' : 'years'} ${years > 0 ? 'older' : 'newer'}`
+    });
+  }
+
+  const length = getBoatLength(boat, 'length', 'ft')?.value;
+  const comparableLength = getBoatLength(comparable, 'length', 'ft')?.value;
+  if (length && comparableLength && length !== comparableLength) {
+    const difference = comparableLength - length;
+    factors.push({
+      factor: 'length',
+      multiplier: Math.pow(length / comparableLength, LENGTH_EXPONENT),
+      reason: `${Math.abs(difference).toFixed(0)} ft ${difference > 0 ? 'longer' : 'shorter'}`
+    });
+  }
+
+  const hours = getEngineHours(boat);
+  const comparableHours = getEngineHours(comparable);
+  if (hours !== undefined && comparableHours !== undefined && hours !== comparableHours) {
+    const difference = comparableHours - hours;
+    factors.push({
+      factor: 'engineHours',
+      multiplier: 1 + (difference / 100) * ENGINE_HOURS_RATE,
+      reason: `${Math.abs(difference)} engine hours ${difference > 0 ? 'more' : 'fewer'}`
+    });
+  }
+
+  if (boat.condition && comparable.condition && boat.condition !== comparable.condition) {
+    factors.push({
+      factor: 'condition',
+      multiplier: boat.condition === 'new' ? 1 + NEW_CONDITION_PREMIUM : 1 / (1 + NEW_CONDITION_PREMIUM),
+      reason: `Comparable is ${comparable.condition}`
+    });
+  }
+
+  return factors;
+}
+
+/**
+ * Adjust a comparable's price to what it would be if it matched the valued boat
+ * The total adjustment is capped so a poor comparable can't swing the estimate
+ * @param boat Boat being valued
+ * @param comparable Comparable listing
+ * @param similarity Similarity of the comparable to the boat
+ * @param currency Valuation currency
+ * @returns The adjusted comparable, or undefined if its price is unknown or not convertible
+ */
+export function adjustComparable(
+  boat: Boat,
+  comparable: Boat,
+  similarity: number,
+  currency: CurrencyCode
+): Comparable | undefined {
+  const askingPrice = getBoatPriceIn(comparable, currency);
+  if (!askingPrice?.amount) return undefined;
+
+  const factors = getAdjustmentFactors(boat, comparable);
+  const rawMultiplier = factors.reduce((product, { multiplier }) => product * multiplier, 1);
+  const multiplier = Math.min(1 + MAX_ADJUSTMENT, Math.max(1 - MAX_ADJUSTMENT, rawMultiplier));
+  // Scale each adjustment down proportionally when the total was capped
+  const scale = rawMultiplier !== 1 ? Math.log(multiplier) / Math.log(rawMultiplier) : 1;
+
+  let running = askingPrice.amount;
+  const adjustments = factors.map(({ factor, multiplier: factorMultiplier, reason }) => {
+    const adjusted = running * Math.pow(factorMultiplier, scale);
+    const amount = adjusted - running;
+    running = adjusted;
+    return { factor, amount: Math.round(amount), reason };
+  });
+
+  return {
+    boat: comparable,
+    similarity,
+    askingPrice,
+    adjustedPrice: createMoney(Math.round(askingPrice.amount * multiplier), currency),
+    adjustments
+  };
+}
+
+/**
+ * Confidence level for a confidence score
+ */
+function getConfidenceLevel(score: number): ValuationConfidence {
+  if (score >= 0.7) return 'high';
+  if (score >= 0.45) return 'medium';
+  return 'low';
+}
+
+/**
+ * Estimate a boat's fair market price from comparable listings
+ * Comparables are weighted by the square of their similarity; the range is one
+ * weighted standard deviation either side of the estimate.
+ * @param boat Boat to value
+ * @param dataset Listings to pick comparables from
+ * @param options Currency, number of comparables and minimum similarity
+ * @returns Fair price estimate, or undefined if no usable comparables were found
+ */
+export function estimateFairPrice(
+  boat: Boat,
+  dataset: Boat[],
+  options: FairPriceOptions = {}
+): FairPriceEstimate | undefined {
+  const { maxComparables = 8, minSimilarity = 0.6 } = options;
+  const currency = options.currency || getBoatPrice(boat)?.currency;
+  if (!currency) return undefined;
+
+  // Over-fetch, since listings without a usable price are dropped afterwards
+  const comparables = findSimilarBoats(boat, dataset, minSimilarity, maxComparables * 2, {
+    profile: VALUATION_SIMILARITY_PROFILE
+  })
+    .map(({ boat: comparable, similarityScore }) => adjustComparable(boat, comparable, similarityScore, currency))
+    .filter((comparable): comparable is Comparable => !!comparable)
+    .slice(0, maxComparables);
+  if (comparables.length === 0) return undefined;
+
+  const weights = comparables.map(comparable => comparable.similarity ** 2);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const estimate = comparables.reduce(
+    (sum, comparable, index) => sum + comparable.adjustedPrice.amount * weights[index], 0
+  ) / totalWeight;
+  const variance = comparables.reduce(
+    (sum, comparable, index) => sum + weights[index] * (comparable.adjustedPrice.amount - estimate) ** 2, 0
+  ) / totalWeight;
+  const spread = Math.max(Math.sqrt(variance), estimate * MIN_RANGE);
+
+  // More, closer and more consistent comparables give a more reliable estimate
+  const coverage = Math.min(1, comparables.length / maxComparables);
+  const closeness = comparables.reduce((sum, comparable) => sum + comparable.similarity, 0) / comparables.length;
+  const agreement = 1 - Math.min(1, Math.sqrt(variance) / estimate / 0.5);
+  const confidenceScore = 0.35 * coverage + 0.4 * closeness + 0.25 * agreement;
+
+  return {
+    estimate: createMoney(Math.round(estimate), currency),
+    low: createMoney(Math.round(Math.max(0, estimate - spread)), currency),
+    high: createMoney(Math.round(estimate + spread), currency),
+    confidence: getConfidenceLevel(confidenceScore),
+    confidenceScore,
+    comparables
+  };
+}
+
+/**
+ * Judge an asking price against a fair price estimate
+ * @param boat Boat whose asking price to judge
+ * @param valuation Fair price estimate for the boat
+ * @returns Assessment, or undefined if the boat has no price in the estimate's currency
+ */
+export function assessPrice(boat: Boat, valuation: FairPriceEstimate): PriceAssessment | undefined {
+  const askingPrice = getBoatPriceIn(boat, valuation.estimate.currency);
+  if (!askingPrice?.amount) return undefined;
+
+  let rating: PriceRating = 'fair';
+  if (askingPrice.amount < valuation.low.amount) rating = 'underpriced';
+  if (askingPrice.amount > valuation.high.amount) rating = 'overpriced';
+
+  return {
+    rating,
+    askingPrice,
+    differencePercent: ((askingPrice.amount - valuation.estimate.amount) / valuation.estimate.amount) * 100,
+    valuation
+  };
+}
+
+/**
+ * Estimate a boat's fair price and judge its asking price against it
+ * @param boat Boat to assess
+ * @param dataset Listings to pick comparables from
+ * @param options Currency, number of comparables and minimum similarity
+ * @returns Assessment, or undefined if the boat has no price or no comparables were found
+ */
+export function assessBoatPrice(
+  boat: Boat,
+  dataset: Boat[],
+  options: FairPriceOptions = {}
+): PriceAssessment | undefined {
+  const valuation = estimateFairPrice(boat, dataset, options);
+  return valuation ? assessPrice(boat, valuation) : undefined;
+}
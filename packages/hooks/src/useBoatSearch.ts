@@ -7,24 +7,51 @@ import { useQuery } from '@tanstack/react-query';
 import { 
   withRetry,
   fetchWithTimeout,
-  getEnvironmentConfig
+  getEnvironmentConfig,
+  convertLengthValue,
+  sortBoatsByDistance,
+  sortBoatsByPrice,
+  DEFAULT_CURRENCY
 } from '@igorganapolsky/boats-core';
-import { Boat } from '@igorganapolsky/boats-types';
+import {
+  Boat,
+  BoatCategory,
+  BoatType,
+  CurrencyCode,
+  DistanceUnit,
+  GeoPoint,
+  ListingStatus,
+  MeasurementUnit
+} from '@igorganapolsky/boats-types';
 
 // Query key for caching
 const BOAT_SEARCH_KEY = 'boatSearch';
 
-type SortField = 'price' | 'year' | 'length' | 'name';
+type SortField = 'price' | 'year' | 'length' | 'name' | 'daysOnMarket' | 'priceDrop' | 'distance';
 type SortDirection = 'asc' | 'desc';
 
 interface BoatSearchFilters {
   priceRange?: [number | null, number | null];
+  /** Currency of priceRange values and price sorting (default: USD) */
+  currency?: CurrencyCode;
   yearRange?: [number | null, number | null];
   lengthRange?: [number | null, number | null];
+  /** Measurement system of lengthRange values (default: 'imperial') */
+  measurementUnit?: MeasurementUnit;
   manufacturers?: string[];
-  boatTypes?: string[];
+  boatTypes?: BoatType[];
+  /** Include every boat type in these categories */
+  boatCategories?: BoatCategory[];
   features?: string[];
   condition?: 'new' | 'used' | null;
+  statuses?: ListingStatus[];
+  recentlyReduced?: boolean;
+  /** Only include boats within a distance of a point */
+  radius?: {
+    center: GeoPoint;
+    distance: number;
+    unit?: DistanceUnit;
+  };
 }
 
 interface BoatSearchOptions {
@@ -35,6 +62,8 @@ interface BoatSearchOptions {
   };
   pageSize?: number;
   apiUrl?: string;
+  /** User's location, used when sorting by distance */
+  origin?: GeoPoint;
 }
 
 interface BoatSearchState {
@@ -60,7 +89,8 @@ export function useBoatSearch(options: BoatSearchOptions = {}) {
     initialFilters = {},
     initialSort = { field: 'price', direction: 'asc' },
     pageSize = 10,
-    apiUrl
+    apiUrl,
+    origin
   } = options;
   
   // Get environment configuration
@@ -93,8 +123,16 @@ export function useBoatSearch(options: BoatSearchOptions = {}) {
     // Sorting
     params.append('sortField', sort.field);
     params.append('sortDirection', sort.direction);
+    if (sort.field === 'distance' && origin) {
+      params.append('originLat', origin.latitude.toString());
+      params.append('originLon', origin.longitude.toString());
+    }
     
     // Filters
+    if (filters.currency) {
+      params.append('currency', filters.currency);
+    }
+    
     if (filters.priceRange) {
       if (filters.priceRange[0] !== null) {
         params.append('minPrice', filters.priceRange[0].toString());
@@ -114,11 +152,13 @@ export function useBoatSearch(options: BoatSearchOptions = {}) {
     }
     
     if (filters.lengthRange) {
+      // The API expects lengths in feet
+      const lengthUnit = filters.measurementUnit || 'imperial';
       if (filters.lengthRange[0] !== null) {
-        params.append('minLength', filters.lengthRange[0].toString());
+        params.append('minLength', convertLengthValue(filters.lengthRange[0], lengthUnit, 'imperial').toString());
       }
       if (filters.lengthRange[1] !== null) {
-        params.append('maxLength', filters.lengthRange[1].toString());
+        params.append('maxLength', convertLengthValue(filters.lengthRange[1], lengthUnit, 'imperial').toString());
       }
     }
     
@@ -129,11 +169,17 @@ export function useBoatSearch(options: BoatSearchOptions = {}) {
     }
     
     if (filters.boatTypes?.length) {
-      filters.boatTypes.forEach(t => {
+      filters.boatTypes.forEach((t: BoatType) => {
         params.append('boatType', t);
       });
     }
     
+    if (filters.boatCategories?.length) {
+      filters.boatCategories.forEach((c: BoatCategory) => {
+        params.append('boatCategory', c);
+      });
+    }
+    
     if (filters.features?.length) {
       filters.features.forEach(f => {
         params.append('feature', f);
@@ -144,8 +190,25 @@ export function useBoatSearch(options: BoatSearchOptions = {}) {
       params.append('condition', filters.condition);
     }
     
+    if (filters.statuses?.length) {
+      filters.statuses.forEach((status: ListingStatus) => {
+        params.append('status', status);
+      });
+    }
+    
+    if (filters.recentlyReduced) {
+      params.append('recentlyReduced', 'true');
+    }
+    
+    if (filters.radius) {
+      params.append('lat', filters.radius.center.latitude.toString());
+      params.append('lon', filters.radius.center.longitude.toString());
+      params.append('radius', filters.radius.distance.toString());
+      params.append('radiusUnit', filters.radius.unit || 'km');
+    }
+    
     return params.toString();
-  }, [searchState]);
+  }, [searchState, origin?.latitude, origin?.longitude]);
   
   // Query for fetching boats
   const { data, isLoading, error, refetch } = useQuery({
@@ -173,9 +236,24 @@ export function useBoatSearch(options: BoatSearchOptions = {}) {
   // Update state when query results change
   useMemo(() => {
     if (data) {
+      // Keep the page ordered by distance or normalized price even if the
+      // server ignores the origin or mixes currencies
+      let boats = data.boats;
+      if (searchState.sort.field === 'distance' && origin) {
+        const sorted = sortBoatsByDistance(data.boats, origin);
+        // Boats without a location stay last in both directions
+        const located = sorted.filter(({ distance }) => distance !== undefined);
+        const unlocated = sorted.filter(({ distance }) => distance === undefined);
+        if (searchState.sort.direction === 'desc') located.reverse();
+        boats = [...located, ...unlocated].map(({ boat }) => boat);
+      } else if (searchState.sort.field === 'price') {
+        const currency = searchState.filters.currency || DEFAULT_CURRENCY;
+        boats = sortBoatsByPrice(data.boats, currency, searchState.sort.direction);
+      }
+      
       setSearchState(prev => ({
         ...prev,
-        boats: data.boats,
+        boats,
         totalCount: data.totalCount,
         isLoading,
         error: error as Error | null
@@ -192,7 +270,7 @@ export function useBoatSearch(options: BoatSearchOptions = {}) {
         isLoading
       }));
     }
-  }, [data, isLoading, error]);
+  }, [data, isLoading, error, searchState.sort, searchState.filters.currency, origin?.latitude, origin?.longitude]);
   
   // Helper function to update filters
   const updateFilters = useCallback((newFilters: Partial<BoatSearchFilters>) => {
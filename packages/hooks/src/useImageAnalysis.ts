@@ -7,9 +7,13 @@ import { useQuery, useMutation } from '@tanstack/react-query';
 import { 
   OpenAIService, 
   TensorFlowService,
-  getEnvironmentConfig
+  getEnvironmentConfig,
+  normalizeBoatType,
+  detectBoatType,
+  BOAT_ACTIVITIES
 } from '@igorganapolsky/boats-core';
 import { 
+  BoatType,
   ImageAnalysisResult,
   OpenAIServiceConfig
 } from '@igorganapolsky/boats-types';
@@ -177,7 +181,7 @@ export function useImageAnalysis(options: UseImageAnalysisOptions = {}) {
 }
 
 // Helper functions to extract information from the analysis text
-function extractBoatType(text: string): string | undefined {
+function extractBoatType(text: string): BoatType | undefined {
   const typePatterns = [
     /boat type:?\s*([^,\.;]*)/i,
     /vessel type:?\s*([^,\.;]*)/i,
@@ -188,11 +192,15 @@ function extractBoatType(text: string): string | undefined {
   for (const pattern of typePatterns) {
     const match = pattern.exec(text);
     if (match && match[1]) {
-      return match[1].trim();
+      const boatType = normalizeBoatType(match[1]) ?? detectBoatType(match[1]);
+      if (boatType) {
+        return boatType;
+      }
     }
   }
   
-  return undefined;
+  // Fall back to any boat type mentioned in the analysis
+  return detectBoatType(text);
 }
 
 function extractManufacturer(text: string): string | undefined {
@@ -251,14 +259,6 @@ function extractSize(text: string): string | undefined {
 function extractActivities(text: string): string[] {
   const activities: string[] = [];
   
-  // Common boat activities
-  const activityKeywords = [
-    'fishing', 'sailing', 'cruising', 'racing', 'watersports', 
-    'diving', 'water skiing', 'wakeboarding', 'day trips',
-    'offshore', 'coastal', 'recreational', 'sport', 'touring',
-    'overnight', 'leisure', 'family', 'professional'
-  ];
-  
   // Look for sentences about activities or uses
   const activitySection = text.match(/suitable for:?\s*([^\.]*)/i)?.[1] || 
                          text.match(/activities:?\s*([^\.]*)/i)?.[1] || 
@@ -271,8 +271,8 @@ function extractActivities(text: string): string[] {
     activities.push(...activityList.filter(a => a.length > 3));
   }
   
-  // Also check for general keyword mentions
-  for (const keyword of activityKeywords) {
+  // Also check for mentions of known activities, the vocabulary buyer requirements use
+  for (const keyword of BOAT_ACTIVITIES) {
     const regex = new RegExp(`\\b${keyword}\\b`, 'i');
     if (regex.test(text) && !activities.includes(keyword)) {
       activities.push(keyword);
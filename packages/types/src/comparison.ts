@@ -0,0 +1,146 @@
+/**
+ * Type definitions for comparing several boats side by side
+ */
+
+import { Boat, BoatComparisonResult } from './index';
+import { PriceAssessment } from './valuation';
+import { OwnershipCostEstimate } from './ownership';
+
+/**
+ * Built-in attribute of the comparison attribute catalog
+ */
+export type ComparisonAttribute =
+  | 'manufacturer'
+  | 'model'
+  | 'boatType'
+  | 'year'
+  | 'condition'
+  | 'length'
+  | 'beam'
+  | 'draft'
+  | 'weight'
+  | 'fuelCapacity'
+  | 'waterCapacity'
+  | 'cabins'
+  | 'berths'
+  | 'hullType'
+  | 'engines'
+  | 'engineCount'
+  | 'driveType'
+  | 'fuelType'
+  | 'horsepower'
+  | 'engineHours'
+  | 'features'
+  | 'price'
+  | 'pricePerFoot'
+  | 'fairPrice'
+  | 'daysOnMarket';
+
+/**
+ * Whether higher or lower values of an attribute are better
+ */
+export type ComparisonPreference = 'higher' | 'lower';
+
+/**
+ * One attribute of every compared boat
+ */
+export interface SpecMatrixRow {
+  /** A `ComparisonAttribute`, or the id of a registered or derived attribute, e.g. a Boat field name */
+  attribute: string;
+  label: string;
+  /** Display value per boat, in the order the boats were compared */
+  values: string[];
+  /** Which values are better, for attributes that have a best value */
+  preference?: ComparisonPreference;
+  /** Indexes of the boats with the best value; empty when fewer than two boats have a value or all tie */
+  best: number[];
+}
+
+/**
+ * Results from comparing two or more boats
+ */
+export interface MultiBoatComparisonResult {
+  boats: Boat[];
+  specMatrix: SpecMatrixRow[];
+  /** Similarity scores (0-100); `similarityMatrix[i][j]` compares boats i and j */
+  similarityMatrix: number[][];
+  /** Features every boat has, as written on the first boat */
+  commonFeatures: string[];
+  /** Fair price assessment per boat, null where it couldn't be made, when market data was supplied */
+  priceAssessments?: Array<PriceAssessment | null>;
+  /** Estimated cost of owning each boat, null where it couldn't be estimated, when requested */
+  ownershipCosts?: Array<OwnershipCostEstimate | null>;
+  /** Prose summary of the most important findings */
+  narrative: string;
+  recommendation?: string;
+  /** Detailed two-boat comparison, when exactly two boats were compared */
+  pairComparison?: BoatComparisonResult;
+  /** Comparison rendered in the requested format (default: Markdown) */
+  comparisonText?: string;
+}
+
+/**
+ * Output format of a comparison with a built-in renderer
+ */
+export type BuiltInComparisonFormat = 'markdown' | 'html' | 'text' | 'csv' | 'json';
+
+/**
+ * Output format of a rendered comparison
+ * Any other name (e.g. 'pdf') can be used once a renderer is registered for it.
+ */
+// `string & {}` keeps editor suggestions for the built-in formats
+export type ComparisonFormat = BuiltInComparisonFormat | (string & {});
+
+/**
+ * Paragraph of prose in a comparison document
+ */
+export interface ComparisonParagraph {
+  type: 'paragraph';
+  text: string;
+}
+
+/**
+ * Bulleted list in a comparison document
+ */
+export interface ComparisonList {
+  type: 'list';
+  items: string[];
+}
+
+/**
+ * Table in a comparison document
+ */
+export interface ComparisonTable {
+  type: 'table';
+  /** Identifies well-known tables, e.g. 'specifications' for the spec matrix */
+  id?: string;
+  headers: string[];
+  rows: string[][];
+  /** Column indexes of highlighted (best) cells in each row */
+  highlights?: number[][];
+}
+
+/**
+ * Content of a comparison section
+ */
+export type ComparisonBlock = ComparisonParagraph | ComparisonList | ComparisonTable;
+
+/**
+ * Titled section of a comparison document
+ */
+export interface ComparisonSection {
+  heading: string;
+  blocks: ComparisonBlock[];
+}
+
+/**
+ * Format-independent structure of a comparison, rendered to text by a comparison renderer
+ */
+export interface ComparisonDocument {
+  /** Version of the document structure, bumped on incompatible changes */
+  version: number;
+  title: string;
+  /** BCP 47 language tag of the document's text, when not the default English */
+  locale?: string;
+  sections: ComparisonSection[];
+}
@@ -0,0 +1,16 @@
+/**
+ * Type definitions for the boat feature vocabulary
+ */
+
+/**
+ * Entry in the feature vocabulary
+ */
+export interface FeatureDefinition {
+  /** Canonical feature id, e.g. 'air-conditioning' */
+  id: string;
+  label: string;
+  /** Broader feature this one is a kind of, e.g. 'thruster' for 'bow-thruster' */
+  parent?: string;
+  /** Alternative spellings used in listings, e.g. 'A/C' */
+  synonyms: string[];
+}
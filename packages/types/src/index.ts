@@ -4,6 +4,13 @@
  * @packageDocumentation
  */
 
+import { MeasurementUnit } from './units';
+import { BoatType } from './taxonomy';
+import { CurrencyCode } from './money';
+import { SimilarityBreakdown } from './similarity';
+import { PriceAssessment } from './valuation';
+import { OwnershipCostEstimate } from './ownership';
+
 /**
  * Base interface for boat information with essential properties.
  * Contains the minimum required fields for a boat entity.
@@ -18,13 +25,48 @@ export interface BoatBase {
 
 /**
  * Physical dimensions and measurements of a boat.
- * All measurements are typically in standard marine units (feet/meters).
+ * Values are bare numbers in the system given by `measurementUnit`:
+ * feet, pounds and US gallons for 'imperial' (the default), or
+ * meters, kilograms and liters for 'metric'.
  */
 export interface BoatDimensions {
   length?: number;
   beam?: number;
   draft?: number;
-  weight?: number; // in pounds/kg
+  weight?: number;
+  fuelCapacity?: number;
+  waterCapacity?: number;
+  measurementUnit?: MeasurementUnit;
+}
+
+/**
+ * How an engine transmits power to the water.
+ */
+export type DriveType = 'outboard' | 'inboard' | 'sterndrive' | 'pod' | 'jet';
+
+/**
+ * Fuel used by an engine.
+ */
+export type EngineFuelType = 'gasoline' | 'diesel' | 'electric' | 'hybrid';
+
+/**
+ * A single engine installed on a boat.
+ */
+export interface Engine {
+  make?: string;
+  model?: string;
+  horsepower?: number;
+  hours?: number;
+  fuelType?: EngineFuelType;
+  driveType?: DriveType;
+}
+
+/**
+ * Propulsion system of a boat.
+ * Twin and triple installations list one entry per engine.
+ */
+export interface BoatPropulsion {
+  engines: Engine[];
 }
 
 /**
@@ -32,7 +74,9 @@ export interface BoatDimensions {
  * These properties describe the boat's capabilities and equipment.
  */
 export interface BoatFeatures {
+  /** @deprecated Free-form description; use `propulsion` instead */
   engineType?: string;
+  propulsion?: BoatPropulsion;
   hullType?: string;
   fuelType?: string;
   cabins?: number;
@@ -50,6 +94,53 @@ export interface BoatMedia {
   videoUrls?: string[];
 }
 
+/**
+ * A point on the earth's surface in decimal degrees (WGS 84).
+ */
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Structured location of a boat.
+ */
+export interface GeoLocation extends GeoPoint {
+  city?: string;
+  region?: string; // State, province or county
+  country?: string; // ISO 3166-1 alpha-2 code
+  postalCode?: string;
+  marina?: string;
+}
+
+/**
+ * Lifecycle status of a boat listing.
+ */
+export type ListingStatus = 'draft' | 'active' | 'pending' | 'sold' | 'expired';
+
+/**
+ * A recorded change to the asking price of a listing.
+ */
+export interface PriceChange {
+  price: number;
+  currency?: CurrencyCode;
+  changedAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * Listing lifecycle information for a boat.
+ * All timestamps are ISO 8601 strings.
+ */
+export interface BoatListing {
+  status?: ListingStatus;
+  createdAt?: string;
+  updatedAt?: string;
+  listedAt?: string;
+  soldAt?: string;
+  /** Asking price changes in chronological order, starting with the original price */
+  priceHistory?: PriceChange[];
+}
+
 /**
  * Complete Boat model that combines all boat-related interfaces.
  * This is the primary type used for boat listings and comparisons.
@@ -57,13 +148,17 @@ export interface BoatMedia {
  * @extends BoatDimensions - Physical measurements
  * @extends BoatFeatures - Optional features and equipment
  * @extends BoatMedia - Associated media content
+ * @extends BoatListing - Listing lifecycle and price history
  */
-export interface Boat extends BoatBase, BoatDimensions, BoatFeatures, BoatMedia {
+export interface Boat extends BoatBase, BoatDimensions, BoatFeatures, BoatMedia, BoatListing {
   description?: string;
   price?: number;
-  currency?: string;
+  currency?: CurrencyCode; // Defaults to USD
   condition?: 'new' | 'used';
-  location?: string;
+  boatType?: BoatType;
+  location?: string; // Display text, e.g. "Miami, FL"
+  geoLocation?: GeoLocation;
+  sellerId?: string; // Seller or Dealer listing the boat
   categoryTags?: string[];
 }
 
@@ -72,7 +167,7 @@ export interface Boat extends BoatBase, BoatDimensions, BoatFeatures, BoatMedia
  * Contains detected features and attributes with confidence scores.
  */
 export interface ImageAnalysisResult {
-  boatType?: string;
+  boatType?: BoatType;
   manufacturer?: string;
   model?: string;
   estimatedSize?: string;
@@ -93,21 +188,20 @@ export interface BoatComparisonResult {
   differences: string[];
   recommendation?: string;
   similarityScore?: number; // 0-100
-  comparisonText?: string;
-}
-
-// API Response Types
-export interface ApiResponse<T> {
-  data?: T;
-  error?: {
-    code: string;
-    message: string;
+  /** Why the boats received their similarity score */
+  similarityBreakdown?: SimilarityBreakdown;
+  /** Fair price assessment of each boat, when market data was supplied */
+  priceAssessments?: {
+    boat1?: PriceAssessment;
+    boat2?: PriceAssessment;
   };
-  meta?: {
-    page?: number;
-    pageSize?: number;
-    total?: number;
+  /** Estimated cost of owning each boat, when requested */
+  ownershipCosts?: {
+    boat1?: OwnershipCostEstimate;
+    boat2?: OwnershipCostEstimate;
   };
+  /** Comparison rendered in the requested format (default: Markdown) */
+  comparisonText?: string;
 }
 
 /**
@@ -130,3 +224,13 @@ export * from './services';
 export * from './ui';
 export * from './state';
 export * from './network';
+export * from './units';
+export * from './taxonomy';
+export * from './money';
+export * from './seller';
+export * from './similarity';
+export * from './features';
+export * from './valuation';
+export * from './comparison';
+export * from './recommendation';
+export * from './ownership';
@@ -0,0 +1,27 @@
+/**
+ * Type definitions for monetary amounts and currency conversion
+ */
+
+/**
+ * ISO 4217 currency code, e.g. 'USD' or 'EUR'
+ */
+export type CurrencyCode = string;
+
+/**
+ * An amount of money tagged with its currency
+ */
+export interface Money {
+  amount: number;
+  currency: CurrencyCode;
+}
+
+/**
+ * Exchange rates relative to a base currency.
+ * `rates[code]` is how many units of `code` one unit of `base` buys.
+ */
+export interface ExchangeRateTable {
+  base: CurrencyCode;
+  rates: Record<CurrencyCode, number>;
+  /** ISO 8601 date the rates were captured */
+  asOf?: string;
+}
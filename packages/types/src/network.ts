@@ -14,29 +14,83 @@ export interface FetchWithTimeoutOptions extends RequestInit {
 }
 
 /**
- * Generic API response type
+ * Error information for a failed API call
  */
-export interface ApiResponse<T = any> {
+export interface ApiError {
   /**
-   * Whether the API call was successful
+   * Machine readable error code, e.g. 'HTTP_404' or 'VALIDATION_ERROR'
    */
-  success: boolean;
+  code: string;
+  
+  /**
+   * Human readable error message
+   */
+  message: string;
+  
+  /**
+   * Optional additional error details
+   */
+  details?: any;
+}
+
+/**
+ * Pagination metadata for list responses
+ */
+export interface PaginationMeta {
+  page?: number;
+  pageSize?: number;
+  total?: number;
+}
+
+/**
+ * Successful API call
+ */
+export interface ApiSuccess<T> {
+  success: true;
   
   /**
    * Response data
    */
   data: T;
   
+  /**
+   * Optional pagination metadata for list responses
+   */
+  meta?: PaginationMeta;
+  
   /**
    * Optional message from the API
    */
   message?: string;
+}
+
+/**
+ * Failed API call
+ */
+export interface ApiFailure {
+  success: false;
   
   /**
-   * Optional error information
+   * Error information
    */
+  error: ApiError;
+}
+
+/**
+ * Result of an API call, discriminated by `success`
+ * Every API client returns this type instead of throwing
+ */
+export type ApiResponse<T = any> = ApiSuccess<T> | ApiFailure;
+
+/**
+ * Response body of endpoints that wrap their payload, such as the auth endpoints
+ * This is the wire format; clients convert it to an ApiResponse
+ */
+export interface ApiEnvelope<T> {
+  data?: T;
   error?: {
-    code?: string;
-    details?: any;
+    code: string;
+    message: string;
   };
+  meta?: PaginationMeta;
 }
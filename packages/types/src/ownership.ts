@@ -0,0 +1,134 @@
+/**
+ * Type definitions for total cost of ownership estimates
+ */
+
+import { EngineFuelType } from './index';
+import { CurrencyCode, Money } from './money';
+
+/**
+ * Kind of running cost included in a cost of ownership estimate
+ */
+export type OwnershipCostCategory =
+  | 'fuel'
+  | 'insurance'
+  | 'storage'
+  | 'maintenance'
+  | 'registration'
+  | 'depreciation';
+
+/**
+ * Where a boat is kept between outings
+ */
+export type StorageType = 'slip' | 'mooring' | 'dryStack' | 'trailer';
+
+/**
+ * Fuel or energy use of one engine fuel type
+ */
+export interface FuelRate {
+  /** Gallons (or kWh for electric) burned per horsepower per hour at full throttle */
+  consumptionPerHpHour: number;
+  /** Price per gallon (or kWh) */
+  unitPrice: number;
+}
+
+/**
+ * Yearly cost of keeping a boat in one kind of storage
+ */
+export interface StorageRate {
+  perFootPerYear: number;
+  /** Least charged per year, however short the boat */
+  minimumPerYear: number;
+}
+
+/**
+ * Registration fee for boats up to a length
+ */
+export interface RegistrationBracket {
+  /** Longest boat in the bracket, in feet; omitted for the last bracket */
+  maxLength?: number;
+  amount: number;
+}
+
+/**
+ * Rates cost of ownership estimates are calculated from.
+ * Amounts are in `currency`; shares (`...Rate`) are fractions of the boat's value.
+ */
+export interface OwnershipRateTable {
+  currency: CurrencyCode;
+  /** ISO 8601 date the rates were captured */
+  asOf?: string;
+  /** Engine hours per year assumed when the estimate doesn't specify usage */
+  hoursPerYear: number;
+  /** Average share of full throttle used over an outing */
+  throttleLoad: number;
+  fuel: Partial<Record<EngineFuelType, FuelRate>>;
+  insurance: {
+    /** Yearly premium as a share of the boat's value */
+    rateOfValue: number;
+    minimumPremium: number;
+  };
+  storage: Record<StorageType, StorageRate>;
+  maintenance: {
+    /** Yearly upkeep as a share of the boat's value */
+    rateOfValue: number;
+    /** Servicing cost per engine per engine hour */
+    perEngineHour: number;
+  };
+  /** Brackets in ascending length order */
+  registration: RegistrationBracket[];
+  depreciation: {
+    /** Value lost in the first year by a boat bought new */
+    firstYearRate: number;
+    /** Value lost in every other year */
+    annualRate: number;
+  };
+}
+
+/**
+ * One kind of cost in a cost of ownership estimate
+ */
+export interface OwnershipCostItem {
+  category: OwnershipCostCategory;
+  /** Cost in the first year of ownership */
+  firstYear: Money;
+  /** Cost over the whole ownership period */
+  total: Money;
+}
+
+/**
+ * Costs of a single year of ownership
+ */
+export interface OwnershipCostYear {
+  /** Year of ownership, starting at 1 */
+  year: number;
+  costs: Partial<Record<OwnershipCostCategory, number>>;
+  total: number;
+  /** Estimated value of the boat at the end of the year */
+  value?: number;
+}
+
+/**
+ * Estimated annual and multi-year cost of owning a boat
+ */
+export interface OwnershipCostEstimate {
+  currency: CurrencyCode;
+  /** Length of the ownership period in years */
+  years: number;
+  purchasePrice?: Money;
+  /** Estimated value at the end of the ownership period */
+  resaleValue?: Money;
+  /** Cost categories that could be estimated, in a fixed order */
+  breakdown: OwnershipCostItem[];
+  yearly: OwnershipCostYear[];
+  /** Average cost per year over the ownership period */
+  annualAverage: Money;
+  /** Cost over the whole ownership period, excluding the purchase price */
+  total: Money;
+  /** Categories left out because the listing lacks the data they need */
+  missing: OwnershipCostCategory[];
+  /** Usage the estimate assumed */
+  assumptions: {
+    hoursPerYear: number;
+    storage: StorageType;
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Type definitions for requirements-driven boat recommendations
+ */
+
+import { Boat } from './index';
+import { CurrencyCode } from './money';
+
+/**
+ * Activities a boat can be suited to
+ * Matches the vocabulary of `ImageAnalysisResult.suitableActivities`
+ */
+export type BoatActivity =
+  | 'fishing'
+  | 'sailing'
+  | 'cruising'
+  | 'racing'
+  | 'watersports'
+  | 'diving'
+  | 'water skiing'
+  | 'wakeboarding'
+  | 'day trips'
+  | 'offshore'
+  | 'coastal'
+  | 'recreational'
+  | 'sport'
+  | 'touring'
+  | 'overnight'
+  | 'leisure'
+  | 'family'
+  | 'professional';
+
+/**
+ * Water the buyer mostly boats on
+ */
+export type WaterType = 'fresh' | 'salt';
+
+/**
+ * How much boating experience the buyer has
+ */
+export type ExperienceLevel = 'beginner' | 'intermediate' | 'expert';
+
+/**
+ * Price range the buyer is willing to pay
+ */
+export interface BudgetRange {
+  min?: number;
+  max?: number;
+  currency: CurrencyCode;
+}
+
+/**
+ * What a buyer is looking for in a boat
+ * Every requirement is optional; only the given ones are scored.
+ */
+export interface BuyerRequirements {
+  /** Number of people usually on board */
+  crewSize?: number;
+  /** Intended activities; values outside `BoatActivity` are matched against listing tags */
+  activities?: string[];
+  budget?: BudgetRange;
+  /** Whether the boat must be towable on a road trailer */
+  trailerable?: boolean;
+  waterType?: WaterType;
+  experience?: ExperienceLevel;
+}
+
+/**
+ * Requirement scored when recommending boats
+ */
+export type RequirementCriterion = 'crew' | 'activities' | 'budget' | 'trailerable' | 'waterType' | 'experience';
+
+/**
+ * How well a boat meets a single requirement
+ */
+export interface RequirementFit {
+  criterion: RequirementCriterion;
+  /** Fit between 0 and 1, or null when the boat's listing lacks the data to judge it */
+  score: number | null;
+  /** Weight given to this requirement */
+  weight: number;
+  /** False when data was missing, so the requirement was left out of the total */
+  applied: boolean;
+  /** Share of the overall fit contributed by this requirement, between 0 and 1 */
+  contribution: number;
+  /** Human readable explanation, e.g. "Within budget at $45,000" */
+  reason: string;
+}
+
+/**
+ * A boat ranked against buyer requirements
+ */
+export interface BoatRecommendation {
+  boat: Boat;
+  /** Overall fit between 0 and 1 */
+  score: number;
+  fits: RequirementFit[];
+}
@@ -0,0 +1,72 @@
+/**
+ * Type definitions for sellers and dealers
+ */
+
+import { GeoLocation } from './index';
+
+/**
+ * Whether a boat is sold by its owner or by a dealership
+ */
+export type SellerType = 'private' | 'dealer';
+
+/**
+ * Identity verification state of a seller
+ */
+export type VerificationStatus = 'unverified' | 'pending' | 'verified' | 'rejected';
+
+/**
+ * Ways a buyer can reach a seller
+ */
+export type ContactChannelType = 'email' | 'phone' | 'sms' | 'whatsapp' | 'website';
+
+export interface ContactChannel {
+  type: ContactChannelType;
+  value: string;
+  preferred?: boolean;
+}
+
+/**
+ * Who may see a seller's contact channels.
+ * 'hidden' sellers can only be reached through in-app messaging.
+ */
+export type ContactVisibility = 'public' | 'authenticated' | 'hidden';
+
+/**
+ * Properties shared by every kind of seller
+ */
+export interface SellerBase {
+  id: string;
+  type: SellerType;
+  displayName: string;
+  /** Account that manages this seller */
+  userId?: string;
+  location?: GeoLocation;
+  verificationStatus: VerificationStatus;
+  /** Omitted when the viewer is not allowed to see them */
+  contactChannels?: ContactChannel[];
+  /** Defaults to 'public' for dealers and 'authenticated' for private sellers */
+  contactVisibility?: ContactVisibility;
+  createdAt?: string; // ISO 8601 timestamp
+}
+
+/**
+ * An individual selling their own boat
+ */
+export interface PrivateSeller extends SellerBase {
+  type: 'private';
+}
+
+/**
+ * A dealership selling boats from its inventory
+ */
+export interface Dealer extends SellerBase {
+  type: 'dealer';
+  companyName: string;
+  websiteUrl?: string;
+  logoUrl?: string;
+  licenseNumber?: string;
+  /** IDs of the boats in the dealer's inventory */
+  inventoryIds: string[];
+}
+
+export type Seller = PrivateSeller | Dealer;
@@ -3,6 +3,8 @@
  */
 
 import { Boat, ImageAnalysisResult, BoatComparisonResult } from './index';
+import { BoatType } from './taxonomy';
+import { MultiBoatComparisonResult } from './comparison';
 
 // OpenAI Service Types
 export interface OpenAIServiceConfig {
@@ -52,13 +54,14 @@ export interface BoatDatabaseServiceInterface {
   searchBoats(query: string): Promise<Boat[]>;
   findSimilarBoats(analysis: ImageAnalysisResult): Promise<Boat[]>;
   compareBoats(boat1Id: string, boat2Id: string): Promise<BoatComparisonResult | null>;
+  compareMultipleBoats(boatIds: string[]): Promise<MultiBoatComparisonResult | null>;
 }
 
 // Image Analysis Service Types
 export interface ImageAnalysisServiceInterface {
   analyzeImage(file: File, onProgress?: (message: string) => void): Promise<ImageAnalysisResult>;
   extractFeatures(analysis: string): string[];
-  identifyBoatType(analysis: string): string;
+  identifyBoatType(analysis: string): BoatType | undefined;
   estimateBoatSize(analysis: string): { length?: number; beam?: number; draft?: number };
 }
 
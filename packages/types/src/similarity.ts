@@ -0,0 +1,44 @@
+/**
+ * Type definitions for explainable boat similarity
+ */
+
+/**
+ * Attributes compared when calculating boat similarity
+ */
+export type SimilarityComponent =
+  | 'manufacturer'
+  | 'model'
+  | 'year'
+  | 'dimensions'
+  | 'propulsion'
+  | 'features'
+  | 'category'
+  | 'price';
+
+/**
+ * How a single attribute contributed to a similarity score
+ */
+export interface SimilarityComponentScore {
+  component: SimilarityComponent;
+  /** Raw similarity between 0 and 1, or null when the attribute could not be compared */
+  score: number | null;
+  /** Weight the profile gives this attribute */
+  weight: number;
+  /** False when data was missing, so the attribute was left out of the total */
+  applied: boolean;
+  /** Share of the overall score contributed by this attribute, between 0 and 1 */
+  contribution: number;
+  /** Human readable explanation, e.g. "Both are center consoles" */
+  reason: string;
+}
+
+/**
+ * Per-attribute explanation of a similarity score
+ */
+export interface SimilarityBreakdown {
+  /** Overall similarity between 0 and 1 */
+  score: number;
+  /** Name of the similarity profile used */
+  profile: string;
+  components: SimilarityComponentScore[];
+}
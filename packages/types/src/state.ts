@@ -3,6 +3,9 @@
  */
 
 import { Boat, ImageAnalysisResult, BoatComparisonResult } from './index';
+import { MultiBoatComparisonResult } from './comparison';
+import { MeasurementUnit } from './units';
+import { CurrencyCode } from './money';
 
 // Application state slices
 export interface AppState {
@@ -16,6 +19,7 @@ export interface BoatsState {
   boats: Boat[];
   selectedBoats: Boat[];
   comparisonResult: BoatComparisonResult | null;
+  multiComparisonResult: MultiBoatComparisonResult | null;
   loading: boolean;
   error: string | null;
 }
@@ -54,7 +58,9 @@ export interface UserProfile {
   email: string;
   name?: string;
   avatarUrl?: string;
-  role: 'user' | 'admin';
+  role: 'user' | 'dealer' | 'admin';
+  /** Dealer managed by this user, when role is 'dealer' */
+  dealerId?: string;
 }
 
 export interface UserPreferences {
@@ -62,7 +68,8 @@ export interface UserPreferences {
   notifications: boolean;
   analyticsConsent: boolean;
   advancedMode: boolean;
-  measurementUnit: 'imperial' | 'metric';
+  measurementUnit: MeasurementUnit;
+  currency: CurrencyCode;
 }
 
 // Context types for React Context API
@@ -72,6 +79,7 @@ export interface BoatsContextType {
     fetchBoats: () => Promise<void>;
     selectBoat: (boatId: string) => void;
     compareBoats: (boat1Id: string, boat2Id: string) => Promise<void>;
+    compareMultipleBoats: (boatIds: string[]) => Promise<void>;
     clearSelection: () => void;
   };
 }
@@ -89,3 +97,41 @@ export interface ThemeContextType {
   theme: 'light' | 'dark';
   toggleTheme: () => void;
 }
+
+// Persistence types
+/**
+ * Key-value storage used to persist state slices.
+ * Matches both `localStorage` and React Native's `AsyncStorage`.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Stored form of a state slice, stamped with the schema version it was written with
+ */
+export interface PersistedEnvelope<T> {
+  version: number;
+  savedAt: string; // ISO 8601 timestamp
+  data: T;
+}
+
+/**
+ * Where a loaded state slice came from
+ * - 'stored': read as-is
+ * - 'migrated': read from an older version and upgraded
+ * - 'default': nothing was stored
+ * - 'recovered': stored data was corrupt or unsupported and the default was used
+ */
+export type PersistedStateSource = 'stored' | 'migrated' | 'default' | 'recovered';
+
+export interface PersistedStateResult<T> {
+  value: T;
+  source: PersistedStateSource;
+  /** Version the stored data was written with */
+  storedVersion?: number;
+  /** Why stored data was discarded, when source is 'recovered' */
+  error?: string;
+}
@@ -0,0 +1,49 @@
+/**
+ * Type definitions for the canonical boat type taxonomy
+ */
+
+/**
+ * Top-level family of a boat type
+ */
+export type BoatCategory = 'power' | 'sail' | 'pwc';
+
+export type PowerBoatType =
+  | 'center-console'
+  | 'bowrider'
+  | 'deck-boat'
+  | 'pontoon'
+  | 'runabout'
+  | 'ski-wake'
+  | 'bass-boat'
+  | 'jon-boat'
+  | 'walkaround'
+  | 'express-cruiser'
+  | 'sport-fisherman'
+  | 'trawler'
+  | 'motor-yacht'
+  | 'power-catamaran';
+
+export type SailBoatType =
+  | 'daysailer'
+  | 'cruising-sailboat'
+  | 'racing-sailboat'
+  | 'sailing-catamaran'
+  | 'trimaran';
+
+export type PersonalWatercraftType = 'personal-watercraft';
+
+/**
+ * Canonical boat type identifier
+ */
+export type BoatType = PowerBoatType | SailBoatType | PersonalWatercraftType;
+
+/**
+ * Entry in the boat type taxonomy
+ */
+export interface BoatTypeDefinition {
+  id: BoatType;
+  category: BoatCategory;
+  label: string;
+  /** Alternative names used in listings and image analysis, in lower case */
+  aliases: string[];
+}
@@ -0,0 +1,35 @@
+/**
+ * Type definitions for unit-aware measurements
+ */
+
+/**
+ * Measurement system preferred by a user or used by a listing
+ */
+export type MeasurementUnit = 'imperial' | 'metric';
+
+export type LengthUnit = 'ft' | 'm';
+export type WeightUnit = 'lb' | 'kg';
+export type VolumeUnit = 'gal' | 'l';
+export type DistanceUnit = 'km' | 'mi' | 'nm';
+
+/**
+ * A numeric value tagged with its unit
+ */
+export interface Quantity<U extends string> {
+  value: number;
+  unit: U;
+}
+
+export type Length = Quantity<LengthUnit>;
+export type Weight = Quantity<WeightUnit>;
+export type Volume = Quantity<VolumeUnit>;
+
+/**
+ * Units used for each kind of measurement in a measurement system
+ */
+export interface MeasurementUnits {
+  length: LengthUnit;
+  weight: WeightUnit;
+  volume: VolumeUnit;
+  distance: DistanceUnit;
+}
@@ -0,0 +1,74 @@
+/**
+ * Type definitions for comparable-based boat valuation
+ */
+
+import { Boat } from './index';
+import { Money } from './money';
+
+/**
+ * Attribute a comparable's price is adjusted for
+ */
+export type ValuationFactor = 'year' | 'length' | 'engineHours' | 'condition';
+
+/**
+ * How much a comparable's price was adjusted to match the valued boat
+ */
+export interface ValuationAdjustment {
+  factor: ValuationFactor;
+  /** Amount added to the comparable's price, negative when it was reduced */
+  amount: number;
+  /** Human readable explanation, e.g. "3 years older" */
+  reason: string;
+}
+
+/**
+ * A listing used to value another boat
+ */
+export interface Comparable {
+  boat: Boat;
+  /** Similarity to the valued boat, between 0 and 1 */
+  similarity: number;
+  /** Asking price in the valuation currency */
+  askingPrice: Money;
+  /** Price after adjusting for differences from the valued boat */
+  adjustedPrice: Money;
+  adjustments: ValuationAdjustment[];
+}
+
+/**
+ * How much a valuation can be relied on
+ */
+export type ValuationConfidence = 'low' | 'medium' | 'high';
+
+/**
+ * Estimated fair market price of a boat
+ */
+export interface FairPriceEstimate {
+  /** Most likely fair price */
+  estimate: Money;
+  /** Lower end of the fair price range */
+  low: Money;
+  /** Upper end of the fair price range */
+  high: Money;
+  confidence: ValuationConfidence;
+  /** Confidence between 0 and 1, from the number, similarity and agreement of comparables */
+  confidenceScore: number;
+  comparables: Comparable[];
+}
+
+/**
+ * Whether an asking price is below, within or above the fair price range
+ */
+export type PriceRating = 'underpriced' | 'fair' | 'overpriced';
+
+/**
+ * A boat's asking price judged against its fair price estimate
+ */
+export interface PriceAssessment {
+  rating: PriceRating;
+  /** Asking price in the valuation currency */
+  askingPrice: Money;
+  /** Difference from the estimate as a percentage, negative when below it */
+  differencePercent: number;
+  valuation: FairPriceEstimate;
+}